@@ -0,0 +1,81 @@
+import { Sequelize } from 'sequelize';
+import { RBAC } from '../rbac';
+import { SequelizeStorageAdapter } from '../storage';
+import { admin, createSqliteRBAC, testUser } from './fixtures';
+
+describe('AuditService', () => {
+  const editor = testUser({ id: 101, email: 'editor@example.com', userType: 'admin' });
+  let rbac: RBAC;
+  let sequelize: Sequelize;
+
+  beforeEach(async () => {
+    ({ rbac, sequelize } = await createSqliteRBAC());
+    await sequelize.models.User.create({ id: 7, email: 'ann@example.com', userType: 'user' });
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await sequelize.close();
+  });
+
+  it('records the actor and permission diff of role changes', async () => {
+    const role = await rbac.createRole({ name: 'Clerk', permissions: ['orders.view', 'orders.edit'] }, 1, admin);
+    await rbac.updateRole(role.id, { permissions: ['orders.view', 'billing.view'] }, 1, editor);
+    await rbac.deleteRole(role.id, 1, admin);
+
+    const { entries } = await rbac.getAuditLog(1);
+
+    expect(entries.map(entry => entry.action)).toEqual(['role.deleted', 'role.updated', 'role.created']);
+    expect(entries[1]).toMatchObject({
+      actorId: editor.id,
+      roleId: role.id,
+      permissionsAdded: ['billing.view'],
+      permissionsRemoved: ['orders.edit'],
+    });
+    expect(entries[0]).toMatchObject({ after: null, permissionsRemoved: ['orders.view', 'billing.view'] });
+  });
+
+  it('records assignments against the user', async () => {
+    const role = await rbac.createRole({ name: 'Clerk', permissions: ['orders.view'] }, 1, admin);
+    await rbac.assignRoleToUser(7, role.id, 1, admin);
+    await rbac.removeRoleFromUser(7, role.id, 1, editor);
+
+    const { entries } = await rbac.getAuditLog(1, { userId: 7 });
+
+    expect(entries).toEqual([
+      expect.objectContaining({ action: 'assignment.removed', actorId: editor.id, roleId: role.id }),
+      expect.objectContaining({ action: 'assignment.added', actorId: admin.id, roleId: role.id }),
+    ]);
+  });
+
+  it('filters by action, actor and tenant', async () => {
+    const role = await rbac.createRole({ name: 'Clerk', permissions: ['orders.view'] }, 1, admin);
+    await rbac.updateRole(role.id, { name: 'Senior Clerk' }, 1, editor);
+    await rbac.createRole({ name: 'Clerk', permissions: ['orders.view'] }, 2, editor);
+
+    expect((await rbac.getAuditLog(1, { action: 'role.updated' })).total).toBe(1);
+    expect((await rbac.getAuditLog(1, { actorId: editor.id })).entries).toEqual([
+      expect.objectContaining({ action: 'role.updated' }),
+    ]);
+    expect((await rbac.getAuditLog(2)).total).toBe(1);
+  });
+
+  it('rolls the change back when the entry cannot be written', async () => {
+    jest.spyOn(SequelizeStorageAdapter.prototype, 'createAuditEntry').mockRejectedValueOnce(new Error('audit table locked'));
+
+    await expect(rbac.createRole({ name: 'Clerk', permissions: ['orders.view'] }, 1, admin)).rejects.toThrow('audit table locked');
+    expect(await rbac.getRolesByTenant(1)).toEqual([]);
+  });
+
+  it('pages through entries and clamps the page size', async () => {
+    for (const name of ['A', 'B', 'C']) {
+      await rbac.createRole({ name, permissions: ['orders.view'] }, 1, admin);
+    }
+
+    const page = await rbac.getAuditLog(1, { limit: 2, offset: 2 });
+    expect(page).toMatchObject({ total: 3, limit: 2, offset: 2 });
+    expect(page.entries).toHaveLength(1);
+
+    expect(await rbac.getAuditLog(1, { limit: 10_000, offset: -5 })).toMatchObject({ limit: 200, offset: 0 });
+  });
+});
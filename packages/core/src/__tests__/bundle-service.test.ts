@@ -0,0 +1,114 @@
+import { RBAC } from '../rbac';
+import { MemoryStorageAdapter } from '../storage';
+import { TenantBundle, TenantBundleRole } from '../types';
+import { admin, testConfig } from './fixtures';
+
+function bundleRole(name: string, permissions: string[], parents: string[] = []): TenantBundleRole {
+  return { name, description: null, permissions, parents, templateKey: null };
+}
+
+function bundle(roles: TenantBundleRole[], assignments?: TenantBundle['assignments']): TenantBundle {
+  return { format: 'granular-rbac.tenant', version: 1, exportedAt: new Date().toISOString(), permissions: [], roles, assignments };
+}
+
+describe('TenantBundleService', () => {
+  let rbac: RBAC;
+
+  beforeEach(() => {
+    const config = testConfig();
+    rbac = new RBAC({ ...config, storage: new MemoryStorageAdapter(config) });
+  });
+
+  it('round-trips roles, parents and assignments between tenants', async () => {
+    const viewer = await rbac.createRole({ name: 'Viewer', permissions: ['orders.view'] }, 1, admin);
+    const editor = await rbac.createRole({ name: 'Editor', permissions: ['orders.edit'], parentRoleIds: [viewer.id] }, 1, admin);
+    await rbac.assignRoleToUser(7, editor.id, 1, admin);
+
+    const exported = await rbac.exportTenant(1, { includeAssignments: true });
+    const report = await rbac.importTenant(2, exported, admin);
+
+    expect(report).toMatchObject({ applied: true, conflicts: [], assignments: { added: 1 } });
+    expect(report.roles.created).toEqual(['Editor', 'Viewer']);
+
+    const imported = await rbac.getRolesByTenant(2);
+    const importedViewer = imported.find(role => role.name === 'Viewer')!;
+    expect(imported.find(role => role.name === 'Editor')!.parentRoleIds).toEqual([importedViewer.id]);
+    expect((await rbac.getUserRoles(7, 2)).map(role => role.name)).toEqual(['Editor']);
+  });
+
+  it('writes nothing on a dry run', async () => {
+    const report = await rbac.importTenant(1, bundle([bundleRole('Viewer', ['orders.view'])]), admin, { dryRun: true });
+
+    expect(report).toMatchObject({ dryRun: true, applied: false, roles: { created: ['Viewer'] } });
+    expect(await rbac.getRolesByTenant(1)).toEqual([]);
+  });
+
+  it('recreates assignments that have expired', async () => {
+    const viewer = await rbac.createRole({ name: 'Viewer', permissions: ['orders.view'] }, 1, admin);
+    await rbac.storage.createAssignment({ userId: 7, roleId: viewer.id, validFrom: null, expiresAt: new Date(Date.now() - 1000) });
+
+    const incoming = bundle([bundleRole('Viewer', ['orders.view'])], [{ userId: 7, role: 'Viewer', validFrom: null, expiresAt: null }]);
+    const report = await rbac.importTenant(1, incoming, admin);
+
+    expect(report.assignments).toEqual({ added: 1, removed: 0, unchanged: 0 });
+    expect((await rbac.getUserRoles(7, 1)).map(role => role.name)).toEqual(['Viewer']);
+  });
+
+  describe('conflicts', () => {
+    it('keeps the tenant version of differing roles on merge and replaces it on replace', async () => {
+      await rbac.createRole({ name: 'Viewer', permissions: ['orders.view'] }, 1, admin);
+      const incoming = bundle([bundleRole('Viewer', ['billing.view'])]);
+
+      const merged = await rbac.importTenant(1, incoming, admin);
+      expect(merged.conflicts).toEqual([expect.objectContaining({ role: 'Viewer', type: 'differs', blocking: false })]);
+      expect((await rbac.getRolesByTenant(1))[0].permissions).toEqual(['orders.view']);
+
+      const replaced = await rbac.importTenant(1, incoming, admin, { mode: 'replace' });
+      expect(replaced.roles.updated).toEqual(['Viewer']);
+      expect((await rbac.getRolesByTenant(1))[0].permissions).toEqual(['billing.view']);
+    });
+
+    it('accepts a wildcard allow with a narrower deny', async () => {
+      const report = await rbac.importTenant(1, bundle([bundleRole('Billing', ['billing.*', '!billing.refund'])]), admin);
+
+      expect(report).toMatchObject({ applied: true, conflicts: [] });
+    });
+
+    it.each([
+      ['invalid-permissions', [bundleRole('Broken', ['orders.unknown'])]],
+      ['invalid-permissions', [bundleRole('Torn', ['orders.view', '!orders.view'])]],
+      ['missing-parent', [bundleRole('Child', ['orders.view'], ['Ghost'])]],
+      ['cycle', [bundleRole('A', ['orders.view'], ['B']), bundleRole('B', ['orders.edit'], ['A'])]],
+    ])('blocks the whole import on %s', async (type, roles) => {
+      const report = await rbac.importTenant(1, bundle([bundleRole('Fine', ['orders.view']), ...roles]), admin);
+
+      expect(report.applied).toBe(false);
+      expect(report.conflicts).toEqual(expect.arrayContaining([expect.objectContaining({ type, blocking: true })]));
+      expect(await rbac.getRolesByTenant(1)).toEqual([]);
+    });
+
+    it('blocks assignments to roles that will not exist', async () => {
+      const report = await rbac.importTenant(1, bundle([bundleRole('Viewer', ['orders.view'])], [
+        { userId: 7, role: 'Ghost', validFrom: null, expiresAt: null },
+      ]), admin);
+
+      expect(report.conflicts).toEqual([expect.objectContaining({ role: 'Ghost', type: 'missing-role', blocking: true })]);
+      expect(report.applied).toBe(false);
+    });
+
+    it('blocks replacing away a role that is still assigned', async () => {
+      const clerk = await rbac.createRole({ name: 'Clerk', permissions: ['orders.view'] }, 1, admin);
+      await rbac.assignRoleToUser(7, clerk.id, 1, admin);
+
+      const report = await rbac.importTenant(1, bundle([bundleRole('Viewer', ['orders.view'])]), admin, { mode: 'replace' });
+
+      expect(report.conflicts).toEqual([expect.objectContaining({ role: 'Clerk', type: 'in-use', blocking: true })]);
+      expect((await rbac.getRolesByTenant(1)).map(role => role.name)).toEqual(['Clerk']);
+    });
+  });
+
+  it('rejects bundles it does not understand', async () => {
+    await expect(rbac.importTenant(1, { ...bundle([]), version: 2 } as any, admin))
+      .rejects.toThrow('Unsupported tenant bundle');
+  });
+});
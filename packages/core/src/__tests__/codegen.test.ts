@@ -0,0 +1,42 @@
+import { ModuleKind, transpileModule } from 'typescript';
+import { generatePermissionsModule } from '../codegen';
+import { PERMISSIONS, testConfig } from './fixtures';
+
+function evaluate(source: string): Record<string, any> {
+  const { outputText, diagnostics } = transpileModule(source, {
+    compilerOptions: { module: ModuleKind.CommonJS },
+    reportDiagnostics: true,
+  });
+  expect(diagnostics).toEqual([]);
+
+  const module = { exports: {} as Record<string, any> };
+  new Function('module', 'exports', outputText)(module, module.exports);
+  return module.exports;
+}
+
+describe('generatePermissionsModule', () => {
+  it('emits the permissions and their shortNames', () => {
+    const generated = evaluate(generatePermissionsModule(testConfig()));
+
+    expect(generated.PERMISSIONS).toEqual(PERMISSIONS);
+    expect(generated.PERMISSION_NAMES).toEqual([
+      'orders.view', 'orders.edit', 'orders.delete', 'billing.view', 'billing.refund',
+    ]);
+  });
+
+  it('names the source and honours custom identifiers', () => {
+    const source = generatePermissionsModule(testConfig(), { source: 'rbac.yml', constName: 'SHOP_PERMISSIONS', typeName: 'ShopPermission' });
+
+    expect(source.split('\n')[0]).toBe('// Generated by granular-rbac codegen from rbac.yml. Do not edit by hand.');
+    expect(source).toContain('export type ShopPermission = (typeof SHOP_PERMISSIONS)');
+    expect(Object.keys(evaluate(source))).toEqual(['SHOP_PERMISSIONS', 'PERMISSION_NAMES']);
+  });
+
+  it('escapes names and descriptions', () => {
+    const config = testConfig({
+      permissions: { orders: [{ name: "Owner's \"view\"", description: 'Line\nbreak', shortName: 'orders.view' }] },
+    });
+
+    expect(evaluate(generatePermissionsModule(config)).PERMISSIONS.orders[0]).toEqual(config.permissions.orders[0]);
+  });
+});
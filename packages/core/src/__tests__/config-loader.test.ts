@@ -0,0 +1,127 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ConfigValidationError, loadRBACConfig, parseRBACConfig, validateRBACConfig } from '../config-loader';
+import { testConfig } from './fixtures';
+
+const YAML = `
+permissions:
+  orders:
+    - name: View Orders
+      description: View orders
+      shortName: orders.view
+tenant:
+  field: shopId
+  model: Shop
+roleTemplates:
+  - key: viewer
+    name: Viewer
+    permissions: ['orders.*']
+`;
+
+describe('validateRBACConfig', () => {
+  it('accepts a well-formed config', () => {
+    expect(validateRBACConfig(testConfig())).toEqual({ valid: true, issues: [] });
+  });
+
+  it('collects every issue with its path', () => {
+    const { valid, issues } = validateRBACConfig({
+      permissions: {
+        orders: [
+          { name: 'View', description: 'View', shortName: 'orders.view' },
+          { name: 'View again', description: 'View', shortName: 'orders.view' },
+          { name: 'Refund', description: 'Refund', shortName: 'billing.refund' },
+          { name: 'Bad', shortName: 'Orders.Bad', colour: 'red' },
+        ],
+      },
+      tenant: { field: 'shop-id', model: 'Shop' },
+      extra: true,
+    });
+
+    expect(valid).toBe(false);
+    expect(issues.map(issue => issue.path)).toEqual([
+      'extra',
+      'permissions.orders[1].shortName',
+      'permissions.orders[2].shortName',
+      'permissions.orders[3].colour',
+      'permissions.orders[3].description',
+      'permissions.orders[3].shortName',
+      'tenant.field',
+    ]);
+    expect(issues[1].message).toBe('Duplicate of permissions.orders[0].shortName');
+  });
+
+  it('checks grants in user types and templates against the permissions', () => {
+    const { issues } = validateRBACConfig({
+      ...testConfig(),
+      userTypes: { support: { scope: 'tenant', permissions: ['orders.*', 'orders.ship'] } },
+      roleTemplates: [
+        { key: 'clerk', name: 'Clerk', permissions: ['!orders.delete'] },
+        { key: 'clerk', name: 'Other Clerk', permissions: ['orders.edit'] },
+      ],
+    });
+
+    expect(issues).toEqual([
+      { path: 'userTypes.support.permissions[1]', message: "Unknown grant 'orders.ship'" },
+      { path: 'roleTemplates[1].key', message: "Duplicate template key 'clerk'" },
+    ]);
+  });
+
+  it('rejects anything that is not an object', () => {
+    expect(validateRBACConfig([])).toEqual({ valid: false, issues: [{ path: '(root)', message: 'Config must be an object' }] });
+  });
+});
+
+describe('parseRBACConfig', () => {
+  it('parses YAML and JSON into the same config', () => {
+    const fromYaml = parseRBACConfig(YAML, 'yaml');
+
+    expect(fromYaml.tenant).toEqual({ field: 'shopId', model: 'Shop' });
+    expect(fromYaml.roleTemplates).toEqual([{ key: 'viewer', name: 'Viewer', permissions: ['orders.*'] }]);
+    expect(parseRBACConfig(JSON.stringify(fromYaml), 'json')).toEqual(fromYaml);
+  });
+
+  it('applies code-only overrides', () => {
+    const cache = { ttlSeconds: 5 };
+    expect(parseRBACConfig(YAML, 'yaml', { cache }).cache).toBe(cache);
+  });
+
+  it('accepts conditional grants for conditions passed as overrides', () => {
+    const yaml = YAML.replace("permissions: ['orders.*']", "permissions: ['orders.view@isOwner']");
+    const isOwner = () => true;
+
+    expect(parseRBACConfig(yaml, 'yaml', { conditions: { isOwner } }).roleTemplates![0].permissions)
+      .toEqual(['orders.view@isOwner']);
+    expect(() => parseRBACConfig(yaml, 'yaml')).toThrow("roleTemplates[0].permissions[0]: Unknown grant 'orders.view@isOwner'");
+  });
+
+  it('throws a ConfigValidationError naming the source', () => {
+    expect(() => parseRBACConfig('{', 'json', {}, 'rbac.json')).toThrow(ConfigValidationError);
+    expect(() => parseRBACConfig('{}', 'json', {}, 'rbac.json')).toThrow(
+      'Invalid RBAC config in rbac.json:\n  permissions: Must be an object with at least one module'
+    );
+  });
+});
+
+describe('loadRBACConfig', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'rbac-config-'));
+  });
+
+  afterAll(() => rm(dir, { recursive: true, force: true }));
+
+  it('picks the format from the extension', async () => {
+    await writeFile(join(dir, 'rbac.yml'), YAML);
+
+    expect((await loadRBACConfig(join(dir, 'rbac.yml'))).tenant.field).toBe('shopId');
+    await writeFile(join(dir, 'conditional.json'), JSON.stringify({
+      ...parseRBACConfig(YAML, 'yaml'),
+      userTypes: { owner: { scope: 'tenant', permissions: ['orders.view@isOwner'] } },
+    }));
+    expect((await loadRBACConfig(join(dir, 'conditional.json'), { conditions: { isOwner: () => true } })).userTypes)
+      .toEqual({ owner: { scope: 'tenant', permissions: ['orders.view@isOwner'] } });
+    await expect(loadRBACConfig(join(dir, 'rbac.toml'))).rejects.toThrow('Unsupported config file type: .toml');
+  });
+});
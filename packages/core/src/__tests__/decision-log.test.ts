@@ -0,0 +1,66 @@
+import { MemoryDecisionLogger } from '../decision-log';
+import { PermissionEngine } from '../permission-engine';
+import { admin, testConfig, testUser } from './fixtures';
+
+describe('decision logging', () => {
+  const engine = new PermissionEngine(testConfig({
+    conditions: {
+      own: ({ user, resource }) => resource.createdBy === user.id,
+    },
+  }));
+  let logger: MemoryDecisionLogger;
+
+  beforeEach(() => {
+    logger = new MemoryDecisionLogger(10);
+    engine.setDecisionLogger(logger);
+  });
+
+  afterEach(() => engine.setDecisionLogger(null));
+
+  it('records checks without a resource with their metadata', async () => {
+    await engine.checkPermission(testUser({ permissions: ['orders.*'] }), 'orders.view', 1, { path: '/orders' });
+
+    expect(logger.getDecisions()).toEqual([expect.objectContaining({
+      userId: 1,
+      tenantId: 1,
+      permission: 'orders.view',
+      granted: true,
+      reason: 'role-grant',
+      matchedGrant: 'orders.*',
+      metadata: { path: '/orders' },
+    })]);
+  });
+
+  it('records resource checks made through can', async () => {
+    const user = testUser({ permissions: ['orders.edit@own', '!orders.delete'] });
+
+    expect(await engine.can(user, 'orders.edit', { createdBy: 1 }, { tenantId: 1 })).toBe(true);
+    expect(await engine.can(user, 'orders.edit', { createdBy: 2 }, { tenantId: 1 })).toBe(false);
+    expect(await engine.can(user, 'orders.delete', { createdBy: 1 })).toBe(false);
+    expect(await engine.can(admin, 'orders.delete', { createdBy: 1 })).toBe(true);
+
+    expect(logger.getDecisions().map(({ reason, matchedGrant, tenantId }) => ({ reason, matchedGrant, tenantId }))).toEqual([
+      { reason: 'role-grant', matchedGrant: 'orders.edit@own', tenantId: 1 },
+      { reason: 'missing', matchedGrant: undefined, tenantId: 1 },
+      { reason: 'explicit-deny', matchedGrant: '!orders.delete', tenantId: undefined },
+      { reason: 'tenant-bypass', matchedGrant: undefined, tenantId: undefined },
+    ]);
+  });
+
+  it('returns the decision from checkResourcePermission', async () => {
+    const decision = await engine.checkResourcePermission(
+      testUser({ permissions: ['orders.edit@own'] }), 'orders.edit', { createdBy: 1 }, {}, { method: 'PUT' }
+    );
+
+    expect(decision).toMatchObject({ granted: true, matchedGrant: 'orders.edit@own', metadata: { method: 'PUT' } });
+  });
+
+  it('keeps checking when the logger throws', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    engine.setDecisionLogger({ log: () => { throw new Error('disk full'); } });
+
+    expect(await engine.can(testUser({ permissions: ['orders.view'] }), 'orders.view')).toBe(true);
+    expect(error).toHaveBeenCalled();
+    error.mockRestore();
+  });
+});
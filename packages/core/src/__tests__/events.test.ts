@@ -0,0 +1,101 @@
+import { RBACEventBus, RBACVetoError } from '../events';
+import { RBAC } from '../rbac';
+import { MemoryStorageAdapter } from '../storage';
+import { admin, testConfig } from './fixtures';
+
+describe('RBAC events', () => {
+  let rbac: RBAC;
+
+  beforeEach(() => {
+    const config = testConfig();
+    rbac = new RBAC({ ...config, storage: new MemoryStorageAdapter(config) });
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('runs hooks, transaction listeners and listeners in order', async () => {
+    const calls: string[] = [];
+    rbac.before('role.created', () => { calls.push('before'); });
+    rbac.inTransaction('role.created', () => { calls.push('transaction'); });
+    rbac.on('role.created', () => { calls.push('after'); });
+
+    await rbac.createRole({ name: 'Clerk', permissions: ['orders.view'] }, 1, admin);
+
+    expect(calls).toEqual(['before', 'transaction', 'after']);
+  });
+
+  it('carries the tenant, actor and diff of an update', async () => {
+    const role = await rbac.createRole({ name: 'Clerk', permissions: ['orders.view'] }, 1, admin);
+    const listener = jest.fn();
+    rbac.on('role.updated', listener);
+
+    await rbac.updateRole(role.id, { name: 'Senior Clerk', permissions: ['orders.view', 'orders.edit'] }, 1, admin);
+
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({
+      tenantId: 1,
+      actor: admin,
+      before: expect.objectContaining({ name: 'Clerk' }),
+      after: expect.objectContaining({ name: 'Senior Clerk' }),
+      diff: { changedFields: ['name', 'permissions'], permissionsAdded: ['orders.edit'], permissionsRemoved: [] },
+    }));
+  });
+
+  it('stops a vetoed change before anything is written or announced', async () => {
+    const listener = jest.fn();
+    rbac.before('role.deleted', ({ role }) => role.name === 'Owner' ? { veto: 'owners stay' } : undefined);
+    rbac.on('role.deleted', listener);
+    const owner = await rbac.createRole({ name: 'Owner', permissions: ['orders.*'] }, 1, admin);
+
+    const error = await rbac.deleteRole(owner.id, 1, admin).catch(e => e);
+
+    expect(error).toBeInstanceOf(RBACVetoError);
+    expect(error).toMatchObject({ event: 'role.deleted', reason: 'owners stay', message: 'role.deleted vetoed: owners stay' });
+    expect(await rbac.getRoleById(owner.id, 1)).not.toBeNull();
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('rolls the change back when a transaction listener throws', async () => {
+    const role = await rbac.createRole({ name: 'Clerk', permissions: ['orders.view'] }, 1, admin);
+    rbac.inTransaction('assignment.added', () => { throw new Error('search index down'); });
+
+    await expect(rbac.assignRoleToUser(7, role.id, 1, admin)).rejects.toThrow('search index down');
+    expect(await rbac.getUserRoles(7, 1)).toEqual([]);
+  });
+
+  it('logs failing listeners without undoing the change', async () => {
+    const log = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const next = jest.fn();
+    rbac.on('role.created', () => { throw new Error('mailer down'); });
+    rbac.on('role.created', next);
+
+    await expect(rbac.createRole({ name: 'Clerk', permissions: ['orders.view'] }, 1, admin)).resolves.toBeDefined();
+
+    expect(next).toHaveBeenCalled();
+    expect(log).toHaveBeenCalledWith('[rbac] Listener for role.created failed:', expect.any(Error));
+    expect(await rbac.getRolesByTenant(1)).toHaveLength(1);
+  });
+});
+
+describe('RBACEventBus', () => {
+  it('stops at the first veto and removes unsubscribed handlers', async () => {
+    const events = new RBACEventBus();
+    const later = jest.fn();
+    const listener = jest.fn();
+    const payload = { tenantId: 1, actor: admin, userId: 7, permission: 'orders.view' };
+
+    const removeVeto = events.before('permission.granted', () => ({ veto: 'no' }));
+    events.before('permission.granted', later);
+    const unsubscribe = events.on('permission.granted', listener);
+
+    await expect(events.emitBefore('permission.granted', payload)).rejects.toThrow('permission.granted vetoed: no');
+    expect(later).not.toHaveBeenCalled();
+
+    removeVeto();
+    unsubscribe();
+    await events.emitBefore('permission.granted', payload);
+    await events.emit('permission.granted', payload);
+
+    expect(later).toHaveBeenCalledWith(payload);
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
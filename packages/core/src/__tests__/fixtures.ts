@@ -0,0 +1,50 @@
+import { DataTypes, Sequelize } from 'sequelize';
+import { RBAC } from '../rbac';
+import { RBACConfig, User } from '../types';
+
+export const PERMISSIONS = {
+  orders: [
+    { name: 'View Orders', description: 'View orders', shortName: 'orders.view' },
+    { name: 'Edit Orders', description: 'Edit orders', shortName: 'orders.edit' },
+    { name: 'Delete Orders', description: 'Delete orders', shortName: 'orders.delete' },
+  ],
+  billing: [
+    { name: 'View Billing', description: 'View billing', shortName: 'billing.view' },
+    { name: 'Refund', description: 'Issue refunds', shortName: 'billing.refund' },
+  ],
+} as const;
+
+export function testConfig(overrides: Partial<RBACConfig> = {}): RBACConfig {
+  return {
+    permissions: PERMISSIONS,
+    tenant: { field: 'shopId', model: 'Shop' },
+    ...overrides,
+  };
+}
+
+export function testUser(overrides: Partial<User> = {}): User {
+  return { id: 1, email: 'user@example.com', userType: 'user', ...overrides };
+}
+
+export const admin = testUser({ id: 100, email: 'admin@example.com', userType: 'admin' });
+
+/**
+ * An RBAC instance on a fresh in-memory SQLite database with every migration applied
+ */
+export async function createSqliteRBAC(overrides: Partial<RBACConfig> = {}): Promise<{ rbac: RBAC; sequelize: Sequelize }> {
+  const sequelize = new Sequelize({ dialect: 'sqlite', storage: ':memory:', logging: false });
+  const User = sequelize.define('User', {
+    email: { type: DataTypes.STRING, allowNull: false },
+    userType: { type: DataTypes.STRING, allowNull: false, defaultValue: 'user' },
+  }, { tableName: 'users', underscored: true });
+
+  await User.sync();
+
+  const rbac = new RBAC(testConfig({ schema: { tenantTable: null }, ...overrides }), sequelize);
+  const models = rbac.getModels()!;
+
+  User.belongsToMany(models.Role, { through: models.UserRole, foreignKey: 'userId', otherKey: 'roleId', as: 'roles' });
+  await rbac.initialize();
+
+  return { rbac, sequelize };
+}
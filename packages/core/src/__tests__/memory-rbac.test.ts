@@ -0,0 +1,96 @@
+import { RBAC } from '../rbac';
+import { MemoryStorageAdapter } from '../storage';
+import { admin, testConfig, testUser } from './fixtures';
+
+describe('RBAC on a custom storage adapter', () => {
+  const config = testConfig();
+  let storage: MemoryStorageAdapter;
+  let rbac: RBAC;
+
+  beforeEach(() => {
+    storage = new MemoryStorageAdapter(config);
+    storage.addUser(testUser({ shopId: 1 }));
+    rbac = new RBAC({ ...config, storage });
+  });
+
+  it('needs either Sequelize or an adapter', () => {
+    expect(() => new RBAC(config)).toThrow('RBAC needs a Sequelize instance or a storage adapter');
+  });
+
+  it('loads roles, direct grants and memberships from the adapter', async () => {
+    const role = await rbac.createRole({ name: 'Clerk', permissions: ['orders.view'] }, 1, admin);
+    await rbac.assignRoleToUser(1, role.id, 1, admin);
+    await rbac.grantPermissionToUser(1, 'billing.view', 1, admin);
+    await rbac.setTenantMembership(1, 2, 'admin', admin);
+
+    const user = await rbac.getUserWithPermissions(1, 1);
+    expect(user!.permissions).toEqual(['orders.view', 'billing.view']);
+    expect(user!.memberships).toEqual([expect.objectContaining({ userId: 1, tenantId: 2, userType: 'admin' })]);
+
+    await rbac.revokePermissionFromUser(1, 'billing.view', 1, admin);
+    expect(await rbac.getUserDirectPermissions(1, 1)).toEqual([]);
+  });
+
+  it('keeps stored roles apart from the arrays passed in', async () => {
+    const permissions = ['orders.view'];
+    const role = await storage.createRole({ name: 'Clerk', description: null, permissions, parentRoleIds: [] }, 1);
+    permissions.push('orders.edit');
+
+    const parentRoleIds = [role.id];
+    const changes = { permissions: ['billing.view'], parentRoleIds };
+    await storage.updateRole(role.id, 1, changes);
+    changes.permissions.push('billing.refund');
+    parentRoleIds.push(99);
+
+    expect(await storage.findRoleById(role.id, 1)).toMatchObject({ permissions: ['billing.view'], parentRoleIds: [role.id] });
+  });
+
+  it('writes the audit log to the adapter', async () => {
+    const role = await rbac.createRole({ name: 'Clerk', permissions: ['orders.view'] }, 1, admin);
+    await rbac.grantPermissionToUser(1, 'billing.view', 1, admin);
+
+    const page = await rbac.getAuditLog(1);
+    expect(page.total).toBe(2);
+    expect(page.entries.map(entry => entry.action)).toEqual(['permission.granted', 'role.created']);
+    expect(page.entries[1].roleId).toBe(role.id);
+  });
+
+  it('rolls back only the failed transaction\'s writes', async () => {
+    const kept = await storage.createRole({ name: 'Kept', permissions: [], parentRoleIds: [] }, 1);
+
+    await expect(storage.transaction(async tx => {
+      await tx.createRole({ name: 'Doomed', permissions: [], parentRoleIds: [] }, 1);
+      await tx.updateRole(kept.id, 1, { name: 'Renamed' });
+      // Another request writing outside the transaction while it is open
+      await storage.createRole({ name: 'Concurrent', permissions: [], parentRoleIds: [] }, 1);
+      throw new Error('boom');
+    })).rejects.toThrow('boom');
+
+    const roles = await storage.findRoles(1);
+    expect(roles.map(role => role.name)).toEqual(['Concurrent', 'Kept']);
+
+    const next = await storage.createRole({ name: 'Next', permissions: [], parentRoleIds: [] }, 1);
+    expect(roles.map(role => role.id)).not.toContain(next.id);
+  });
+
+  it('tears down a tenant in one transaction', async () => {
+    const role = await rbac.createRole({ name: 'Clerk', permissions: ['orders.view'] }, 1, admin);
+    await rbac.assignRoleToUser(1, role.id, 1, admin);
+    await rbac.grantPermissionToUser(1, 'billing.view', 1, admin);
+    await rbac.setTenantMembership(1, 1, 'user', admin);
+    await rbac.webhookService.registerEndpoint(1, { url: 'https://hooks.example.com/rbac', events: ['*'] });
+    await rbac.grantPermissionToUser(1, 'orders.edit', 1, admin);
+
+    expect(await rbac.teardownTenant(1, admin)).toEqual({
+      tenantId: 1, assignments: 1, roles: 1, directPermissions: 2, memberships: 1, webhookEndpoints: 1,
+    });
+    expect(await rbac.getUserWithPermissions(1, 1)).toEqual(expect.objectContaining({ permissions: [] }));
+    expect(await rbac.webhookService.getEndpoints(1)).toEqual([]);
+    expect((await rbac.webhookService.getDeliveries(1)).total).toBe(0);
+  });
+
+  it('has no migrations to run', async () => {
+    await expect(rbac.initialize()).resolves.toBeUndefined();
+    await expect(rbac.migrate()).rejects.toThrow('Migrations need a Sequelize instance');
+  });
+});
@@ -0,0 +1,171 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DataTypes, Sequelize } from 'sequelize';
+import { Migrator } from '../migrator';
+import { migrations, RBACMigration } from '../migrations';
+import { resolveSchema } from '../models/schema';
+import { testConfig } from './fixtures';
+
+describe('Migrator on SQLite', () => {
+  let sequelize: Sequelize;
+  let migrator: Migrator;
+
+  beforeEach(() => {
+    sequelize = new Sequelize({ dialect: 'sqlite', storage: ':memory:', logging: false });
+    migrator = new Migrator(sequelize, resolveSchema(testConfig({ schema: { tenantTable: null, userTable: null } })));
+  });
+
+  afterEach(() => sequelize.close());
+
+  it('applies every migration once, in order', async () => {
+    expect(await migrator.up()).toEqual(migrations.map(migration => migration.name));
+    expect(await migrator.up()).toEqual([]);
+
+    const status = await migrator.status();
+    expect(status.every(entry => entry.applied && entry.appliedAt instanceof Date)).toBe(true);
+
+    const tables = await sequelize.getQueryInterface().showAllTables();
+    expect(tables).toEqual(expect.arrayContaining(['roles', 'user_roles', 'user_permissions', 'rbac_audit_logs']));
+  });
+
+  it('reverts the most recent migrations', async () => {
+    await migrator.up();
+
+    const last = migrations[migrations.length - 1].name;
+    expect(await migrator.down()).toEqual([last]);
+    expect((await migrator.status()).find(entry => entry.name === last)!.applied).toBe(false);
+    expect(await migrator.up()).toEqual([last]);
+  });
+
+  it('reverts everything and re-applies cleanly', async () => {
+    await migrator.up();
+    await migrator.down(migrations.length);
+
+    expect((await migrator.status()).some(entry => entry.applied)).toBe(false);
+    expect(await migrator.up()).toHaveLength(migrations.length);
+  });
+
+  it('baselines existing databases without running migrations', async () => {
+    expect(await migrator.baseline('002-add-role-inheritance')).toEqual(['001-create-roles', '002-add-role-inheritance']);
+    expect(await sequelize.getQueryInterface().showAllTables()).toEqual(['rbac_migrations']);
+    await expect(migrator.baseline('999-unknown')).rejects.toThrow('Unknown migration: 999-unknown');
+  });
+
+  it('rolls back a migration that fails halfway', async () => {
+    const broken: RBACMigration = {
+      name: '999-broken',
+      async up({ queryInterface, transaction }) {
+        await queryInterface.createTable('half_done', { id: { type: DataTypes.INTEGER, primaryKey: true } }, { transaction });
+        throw new Error('boom');
+      },
+      async down() {},
+    };
+    const failing = new Migrator(sequelize, resolveSchema(testConfig({ schema: { tenantTable: null, userTable: null } })), [
+      migrations[0],
+      broken,
+    ]);
+
+    await expect(failing.up()).rejects.toThrow('boom');
+
+    expect(await sequelize.getQueryInterface().showAllTables()).not.toContain('half_done');
+    expect((await failing.status()).map(entry => entry.applied)).toEqual([true, false]);
+  });
+
+  it('applies each migration once when instances migrate together', async () => {
+    // Separate connections to one database file, like two app instances
+    const dir = mkdtempSync(join(tmpdir(), 'rbac-migrator-'));
+    const instances = [0, 1].map(() => new Sequelize({ dialect: 'sqlite', storage: join(dir, 'rbac.db'), logging: false }));
+    const schema = resolveSchema(testConfig({ schema: { tenantTable: null, userTable: null } }));
+
+    try {
+      const results = await Promise.all(instances.map(instance => new Migrator(instance, schema).up()));
+
+      expect(results.flat().sort()).toEqual(migrations.map(migration => migration.name));
+      expect((await new Migrator(instances[0], schema).status()).every(entry => entry.applied)).toBe(true);
+    } finally {
+      await Promise.all(instances.map(instance => instance.close()));
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('fills parent_role_ids for roles created before 002', async () => {
+    const queryInterface = sequelize.getQueryInterface();
+    const schema = resolveSchema(testConfig({ schema: { tenantTable: null, userTable: null } }));
+
+    await migrations[0].up({ queryInterface, schema });
+    await queryInterface.bulkInsert('roles', [
+      { name: 'Old', shop_id: 1, permissions: '[]', created_at: new Date(), updated_at: new Date() },
+    ]);
+    await migrations[1].up({ queryInterface, schema });
+
+    const [role] = await queryInterface.select(null, 'roles', {}) as any[];
+    expect(JSON.parse(role.parent_role_ids)).toEqual([]);
+  });
+
+  it('keeps one row per duplicated assignment when 009 adds the unique index', async () => {
+    const queryInterface = sequelize.getQueryInterface();
+    const schema = resolveSchema(testConfig({ schema: { tenantTable: null, userTable: null } }));
+    const unique = migrations.findIndex(migration => migration.name === '009-add-assignment-unique-index');
+
+    for (const migration of migrations.slice(0, unique)) {
+      await migration.up({ queryInterface, schema });
+    }
+    await queryInterface.bulkInsert('roles', [
+      { name: 'Clerk', shop_id: 1, permissions: '[]', parent_role_ids: '[]', created_at: new Date(), updated_at: new Date() },
+    ]);
+    const assignment = { user_id: 1, role_id: 1, created_at: new Date(), updated_at: new Date() };
+    await queryInterface.bulkInsert('user_roles', [assignment, assignment, { ...assignment, user_id: 2 }]);
+
+    await migrations[unique].up({ queryInterface, schema });
+
+    const rows = await queryInterface.select(null, 'user_roles', {});
+    expect(rows).toEqual([expect.objectContaining({ id: 1, user_id: 1 }), expect.objectContaining({ id: 3, user_id: 2 })]);
+    await expect(queryInterface.bulkInsert('user_roles', [assignment])).rejects.toThrow();
+  });
+});
+
+describe('initial migrations on Postgres', () => {
+  // 001 and 002 shipped with native array columns; list columns must stay identical there
+  function recordingQueryInterface() {
+    const calls: { method: string; args: any[] }[] = [];
+    const record = (method: string) => async (...args: any[]) => {
+      calls.push({ method, args });
+    };
+
+    return {
+      calls,
+      queryInterface: {
+        sequelize: { getDialect: () => 'postgres' },
+        createTable: record('createTable'),
+        addIndex: record('addIndex'),
+        addColumn: record('addColumn'),
+      } as any,
+    };
+  }
+
+  it('creates roles.permissions as a string array defaulting to empty', async () => {
+    const { calls, queryInterface } = recordingQueryInterface();
+    await migrations[0].up({ queryInterface, schema: resolveSchema(testConfig()) });
+
+    const roles = calls.find(call => call.method === 'createTable' && call.args[0] === 'roles')!;
+    const permissions = roles.args[1].permissions;
+
+    expect(permissions.type).toBeInstanceOf(DataTypes.ARRAY);
+    expect(permissions.type.type.key).toBe(DataTypes.STRING.key);
+    expect(permissions).toMatchObject({ allowNull: false, defaultValue: [] });
+  });
+
+  it('adds roles.parent_role_ids as an integer array in one step', async () => {
+    const { calls, queryInterface } = recordingQueryInterface();
+    await migrations[1].up({ queryInterface, schema: resolveSchema(testConfig()) });
+
+    expect(calls).toHaveLength(1);
+    const [, column, definition] = calls[0].args;
+
+    expect(column).toBe('parent_role_ids');
+    expect(definition.type).toBeInstanceOf(DataTypes.ARRAY);
+    expect(definition.type.type.key).toBe(DataTypes.INTEGER.key);
+    expect(definition).toMatchObject({ allowNull: false, defaultValue: [] });
+  });
+});
@@ -0,0 +1,152 @@
+import { MemoryCacheStore, PermissionCache } from '../permission-cache';
+import { RBAC } from '../rbac';
+import { MemoryStorageAdapter } from '../storage';
+import { admin, testConfig, testUser } from './fixtures';
+
+describe('PermissionCache', () => {
+  let cache: PermissionCache;
+  let load: jest.Mock;
+
+  beforeEach(() => {
+    cache = new PermissionCache();
+    load = jest.fn(async () => testUser({ permissions: ['orders.view'] }));
+  });
+
+  it('loads once and serves later reads from the store', async () => {
+    expect(await cache.getOrLoadUser(1, 1, load)).toMatchObject({ permissions: ['orders.view'] });
+    expect(await cache.getOrLoadUser(1, 1, load)).toMatchObject({ permissions: ['orders.view'] });
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not cache missing users', async () => {
+    const missing = jest.fn(async () => null);
+
+    expect(await cache.getOrLoadUser(1, 1, missing)).toBeNull();
+    expect(await cache.getOrLoadUser(1, 1, missing)).toBeNull();
+    expect(missing).toHaveBeenCalledTimes(2);
+  });
+
+  it('reloads after user and tenant invalidation', async () => {
+    await cache.getOrLoadUser(1, 1, load);
+    await cache.getOrLoadUser(1, 2, load);
+
+    await cache.invalidateUser(1);
+    await cache.getOrLoadUser(1, 1, load);
+    await cache.getOrLoadUser(1, 2, load);
+    expect(load).toHaveBeenCalledTimes(4);
+
+    await cache.invalidateTenant(2);
+    await cache.getOrLoadUser(1, 1, load);
+    await cache.getOrLoadUser(1, 2, load);
+    expect(load).toHaveBeenCalledTimes(5);
+  });
+
+  it('rejects TTLs under a second', () => {
+    expect(() => new PermissionCache({ ttlSeconds: 0 })).toThrow('Cache TTL must be at least 1 second');
+    expect(() => new PermissionCache({ ttlSeconds: -5 })).toThrow('Cache TTL must be at least 1 second');
+  });
+
+  it('drops a cached user when one of their assignments expires', async () => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    const config = testConfig({ cache: { ttlSeconds: 3600 } });
+    const storage = new MemoryStorageAdapter(config);
+    storage.addUser(testUser());
+    const rbac = new RBAC({ ...config, storage });
+
+    try {
+      const role = await rbac.createRole({ name: 'Contractor', permissions: ['orders.edit'] }, 1, admin);
+      await rbac.assignRoleToUser(1, role.id, 1, admin, { expiresAt: new Date('2026-01-01T00:10:00Z') });
+      expect((await rbac.getUserWithPermissions(1, 1))!.permissions).toEqual(['orders.edit']);
+
+      jest.setSystemTime(new Date('2026-01-01T00:10:00Z'));
+      expect((await rbac.getUserWithPermissions(1, 1))!.permissions).toEqual([]);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('does not serve a user loaded while an invalidation landed', async () => {
+    const stale = jest.fn(async () => {
+      await cache.invalidateUser(1);
+      return testUser({ permissions: ['orders.view'] });
+    });
+
+    await cache.getOrLoadUser(1, 1, stale);
+    expect(await cache.getOrLoadUser(1, 1, load)).toMatchObject({ permissions: ['orders.view'] });
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('MemoryCacheStore', () => {
+  afterEach(() => jest.useRealTimers());
+
+  it('evicts the least recently used entry', async () => {
+    const store = new MemoryCacheStore(2);
+    await store.set('a', '1');
+    await store.set('b', '2');
+    await store.get('a');
+    await store.set('c', '3');
+
+    expect(await store.get('a')).toBe('1');
+    expect(await store.get('b')).toBeNull();
+    expect(store.size()).toBe(2);
+  });
+
+  it('expires entries after their TTL', async () => {
+    jest.useFakeTimers({ now: 0 });
+    const store = new MemoryCacheStore();
+    await store.set('a', '1', 60);
+
+    jest.setSystemTime(59_000);
+    expect(await store.get('a')).toBe('1');
+    jest.setSystemTime(60_000);
+    expect(await store.get('a')).toBeNull();
+  });
+
+  it('counts with incr', async () => {
+    const store = new MemoryCacheStore();
+
+    expect(await store.incr('n')).toBe(1);
+    expect(await store.incr('n')).toBe(2);
+    expect(await Promise.all([store.incr('n'), store.incr('n'), store.incr('n')])).toEqual([3, 4, 5]);
+    expect(await store.get('n')).toBe('5');
+  });
+
+  it('does not evict counters for entries or expire them', async () => {
+    jest.useFakeTimers({ now: 0 });
+    const store = new MemoryCacheStore(1);
+    await store.incr('n');
+    await store.set('a', '1', 60);
+    await store.set('b', '2', 60);
+
+    jest.setSystemTime(3_600_000);
+    expect(await store.get('n')).toBe('1');
+    expect(store.size()).toBe(1);
+  });
+
+  it('stays bounded after many invalidations', async () => {
+    const store = new MemoryCacheStore(10);
+    const cache = new PermissionCache({ store });
+
+    for (let userId = 1; userId <= 100; userId++) {
+      await cache.getOrLoadUser(userId, 1, async () => testUser({ id: userId }));
+      await cache.invalidateUser(userId);
+    }
+
+    expect(store.counterCount()).toBe(10);
+    expect(store.size()).toBeLessThanOrEqual(10);
+  });
+
+  it('drops entries with an evicted counter and never reuses its values', async () => {
+    const store = new MemoryCacheStore(2);
+    await store.incr('n');
+    await store.incr('n');
+    await store.set('a', '1');
+    await store.incr('m');
+    await store.incr('o');
+
+    expect(await store.get('n')).toBeNull();
+    expect(await store.get('a')).toBeNull();
+    expect(await store.incr('n')).toBe(3);
+  });
+});
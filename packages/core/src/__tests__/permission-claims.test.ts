@@ -0,0 +1,71 @@
+import { createHmac } from 'crypto';
+import { PermissionClaimCodec } from '../permission-claims';
+import { PermissionEngine } from '../permission-engine';
+import { testConfig, testUser } from './fixtures';
+
+describe('PermissionClaimCodec', () => {
+  const engine = new PermissionEngine(testConfig());
+  const codec = new PermissionClaimCodec(engine, { secret: 'secret', ttlSeconds: 60 });
+  const user = testUser({ id: 7, shopId: 1, permissions: ['orders.*', '!orders.delete', 'billing.refund@overLimit'] });
+
+  afterEach(() => jest.useRealTimers());
+
+  it('round-trips effective permissions through a signed token', async () => {
+    const token = await codec.sign(user, 1);
+    const rebuilt = codec.verifyToUser(token);
+
+    expect(rebuilt).toMatchObject({ id: 7, email: 'user@example.com', userType: 'user', shopId: 1 });
+    expect(rebuilt.permissions).toEqual(['orders.view', 'orders.edit']);
+    expect(await engine.userHasPermission(rebuilt, 'orders.delete')).toBe(false);
+  });
+
+  it('rejects tampered, foreign and malformed tokens', async () => {
+    const [payload, signature] = (await codec.sign(user, 1)).split('.');
+    const forged = Buffer.from(JSON.stringify({ ...JSON.parse(Buffer.from(payload, 'base64url').toString()), sub: 1 }))
+      .toString('base64url');
+
+    expect(() => codec.verify(`${forged}.${signature}`)).toThrow('Invalid permission token signature');
+    expect(() => new PermissionClaimCodec(engine, { secret: 'other' }).verify(`${payload}.${signature}`))
+      .toThrow('Invalid permission token signature');
+    expect(() => codec.verify('not-a-token')).toThrow('Malformed permission token');
+  });
+
+  it('rejects expired tokens', async () => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    const token = await codec.sign(user, 1);
+
+    jest.setSystemTime(new Date('2026-01-01T00:01:00Z'));
+    expect(() => codec.verify(token)).toThrow('Permission token has expired');
+  });
+
+  it('rejects tokens without an expiry', async () => {
+    const payload = Buffer.from(JSON.stringify(await codec.createClaim(user, 1))).toString('base64url');
+    const signature = createHmac('sha256', 'secret').update(payload).digest('base64url');
+
+    expect(() => codec.verify(`${payload}.${signature}`)).toThrow('Permission token has no expiry');
+  });
+
+  it('rejects claims minted under a different permission config', async () => {
+    const claim = await codec.createClaim(user, 1);
+    const other = new PermissionClaimCodec(
+      new PermissionEngine(testConfig({ permissions: { orders: [{ name: 'View', description: 'View', shortName: 'orders.view' }] } })),
+      { secret: 'secret' }
+    );
+
+    expect(() => other.claimToUser(claim)).toThrow('Permission claim was issued for a different permission config');
+  });
+
+  it('rejects claims minted under different user types', async () => {
+    const claim = await codec.createClaim(user, 1);
+    const widened = new PermissionClaimCodec(
+      new PermissionEngine(testConfig({ userTypes: { user: { scope: 'global', permissions: ['orders.view'] } } })),
+      { secret: 'secret' }
+    );
+
+    expect(() => widened.claimToUser(claim)).toThrow('Permission claim was issued for a different permission config');
+  });
+
+  it('requires a secret', () => {
+    expect(() => new PermissionClaimCodec(engine, { secret: '' })).toThrow('A signing secret is required');
+  });
+});
@@ -0,0 +1,154 @@
+import { PermissionEngine } from '../permission-engine';
+import { testConfig, testUser } from './fixtures';
+
+describe('PermissionEngine', () => {
+  const engine = new PermissionEngine(testConfig({
+    conditions: {
+      overLimit: ({ resource }) => resource.total > 500,
+    },
+  }));
+
+  describe('role inheritance', () => {
+    const tenantRoles = [
+      { id: 1, name: 'Viewer', permissions: ['orders.view'] },
+      { id: 2, name: 'Editor', permissions: ['orders.edit'], parentRoleIds: [1] },
+      { id: 3, name: 'Manager', permissions: ['orders.delete'], parentRoleIds: [2] },
+      { id: 4, name: 'Looped', permissions: ['billing.view'], parentRoleIds: [5] },
+      { id: 5, name: 'Loop', permissions: [], parentRoleIds: [4] },
+    ];
+
+    it('flattens permissions through every ancestor', () => {
+      expect(engine.getAncestorRoleIds(3, tenantRoles).sort()).toEqual([1, 2]);
+      expect(engine.resolveRolePermissions([tenantRoles[2]], tenantRoles).sort())
+        .toEqual(['orders.delete', 'orders.edit', 'orders.view']);
+    });
+
+    it('stops at cycles in stored data', () => {
+      expect(engine.resolveRolePermissions([tenantRoles[3]], tenantRoles)).toEqual(['billing.view']);
+    });
+  });
+
+  describe('wildcard grants', () => {
+    it('cover every permission or a whole module', async () => {
+      expect(await engine.getUserPermissions(testUser({ permissions: ['*'] }))).toHaveLength(5);
+      expect(await engine.getUserPermissions(testUser({ permissions: ['orders.*'] })))
+        .toEqual(['orders.view', 'orders.edit', 'orders.delete']);
+      expect(await engine.userHasPermission(testUser({ permissions: ['orders.*'] }), 'billing.view')).toBe(false);
+    });
+
+    it('validate against configured modules only', () => {
+      expect(engine.validateGrant('*')).toBe(true);
+      expect(engine.validateGrant('orders.*')).toBe(true);
+      expect(engine.validateGrant('shipping.*')).toBe(false);
+      expect(engine.validateGrant('orders.v*')).toBe(false);
+    });
+  });
+
+  describe('deny grants', () => {
+    it('override allows for the same permission', async () => {
+      const user = testUser({ permissions: ['billing.*', '!billing.refund'] });
+
+      expect(await engine.userHasPermission(user, 'billing.view')).toBe(true);
+      expect(await engine.userHasPermission(user, 'billing.refund')).toBe(false);
+      expect(await engine.getUserPermissions(user)).toEqual(['billing.view']);
+    });
+
+    it('deny whole modules', async () => {
+      const user = testUser({ permissions: ['*', '!orders.*'] });
+
+      expect(await engine.userHasPermission(user, 'orders.view')).toBe(false);
+      expect(await engine.userHasPermission(user, 'billing.view')).toBe(true);
+    });
+
+    it('validate like the grants they deny', () => {
+      expect(engine.validateGrant('!orders.view')).toBe(true);
+      expect(engine.validateGrant('!orders.*')).toBe(true);
+      expect(engine.validateGrant('!!orders.view')).toBe(false);
+      expect(engine.validateGrant('!orders.unknown')).toBe(false);
+    });
+  });
+
+  describe('conditional denies', () => {
+    const user = testUser({ permissions: ['billing.refund', '!billing.refund@overLimit'] });
+
+    it('apply only when the condition holds for the resource', async () => {
+      expect(await engine.can(user, 'billing.refund', { total: 100 })).toBe(true);
+      expect(await engine.can(user, 'billing.refund', { total: 900 })).toBe(false);
+    });
+
+    it('fail closed without a resource', async () => {
+      expect(await engine.can(user, 'billing.refund')).toBe(false);
+      expect(await engine.userHasPermission(user, 'billing.refund')).toBe(false);
+      expect((await engine.checkPermission(user, 'billing.refund')).reason).toBe('explicit-deny');
+      expect(await engine.getUserPermissions(user)).toEqual([]);
+    });
+
+    it('are reported by explain', async () => {
+      const explanation = await engine.explain(user, 'billing.refund');
+
+      expect(explanation.granted).toBe(false);
+      expect(explanation.deniedBy.map(source => source.grant)).toEqual(['!billing.refund@overLimit']);
+    });
+  });
+
+  describe('explain', () => {
+    it('attributes grants to the roles that carry them', () => {
+      const user = testUser({
+        shopId: 1,
+        roles: [{ id: 3, name: 'Clerk', permissions: ['orders.*'], shopId: 1 }],
+        permissions: ['orders.*', 'billing.view'],
+      });
+
+      const explanation = engine.explain(user, 'orders.edit', 1);
+      expect(explanation).toMatchObject({ granted: true, reason: 'role-grant', tenantMismatch: false });
+      expect(explanation.allowedBy).toEqual([{ grant: 'orders.*', roleId: 3, roleName: 'Clerk' }]);
+      expect(explanation.trace).toEqual(["Granted by 'orders.*' from role 'Clerk'"]);
+    });
+
+    it('points out typos, missing grants and foreign tenants', () => {
+      const user = testUser({ shopId: 1, permissions: [] });
+
+      expect(engine.explain(user, 'orders.vew' as any).knownPermission).toBe(false);
+      expect(engine.explain(user, 'orders.view', 2)).toMatchObject({
+        granted: false,
+        reason: 'missing',
+        tenantMismatch: true,
+        trace: [
+          'User is not a member of tenant 2 (home tenant: 1)',
+          "No role or direct grant covers 'orders.view'",
+        ],
+      });
+    });
+
+    it('lists conditional grants that need a resource', () => {
+      const explanation = engine.explain(testUser({ permissions: ['billing.refund@overLimit'] }), 'billing.refund');
+
+      expect(explanation.granted).toBe(false);
+      expect(explanation.conditionalGrants).toEqual(['billing.refund@overLimit']);
+    });
+  });
+
+  describe('findConflictingGrants', () => {
+    it('finds exact allow and deny pairs', () => {
+      expect(engine.findConflictingGrants(['orders.view', '!orders.view'])).toEqual(['orders.view']);
+    });
+
+    it('lets a deny carve an exception out of a wildcard allow', () => {
+      expect(engine.findConflictingGrants(['billing.*', '!billing.refund'])).toEqual([]);
+      expect(engine.findConflictingGrants(['*', '!orders.edit'])).toEqual([]);
+      expect(engine.findConflictingGrants(['billing.refund', '!billing.*'])).toEqual([]);
+      expect(engine.findConflictingGrants(['billing.*', '!billing.*'])).toEqual(['billing.*']);
+    });
+
+    it('ignores grants that do not overlap', () => {
+      expect(engine.findConflictingGrants(['orders.*', '!billing.*'])).toEqual([]);
+      expect(engine.findConflictingGrants(['orders.view', 'orders.edit'])).toEqual([]);
+    });
+
+    it('lets a conditional deny narrow an allow', () => {
+      expect(engine.findConflictingGrants(['billing.refund', '!billing.refund@overLimit'])).toEqual([]);
+      expect(engine.findConflictingGrants(['billing.refund@overLimit', '!billing.refund@overLimit'])).toEqual(['billing.refund']);
+      expect(engine.findConflictingGrants(['billing.refund@overLimit', '!billing.refund'])).toEqual(['billing.refund']);
+    });
+  });
+});
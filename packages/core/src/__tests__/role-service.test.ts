@@ -0,0 +1,204 @@
+import { PermissionEngine } from '../permission-engine';
+import { RoleService } from '../services/role-service';
+import { MemoryStorageAdapter } from '../storage';
+import { admin, testConfig, testUser } from './fixtures';
+
+describe('RoleService', () => {
+  const config = testConfig();
+  let storage: MemoryStorageAdapter;
+  let roles: RoleService;
+
+  beforeEach(() => {
+    storage = new MemoryStorageAdapter(config);
+    roles = new RoleService(new PermissionEngine(config), storage);
+    storage.addUser(testUser());
+  });
+
+  describe('assignment windows', () => {
+    afterEach(() => jest.useRealTimers());
+
+    it('rejects assigning a role the user still holds', async () => {
+      const role = await roles.createRole({ name: 'Clerk', permissions: ['orders.view'] }, 1, admin);
+      await roles.assignRoleToUser(1, role.id, 1, admin);
+
+      await expect(roles.assignRoleToUser(1, role.id, 1, admin)).rejects.toThrow('User already has this role');
+    });
+
+    it('rejects an assign that loses the race to a concurrent one', async () => {
+      const role = await roles.createRole({ name: 'Clerk', permissions: ['orders.view'] }, 1, admin);
+      roles.events.before('assignment.added', async () => {
+        await storage.createAssignment({ userId: 1, roleId: role.id, validFrom: null, expiresAt: null });
+      });
+
+      await expect(roles.assignRoleToUser(1, role.id, 1, admin)).rejects.toThrow('User already has this role');
+      expect(await storage.findAssignments([1], [role.id])).toHaveLength(1);
+    });
+
+    it('replaces an expired assignment when the role is assigned again', async () => {
+      jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+      const role = await roles.createRole({ name: 'Temp', permissions: ['orders.delete'] }, 1, admin);
+      await roles.assignRoleToUser(1, role.id, 1, admin, { expiresAt: new Date('2026-01-02T00:00:00Z') });
+
+      jest.setSystemTime(new Date('2026-01-03T00:00:00Z'));
+      expect(await storage.findActiveUserRoles(1, 1, new Date())).toEqual([]);
+
+      await roles.assignRoleToUser(1, role.id, 1, admin);
+
+      expect(await storage.findActiveUserRoles(1, 1, new Date())).toEqual([expect.objectContaining({ id: role.id })]);
+      expect(await storage.findAssignments([1], [role.id])).toEqual([
+        { userId: 1, roleId: role.id, validFrom: null, expiresAt: null },
+      ]);
+    });
+
+    it('deletes a role whose only assignment has expired', async () => {
+      jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+      const role = await roles.createRole({ name: 'Temp', permissions: ['orders.delete'] }, 1, admin);
+      await roles.assignRoleToUser(1, role.id, 1, admin, { expiresAt: new Date('2026-01-02T00:00:00Z') });
+
+      await expect(roles.deleteRole(role.id, 1, admin)).rejects.toThrow('Cannot delete role that is assigned to users');
+
+      jest.setSystemTime(new Date('2026-01-03T00:00:00Z'));
+      await roles.deleteRole(role.id, 1, admin);
+
+      expect(await roles.getRoleById(role.id, 1)).toBeNull();
+      expect(await storage.findAssignments([1], [role.id])).toEqual([]);
+    });
+
+    it('reassigns expired roles in bulk', async () => {
+      jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+      const role = await roles.createRole({ name: 'Temp', permissions: ['orders.delete'] }, 1, admin);
+      await roles.assignRoleToUser(1, role.id, 1, admin, { expiresAt: new Date('2026-01-02T00:00:00Z') });
+
+      jest.setSystemTime(new Date('2026-01-03T00:00:00Z'));
+
+      expect(await roles.assignRolesBulk([1], [role.id], 1, admin)).toEqual([
+        { userId: 1, roleId: role.id, status: 'assigned' },
+      ]);
+      expect(await roles.assignRolesBulk([1], [role.id], 1, admin)).toEqual([
+        { userId: 1, roleId: role.id, status: 'unchanged' },
+      ]);
+      expect(await storage.findAssignments([1], [role.id])).toHaveLength(1);
+    });
+  });
+
+  describe('grants', () => {
+    it('lets a deny carve an exception out of a wildcard allow', async () => {
+      const role = await roles.createRole({ name: 'Billing', permissions: ['billing.*', '!billing.refund'] }, 1, admin);
+      await roles.assignRoleToUser(1, role.id, 1, admin);
+
+      expect(await roles.updateRole(role.id, { permissions: ['*', '!billing.refund'] }, 1, admin))
+        .toMatchObject({ permissions: ['*', '!billing.refund'] });
+    });
+
+    it('leaves the caller\'s update request untouched', async () => {
+      const parent = await roles.createRole({ name: 'Viewer', permissions: ['orders.view'] }, 1, admin);
+      const role = await roles.createRole({ name: 'Editor', permissions: ['orders.edit'] }, 1, admin);
+      const permissions = ['orders.edit'];
+      const parentRoleIds = [parent.id];
+      const request = { permissions, parentRoleIds };
+
+      await roles.updateRole(role.id, request, 1, admin);
+
+      expect(request.permissions).toBe(permissions);
+      expect(request.parentRoleIds).toBe(parentRoleIds);
+    });
+
+    it('rejects allowing and denying the same grant', async () => {
+      await expect(roles.createRole({ name: 'Torn', permissions: ['billing.*', '!billing.*'] }, 1, admin))
+        .rejects.toThrow('Permissions both allowed and denied: billing.*');
+    });
+  });
+
+  describe('inheritance', () => {
+    it('rejects unknown parents, self-inheritance and cycles', async () => {
+      const base = await roles.createRole({ name: 'Viewer', permissions: ['orders.view'] }, 1, admin);
+      const child = await roles.createRole({ name: 'Editor', permissions: ['orders.edit'], parentRoleIds: [base.id] }, 1, admin);
+      const foreign = await roles.createRole({ name: 'Other', permissions: [] }, 2, admin);
+
+      await expect(roles.createRole({ name: 'Bad', permissions: [], parentRoleIds: [foreign.id] }, 1, admin))
+        .rejects.toThrow(`Invalid parent roles: ${foreign.id}`);
+      await expect(roles.updateRole(base.id, { parentRoleIds: [base.id] }, 1, admin))
+        .rejects.toThrow('Role cannot inherit from itself');
+      await expect(roles.updateRole(base.id, { parentRoleIds: [child.id] }, 1, admin))
+        .rejects.toThrow('Role inheritance cycle detected');
+    });
+
+    it('keeps parents that other roles inherit from', async () => {
+      const base = await roles.createRole({ name: 'Viewer', permissions: ['orders.view'] }, 1, admin);
+      await roles.createRole({ name: 'Editor', permissions: ['orders.edit'], parentRoleIds: [base.id] }, 1, admin);
+
+      await expect(roles.deleteRole(base.id, 1, admin)).rejects.toThrow('Cannot delete role that other roles inherit from');
+    });
+  });
+
+  describe('bulk changes', () => {
+    afterEach(() => jest.useRealTimers());
+
+    it('reports a status for every user and role', async () => {
+      const clerk = await roles.createRole({ name: 'Clerk', permissions: ['orders.view'] }, 1, admin);
+      const foreign = await roles.createRole({ name: 'Other', permissions: [] }, 2, admin);
+      await roles.assignRoleToUser(1, clerk.id, 1, admin);
+
+      expect(await roles.assignRolesBulk([1, 2, 2], [clerk.id, foreign.id], 1, admin)).toEqual([
+        { userId: 1, roleId: clerk.id, status: 'unchanged' },
+        { userId: 1, roleId: foreign.id, status: 'failed', error: 'Role not found' },
+        { userId: 2, roleId: clerk.id, status: 'assigned' },
+        { userId: 2, roleId: foreign.id, status: 'failed', error: 'Role not found' },
+      ]);
+
+      expect(await roles.removeRolesBulk([1, 3], [clerk.id], 1, admin)).toEqual([
+        { userId: 1, roleId: clerk.id, status: 'removed' },
+        { userId: 3, roleId: clerk.id, status: 'unchanged' },
+      ]);
+      expect(await storage.findAssignments([1, 2, 3], [clerk.id])).toEqual([expect.objectContaining({ userId: 2 })]);
+    });
+
+    it('reports vetoed items as failed and applies the rest', async () => {
+      const clerk = await roles.createRole({ name: 'Clerk', permissions: ['orders.view'] }, 1, admin);
+      roles.events.before('assignment.added', ({ userId }) => userId === 2 ? { veto: 'suspended' } : undefined);
+
+      expect(await roles.assignRolesBulk([1, 2], [clerk.id], 1, admin)).toEqual([
+        { userId: 1, roleId: clerk.id, status: 'assigned' },
+        { userId: 2, roleId: clerk.id, status: 'failed', error: 'suspended' },
+      ]);
+    });
+
+    it('replaces a user\'s roles as a whole', async () => {
+      const [viewer, editor, billing] = await Promise.all(['Viewer', 'Editor', 'Billing']
+        .map(name => roles.createRole({ name, permissions: ['orders.view'] }, 1, admin)));
+      await roles.assignRolesBulk([1], [viewer.id, editor.id], 1, admin);
+
+      expect(await roles.replaceUserRoles(1, [editor.id, billing.id], 1, admin)).toEqual([
+        { userId: 1, roleId: viewer.id, status: 'removed' },
+        { userId: 1, roleId: editor.id, status: 'unchanged' },
+        { userId: 1, roleId: billing.id, status: 'assigned' },
+      ]);
+      await expect(roles.replaceUserRoles(1, [viewer.id, 999], 1, admin)).rejects.toThrow('Invalid roles: 999');
+    });
+
+    it('undoes the whole replacement when one change is vetoed', async () => {
+      const [viewer, editor] = await Promise.all(['Viewer', 'Editor']
+        .map(name => roles.createRole({ name, permissions: ['orders.view'] }, 1, admin)));
+      await roles.assignRoleToUser(1, viewer.id, 1, admin);
+      roles.events.before('assignment.added', () => ({ veto: 'frozen' }));
+
+      await expect(roles.replaceUserRoles(1, [editor.id], 1, admin)).rejects.toThrow('assignment.added vetoed: frozen');
+      expect(await storage.findAssignments([1], [viewer.id, editor.id])).toEqual([
+        expect.objectContaining({ roleId: viewer.id }),
+      ]);
+    });
+
+    it('restores expired roles on replacement', async () => {
+      jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+      const role = await roles.createRole({ name: 'Temp', permissions: ['orders.delete'] }, 1, admin);
+      await roles.assignRoleToUser(1, role.id, 1, admin, { expiresAt: new Date('2026-01-02T00:00:00Z') });
+
+      jest.setSystemTime(new Date('2026-01-03T00:00:00Z'));
+
+      expect(await roles.replaceUserRoles(1, [role.id], 1, admin)).toEqual([
+        { userId: 1, roleId: role.id, status: 'assigned' },
+      ]);
+      expect(await storage.findActiveUserRoles(1, 1, new Date())).toEqual([expect.objectContaining({ id: role.id })]);
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { RBAC } from '../rbac';
+import { MemoryStorageAdapter } from '../storage';
+import { admin, testConfig } from './fixtures';
+
+describe('role templates', () => {
+  let rbac: RBAC;
+
+  beforeEach(() => {
+    const config = testConfig({
+      roleTemplates: [
+        { key: 'viewer', name: 'Viewer', description: 'Read only', permissions: ['orders.view', 'billing.view'] },
+        { key: 'manager', name: 'Manager', permissions: ['orders.*'] },
+      ],
+    });
+    rbac = new RBAC({ ...config, storage: new MemoryStorageAdapter(config) });
+  });
+
+  it('instantiates missing templates once per tenant', async () => {
+    await rbac.createRole({ name: 'Manager', permissions: ['orders.view'] }, 1, admin);
+
+    expect((await rbac.instantiateRoleTemplates(1, admin)).map(role => role.templateKey)).toEqual(['viewer']);
+    expect(await rbac.instantiateRoleTemplates(1, admin)).toEqual([]);
+    expect((await rbac.instantiateRoleTemplates(2, admin, ['manager'])).map(role => role.name)).toEqual(['Manager']);
+    await expect(rbac.instantiateRoleTemplates(2, admin, ['auditor'])).rejects.toThrow('Unknown role templates: auditor');
+  });
+
+  it('clones a role into another tenant without its parents', async () => {
+    const [viewer] = await rbac.instantiateRoleTemplates(1, admin, ['viewer']);
+    const child = await rbac.createRole({ name: 'Clerk', permissions: ['orders.edit'], parentRoleIds: [viewer.id] }, 1, admin);
+
+    const clonedViewer = await rbac.cloneRole(viewer.id, 1, 2, admin);
+    const clonedChild = await rbac.cloneRole(child.id, 1, 2, admin, { name: 'Junior Clerk' });
+
+    expect(clonedViewer).toMatchObject({ name: 'Viewer', templateKey: 'viewer', shopId: 2 });
+    expect(clonedChild).toMatchObject({ name: 'Junior Clerk', permissions: ['orders.edit'], parentRoleIds: [] });
+    await expect(rbac.cloneRole(child.id, 2, 3, admin)).rejects.toThrow('Role not found');
+  });
+
+  it('previews and pushes template changes to derived roles', async () => {
+    const [first] = await rbac.instantiateRoleTemplates(1, admin, ['viewer']);
+    await rbac.instantiateRoleTemplates(2, admin, ['viewer']);
+    await rbac.updateRole(first.id, { permissions: ['orders.view', 'orders.edit'], description: 'Custom' }, 1, admin);
+
+    const preview = await rbac.previewTemplateSync('viewer');
+    expect(preview).toEqual([{
+      roleId: first.id,
+      tenantId: 1,
+      templateKey: 'viewer',
+      addedPermissions: ['billing.view'],
+      removedPermissions: ['orders.edit'],
+      description: { from: 'Custom', to: 'Read only' },
+    }]);
+    expect(await rbac.previewTemplateSync('viewer', 2)).toEqual([]);
+
+    expect(await rbac.syncTemplate('viewer', admin)).toEqual(preview);
+    expect(await rbac.getRoleById(first.id, 1)).toMatchObject({ permissions: ['orders.view', 'billing.view'], description: 'Read only' });
+    expect(await rbac.previewTemplateSync('viewer')).toEqual([]);
+  });
+
+  it('rejects unknown templates when syncing', async () => {
+    await expect(rbac.syncTemplate('auditor', admin)).rejects.toThrow('Unknown role template: auditor');
+  });
+});
@@ -0,0 +1,173 @@
+import { DataTypes, Sequelize } from 'sequelize';
+import { RBAC } from '../rbac';
+import { listAttribute, listColumn } from '../models/column-types';
+import { admin, createSqliteRBAC } from './fixtures';
+
+describe('role storage on SQLite', () => {
+  let rbac: RBAC;
+  let sequelize: Sequelize;
+
+  beforeEach(async () => {
+    ({ rbac, sequelize } = await createSqliteRBAC());
+    await sequelize.models.User.bulkCreate([
+      { id: 1, email: 'ann@example.com', userType: 'user' },
+      { id: 2, email: 'bob@example.com', userType: 'user' },
+    ]);
+  });
+
+  afterEach(() => sequelize.close());
+
+  it('creates, reads, updates and deletes roles with permission lists', async () => {
+    const role = await rbac.createRole({ name: 'Clerk', permissions: ['orders.view', 'orders.edit'] }, 1, admin);
+
+    expect(role.permissions).toEqual(['orders.view', 'orders.edit']);
+    expect((await rbac.getRoleById(role.id, 1))!.permissions).toEqual(['orders.view', 'orders.edit']);
+
+    const updated = await rbac.updateRole(role.id, { permissions: ['orders.view'] }, 1, admin);
+    expect(updated.permissions).toEqual(['orders.view']);
+    expect((await rbac.getRolesByTenant(1)).map(r => r.permissions)).toEqual([['orders.view']]);
+
+    await rbac.deleteRole(role.id, 1, admin);
+    expect(await rbac.getRolesByTenant(1)).toEqual([]);
+  });
+
+  it('stores parent role ids and keeps tenants apart', async () => {
+    const base = await rbac.createRole({ name: 'Viewer', permissions: ['orders.view'] }, 1, admin);
+    const child = await rbac.createRole({ name: 'Editor', permissions: ['orders.edit'], parentRoleIds: [base.id] }, 1, admin);
+    await rbac.createRole({ name: 'Viewer', permissions: ['billing.view'] }, 2, admin);
+
+    expect((await rbac.getRoleById(child.id, 1))!.parentRoleIds).toEqual([base.id]);
+    expect(await rbac.getRoleById(child.id, 2)).toBeNull();
+    expect(await rbac.getRolesByTenant(2)).toHaveLength(1);
+  });
+
+  it('flattens inherited and direct permissions in getUserWithPermissions', async () => {
+    const base = await rbac.createRole({ name: 'Viewer', permissions: ['orders.view'] }, 1, admin);
+    const child = await rbac.createRole({ name: 'Editor', permissions: ['orders.edit'], parentRoleIds: [base.id] }, 1, admin);
+    const other = await rbac.createRole({ name: 'Billing', permissions: ['billing.view'] }, 2, admin);
+
+    await rbac.assignRoleToUser(1, child.id, 1, admin);
+    await rbac.assignRoleToUser(1, other.id, 2, admin);
+    await rbac.grantPermissionToUser(1, 'billing.refund', 1, admin);
+
+    const user = await rbac.getUserWithPermissions(1, 1);
+
+    expect(user!.roles!.map(role => role.name)).toEqual(['Editor']);
+    expect([...user!.permissions!].sort()).toEqual(['billing.refund', 'orders.edit', 'orders.view']);
+    expect(await rbac.getUserWithPermissions(2, 1)).toMatchObject({ roles: [], permissions: [] });
+    expect(await rbac.getUserWithPermissions(99, 1)).toBeNull();
+  });
+
+  it('leaves expired assignments out of getUserWithPermissions', async () => {
+    const role = await rbac.createRole({ name: 'Temp', permissions: ['orders.delete'] }, 1, admin);
+
+    await rbac.assignRoleToUser(1, role.id, 1, admin, { expiresAt: new Date(Date.now() + 60_000) });
+    await sequelize.models.UserRole.update({ expiresAt: new Date(Date.now() - 1000) }, { where: { userId: 1 } });
+
+    expect((await rbac.getUserWithPermissions(1, 1))!.permissions).toEqual([]);
+
+    await rbac.assignRoleToUser(1, role.id, 1, admin);
+    expect((await rbac.getUserWithPermissions(1, 1))!.permissions).toEqual(['orders.delete']);
+    expect(await sequelize.models.UserRole.count({ where: { userId: 1 } })).toBe(1);
+  });
+
+  it('refuses a second row for the same user and role', async () => {
+    const role = await rbac.createRole({ name: 'Clerk', permissions: ['orders.view'] }, 1, admin);
+    const assignment = { userId: 1, roleId: role.id, validFrom: null, expiresAt: null };
+
+    expect(await rbac.storage.createAssignment(assignment)).toBe(true);
+    expect(await rbac.storage.createAssignment(assignment)).toBe(false);
+    expect(await sequelize.models.UserRole.count({ where: { userId: 1 } })).toBe(1);
+  });
+
+  it('stores memberships and the audit log', async () => {
+    await rbac.setTenantMembership(1, 2, 'user', admin);
+    await rbac.setTenantMembership(1, 2, 'admin', admin);
+
+    expect(await rbac.getUserMemberships(1)).toEqual([expect.objectContaining({ tenantId: 2, userType: 'admin' })]);
+
+    const page = await rbac.getAuditLog(2, { action: 'membership.added' });
+    expect(page.total).toBe(2);
+    expect(page.entries[0]).toMatchObject({ actorId: admin.id, userId: 1 });
+  });
+
+  it('removes everything a tenant owns on teardown', async () => {
+    const role = await rbac.createRole({ name: 'Clerk', permissions: ['orders.view'] }, 1, admin);
+    await rbac.assignRoleToUser(1, role.id, 1, admin);
+    await rbac.grantPermissionToUser(2, 'billing.view', 1, admin);
+    await rbac.setTenantMembership(2, 1, 'user', admin);
+
+    expect(await rbac.teardownTenant(1, admin)).toEqual({
+      tenantId: 1, assignments: 1, roles: 1, directPermissions: 1, memberships: 1, webhookEndpoints: 0,
+    });
+    expect(await sequelize.models.UserRole.count()).toBe(0);
+    expect(await rbac.getTenantMembers(1)).toEqual([]);
+  });
+
+  it('rolls back a provisioning that fails part way', async () => {
+    const templates = { roleTemplates: [{ key: 'manager', name: 'Manager', permissions: ['orders.*'] }] };
+    await sequelize.close();
+    ({ rbac, sequelize } = await createSqliteRBAC(templates));
+    rbac.before('membership.added', () => ({ veto: 'closed' }));
+
+    await expect(rbac.provisionTenant(1, admin, { adminUserId: 1 })).rejects.toThrow('membership.added vetoed: closed');
+    expect(await rbac.getRolesByTenant(1)).toEqual([]);
+  });
+});
+
+describe('cached permissions on SQLite', () => {
+  let rbac: RBAC;
+  let sequelize: Sequelize;
+
+  beforeEach(async () => {
+    ({ rbac, sequelize } = await createSqliteRBAC({ cache: {} }));
+    await sequelize.models.User.create({ id: 1, email: 'ann@example.com', userType: 'user' });
+  });
+
+  afterEach(() => sequelize.close());
+
+  it('drops cached users when their roles or assignments change', async () => {
+    const role = await rbac.createRole({ name: 'Clerk', permissions: ['orders.view'] }, 1, admin);
+    expect((await rbac.getUserWithPermissions(1, 1))!.permissions).toEqual([]);
+
+    await rbac.assignRoleToUser(1, role.id, 1, admin);
+    expect((await rbac.getUserWithPermissions(1, 1))!.permissions).toEqual(['orders.view']);
+
+    await rbac.updateRole(role.id, { permissions: ['orders.edit'] }, 1, admin);
+    expect((await rbac.getUserWithPermissions(1, 1))!.permissions).toEqual(['orders.edit']);
+
+    await rbac.removeRoleFromUser(1, role.id, 1, admin);
+    expect((await rbac.getUserWithPermissions(1, 1))!.permissions).toEqual([]);
+  });
+
+  it('serves unchanged users from the cache', async () => {
+    await rbac.getUserWithPermissions(1, 1);
+    await sequelize.models.User.update({ userType: 'admin' }, { where: { id: 1 } });
+
+    expect((await rbac.getUserWithPermissions(1, 1))!.userType).toBe('user');
+
+    await rbac.invalidateUserPermissions(1);
+    expect((await rbac.getUserWithPermissions(1, 1))!.userType).toBe('admin');
+  });
+});
+
+describe('list column types', () => {
+  it('uses native arrays on Postgres', () => {
+    expect(listColumn('postgres', DataTypes.STRING)).toMatchObject({ allowNull: false, defaultValue: [] });
+    expect(listColumn('postgres', DataTypes.STRING).type).toBeInstanceOf(DataTypes.ARRAY);
+  });
+
+  it.each(['mysql', 'sqlite'] as const)('uses JSON without a database default on %s', dialect => {
+    const column = listColumn(dialect, DataTypes.INTEGER);
+
+    expect(column.type).toBe(DataTypes.JSON);
+    expect(column).not.toHaveProperty('defaultValue');
+  });
+
+  it('parses lists that a MySQL driver returns as strings', () => {
+    const attribute = listAttribute('mysql', DataTypes.STRING, 'permissions');
+    const instance = { getDataValue: () => '["orders.view"]' };
+
+    expect(attribute.get!.call(instance as any)).toEqual(['orders.view']);
+  });
+});
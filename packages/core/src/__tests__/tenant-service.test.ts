@@ -0,0 +1,90 @@
+import { RBAC } from '../rbac';
+import { MemoryStorageAdapter } from '../storage';
+import { admin, testConfig, testUser } from './fixtures';
+
+describe('TenantService', () => {
+  const config = testConfig({
+    roleTemplates: [
+      { key: 'manager', name: 'Manager', permissions: ['orders.*'] },
+      { key: 'clerk', name: 'Clerk', permissions: ['orders.view'] },
+    ],
+  });
+  let storage: MemoryStorageAdapter;
+  let rbac: RBAC;
+
+  beforeEach(() => {
+    storage = new MemoryStorageAdapter(config);
+    storage.addUser(testUser({ id: 7 }));
+    rbac = new RBAC({ ...config, storage });
+  });
+
+  describe('provisionTenant', () => {
+    const options = { adminUserId: 7, adminRoleTemplate: 'manager' };
+
+    it('seeds templates and the initial admin', async () => {
+      const events: string[] = [];
+      ['role.created', 'membership.added', 'assignment.added', 'tenant.provisioned'].forEach(event =>
+        rbac.on(event as any, () => { events.push(event); })
+      );
+
+      const result = await rbac.provisionTenant(1, admin, options);
+
+      expect(result.roles.map(role => role.name)).toEqual(['Manager', 'Clerk']);
+      expect(await rbac.getTenantMembers(1)).toEqual([{ userId: 7, tenantId: 1, userType: 'admin' }]);
+      expect((await rbac.getUserRoles(7, 1)).map(role => role.name)).toEqual(['Manager']);
+      expect(events).toEqual(['role.created', 'role.created', 'membership.added', 'assignment.added', 'tenant.provisioned']);
+      expect((await rbac.getAuditLog(1)).total).toBe(5);
+    });
+
+    it('keeps what already exists when re-run', async () => {
+      await rbac.provisionTenant(1, admin, options);
+      const result = await rbac.provisionTenant(1, admin, options);
+
+      expect(result.roles).toEqual([]);
+      expect(await rbac.getRolesByTenant(1)).toHaveLength(2);
+      expect(await storage.findRoleAssignments((await rbac.getRolesByTenant(1)).map(role => role.id))).toHaveLength(1);
+      expect((await rbac.getAuditLog(1, { action: 'membership.added' })).total).toBe(1);
+    });
+
+    it('leaves an existing membership of the same type untouched', async () => {
+      await rbac.setTenantMembership(7, 1, 'admin', admin);
+      const added = jest.fn();
+      rbac.on('membership.added', added);
+
+      await rbac.provisionTenant(1, admin, { adminUserId: 7 });
+
+      expect(added).not.toHaveBeenCalled();
+      expect((await rbac.getAuditLog(1, { action: 'membership.added' })).total).toBe(1);
+    });
+
+    it('rejects templates with unknown or conflicting grants', async () => {
+      const invalid = (permissions: string[]) => {
+        const templates = testConfig({ roleTemplates: [{ key: 'broken', name: 'Broken', permissions }] });
+        return new RBAC({ ...templates, storage: new MemoryStorageAdapter(templates) });
+      };
+
+      await expect(invalid(['orders.ship']).provisionTenant(1, admin)).rejects.toThrow('Invalid permissions: orders.ship');
+      await expect(invalid(['orders.*', '!orders.*']).provisionTenant(1, admin))
+        .rejects.toThrow('Permissions both allowed and denied');
+    });
+
+    it('rolls everything back when a step is vetoed', async () => {
+      const created = jest.fn();
+      rbac.on('role.created', created);
+      rbac.before('assignment.added', () => ({ veto: 'no admins today' }));
+
+      await expect(rbac.provisionTenant(1, admin, options)).rejects.toThrow('assignment.added vetoed: no admins today');
+
+      expect(await rbac.getRolesByTenant(1)).toEqual([]);
+      expect(await rbac.getTenantMembers(1)).toEqual([]);
+      expect((await rbac.getAuditLog(1)).total).toBe(0);
+      expect(created).not.toHaveBeenCalled();
+    });
+
+    it('rejects global user types before writing anything', async () => {
+      await expect(rbac.provisionTenant(1, admin, { adminUserId: 7, adminUserType: 'superadmin' }))
+        .rejects.toThrow('Invalid tenant user type: superadmin');
+      expect(await rbac.getRolesByTenant(1)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import { RBAC } from '../rbac';
+import { MemoryStorageAdapter } from '../storage';
+import { admin, testConfig, testUser } from './fixtures';
+
+describe('UserPermissionService', () => {
+  let rbac: RBAC;
+
+  beforeEach(() => {
+    const config = testConfig();
+    const storage = new MemoryStorageAdapter(config);
+    storage.addUser(testUser({ shopId: 1 }));
+    rbac = new RBAC({ ...config, storage });
+  });
+
+  it('grants and revokes permissions per tenant', async () => {
+    await rbac.grantPermissionToUser(1, 'orders.view', 1, admin);
+    await rbac.grantPermissionToUser(1, 'billing.view', 2, admin);
+
+    expect(await rbac.getUserDirectPermissions(1, 1)).toEqual(['orders.view']);
+    expect(await rbac.getUserDirectPermissions(1, 2)).toEqual(['billing.view']);
+
+    await rbac.revokePermissionFromUser(1, 'orders.view', 1, admin);
+    expect(await rbac.getUserDirectPermissions(1, 1)).toEqual([]);
+    expect(await rbac.getUserDirectPermissions(1, 2)).toEqual(['billing.view']);
+  });
+
+  it('merges direct grants with role permissions', async () => {
+    const role = await rbac.createRole({ name: 'Clerk', permissions: ['orders.view'] }, 1, admin);
+    await rbac.assignRoleToUser(1, role.id, 1, admin);
+    await rbac.grantPermissionToUser(1, 'orders.view', 1, admin);
+    await rbac.grantPermissionToUser(1, 'billing.refund', 1, admin);
+
+    expect((await rbac.getUserWithPermissions(1, 1))!.permissions).toEqual(['orders.view', 'billing.refund']);
+  });
+
+  it('rejects unknown, duplicate and missing grants', async () => {
+    await expect(rbac.grantPermissionToUser(1, 'orders.unknown', 1, admin))
+      .rejects.toThrow('Invalid permissions: orders.unknown');
+
+    await rbac.grantPermissionToUser(1, 'orders.view', 1, admin);
+    await expect(rbac.grantPermissionToUser(1, 'orders.view', 1, admin))
+      .rejects.toThrow('User already has this permission');
+    await expect(rbac.revokePermissionFromUser(1, 'orders.edit', 1, admin))
+      .rejects.toThrow('User does not have this permission');
+  });
+});
@@ -0,0 +1,208 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { validateRBACConfig } from '../config-loader';
+import { RBAC } from '../rbac';
+import { isPrivateAddress, signWebhookPayload, verifyWebhookSignature } from '../services/webhook-service';
+import { MemoryStorageAdapter } from '../storage';
+import { WebhookOptions } from '../types';
+import { admin, testConfig } from './fixtures';
+
+function createRBAC(webhooks: WebhookOptions = {}) {
+  const config = testConfig({ webhooks });
+  const storage = new MemoryStorageAdapter(config);
+  return { rbac: new RBAC({ ...config, storage }), storage };
+}
+
+describe('webhook signatures', () => {
+  const now = Math.floor(Date.now() / 1000);
+  const signature = signWebhookPayload('secret', now, '{"a":1}');
+
+  it('verify against the secret, timestamp and body', () => {
+    expect(verifyWebhookSignature('secret', '{"a":1}', now, signature)).toBe(true);
+    expect(verifyWebhookSignature('other', '{"a":1}', now, signature)).toBe(false);
+    expect(verifyWebhookSignature('secret', '{"a":2}', now, signature)).toBe(false);
+    expect(verifyWebhookSignature('secret', '{"a":1}', now, 'sha256=00')).toBe(false);
+  });
+
+  it('reject timestamps outside the tolerance', () => {
+    const old = now - 600;
+    expect(verifyWebhookSignature('secret', '{"a":1}', old, signWebhookPayload('secret', old, '{"a":1}'))).toBe(false);
+  });
+});
+
+describe('webhook endpoint hosts', () => {
+  it.each([
+    'http://localhost/hook',
+    'http://api.localhost/hook',
+    'http://127.0.0.1/hook',
+    'http://10.1.2.3/hook',
+    'http://192.168.0.10/hook',
+    'http://169.254.169.254/latest/meta-data',
+    'http://metadata.google.internal/computeMetadata',
+    'http://[::1]/hook',
+    'http://[fe80::1]/hook',
+    'http://[::ffff:127.0.0.1]/hook',
+    'http://2130706433/hook',
+  ])('rejects %s', async url => {
+    const { rbac } = createRBAC();
+    await expect(rbac.webhookService.registerEndpoint(1, { url, events: ['*'] }))
+      .rejects.toThrow('is a local, private or metadata address');
+  });
+
+  it('accepts public hosts', async () => {
+    const { rbac } = createRBAC();
+    await expect(rbac.webhookService.registerEndpoint(1, { url: 'https://hooks.example.com/rbac', events: ['*'] }))
+      .resolves.toMatchObject({ url: 'https://hooks.example.com/rbac' });
+  });
+
+  it('applies the allow and block lists', async () => {
+    const { rbac } = createRBAC({ allowedHosts: ['.example.com', '10.0.0.5'], blockedHosts: ['bad.example.com'] });
+    const register = (url: string) => rbac.webhookService.registerEndpoint(1, { url, events: ['*'] });
+
+    await expect(register('https://hooks.example.com/rbac')).resolves.toBeDefined();
+    await expect(register('http://10.0.0.5/rbac')).resolves.toBeDefined();
+    await expect(register('https://bad.example.com/rbac')).rejects.toThrow('Webhook host bad.example.com is blocked');
+    await expect(register('https://example.org/rbac')).rejects.toThrow('Webhook host example.org is not allowed');
+  });
+
+  it('accepts host lists in declarative configs', () => {
+    const config = { ...testConfig(), webhooks: { allowedHosts: ['.example.com'], blockedHosts: [''] } };
+
+    expect(validateRBACConfig(config).issues).toEqual([
+      { path: 'webhooks.blockedHosts', message: 'Must be a list of host names' },
+    ]);
+  });
+
+  it('classifies addresses', () => {
+    expect(['127.0.0.1', '172.16.0.1', '100.64.0.1', '0.0.0.0', 'fd00:ec2::254', '::'].every(isPrivateAddress)).toBe(true);
+    expect(['8.8.8.8', '172.32.0.1', '2606:4700::1111', 'example.com'].some(isPrivateAddress)).toBe(false);
+  });
+
+  it.each([
+    '100.127.255.254', '198.18.0.1', '198.19.255.255', '192.0.0.8', '224.0.0.1', '255.255.255.255',
+    '::ffff:7f00:1', '::ffff:6440:1', '[::ffff:a9fe:a9fe]', '::ffff:100.64.0.1',
+    '64:ff9b::7f00:1', 'fec0::1', 'fe80::1%eth0', '2001:db8::1',
+  ])('classifies %s as special-purpose', address => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it('allows public addresses around the special-purpose ranges', () => {
+    expect(['100.128.0.1', '198.20.0.1', '192.0.1.1', '223.255.255.255', '::ffff:808:808'].some(isPrivateAddress)).toBe(false);
+  });
+});
+
+describe('webhook outbox', () => {
+  it('queues deliveries in the transaction of the change', async () => {
+    const { rbac } = createRBAC();
+    await rbac.webhookService.registerEndpoint(1, { url: 'https://hooks.example.com/rbac', events: ['permission.granted'] });
+
+    await rbac.grantPermissionToUser(1, 'orders.view', 1, admin);
+    await rbac.setTenantMembership(1, 1, 'user', admin);
+
+    const { deliveries } = await rbac.webhookService.getDeliveries(1);
+    expect(deliveries).toEqual([expect.objectContaining({
+      event: 'permission.granted',
+      status: 'pending',
+      payload: expect.objectContaining({ userId: 1, permission: 'orders.view', actor: { id: admin.id, userType: 'admin' } }),
+    })]);
+  });
+
+  it('rolls the change back when queueing fails', async () => {
+    const { rbac, storage } = createRBAC();
+    await rbac.webhookService.registerEndpoint(1, { url: 'https://hooks.example.com/rbac', events: ['*'] });
+    jest.spyOn(storage, 'createWebhookDeliveries').mockRejectedValue(new Error('outbox unavailable'));
+
+    await expect(rbac.grantPermissionToUser(1, 'orders.view', 1, admin)).rejects.toThrow('outbox unavailable');
+    expect(await rbac.getUserDirectPermissions(1, 1)).toEqual([]);
+  });
+
+  it('reports failed polls to the error handler', async () => {
+    jest.useFakeTimers();
+    const { rbac, storage } = createRBAC();
+    const failure = new Error('outbox unavailable');
+    const errors: unknown[] = [];
+    jest.spyOn(storage, 'findDueWebhookDeliveries').mockRejectedValue(failure);
+    rbac.webhookService.setErrorHandler(error => errors.push(error));
+
+    try {
+      rbac.webhookService.start(1000);
+      await jest.advanceTimersByTimeAsync(1000);
+    } finally {
+      rbac.webhookService.stop();
+      jest.useRealTimers();
+    }
+
+    expect(errors).toEqual([failure]);
+  });
+
+  describe('delivery', () => {
+    let server: Server;
+    let url: string;
+    const received: { headers: Record<string, any>; body: string }[] = [];
+    let status = 200;
+
+    beforeAll(async () => {
+      server = createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', () => {
+          received.push({ headers: req.headers, body });
+          res.statusCode = status;
+          res.end();
+        });
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+    });
+
+    afterAll(() => new Promise(resolve => server.close(resolve)));
+
+    beforeEach(() => {
+      received.length = 0;
+      status = 200;
+    });
+
+    it('signs each delivery with the endpoint secret', async () => {
+      const { rbac } = createRBAC({ allowedHosts: ['127.0.0.1'] });
+      const { secret } = await rbac.webhookService.registerEndpoint(1, { url, events: ['*'] });
+
+      await rbac.grantPermissionToUser(1, 'orders.view', 1, admin);
+      expect(await rbac.webhookService.processOutbox()).toEqual({ delivered: 1, retrying: 0, failed: 0 });
+
+      const [{ headers, body }] = received;
+      expect(headers['x-rbac-event']).toBe('permission.granted');
+      expect(verifyWebhookSignature(secret, body, Number(headers['x-rbac-timestamp']), headers['x-rbac-signature'])).toBe(true);
+      expect(JSON.parse(body)).toMatchObject({ event: 'permission.granted', tenantId: 1, data: { permission: 'orders.view' } });
+    });
+
+    it('retries with exponential backoff, then gives up', async () => {
+      status = 500;
+      const { rbac } = createRBAC({ allowedHosts: ['127.0.0.1'], baseDelayMs: 60_000, maxAttempts: 2 });
+      await rbac.webhookService.registerEndpoint(1, { url, events: ['*'] });
+      await rbac.grantPermissionToUser(1, 'orders.view', 1, admin);
+
+      const before = Date.now();
+      expect(await rbac.webhookService.processOutbox()).toEqual({ delivered: 0, retrying: 1, failed: 0 });
+
+      const [delivery] = (await rbac.webhookService.getDeliveries(1)).deliveries;
+      expect(delivery).toMatchObject({ attempts: 1, lastError: 'Receiver responded with 500' });
+      expect(delivery.nextAttemptAt!.getTime()).toBeGreaterThanOrEqual(before + 60_000);
+      expect(await rbac.webhookService.processOutbox()).toEqual({ delivered: 0, retrying: 0, failed: 0 });
+
+      await rbac.webhookService.redeliver(delivery.id, 1);
+      expect(await rbac.webhookService.processOutbox()).toEqual({ delivered: 0, retrying: 0, failed: 1 });
+      expect(await rbac.webhookService.getDeliveryAttempts(delivery.id, 1)).toHaveLength(2);
+    });
+
+    it('refuses to deliver to hosts that are not allowed and resolve to private addresses', async () => {
+      const { rbac, storage } = createRBAC({ maxAttempts: 1 });
+      const endpoint = await rbac.webhookService.registerEndpoint(1, { url: 'https://hooks.example.com/rbac', events: ['*'] });
+      await storage.updateWebhookEndpoint(endpoint.id, { url: url.replace('127.0.0.1', 'localhost') });
+      await rbac.grantPermissionToUser(1, 'orders.view', 1, admin);
+
+      expect(await rbac.webhookService.processOutbox()).toEqual({ delivered: 0, retrying: 0, failed: 1 });
+      expect((await rbac.webhookService.getDeliveries(1)).deliveries[0].lastError).toMatch(/resolves to a private address/);
+      expect(received).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,39 @@
+#!/usr/bin/env node
+import { writeFile } from 'fs/promises';
+import { basename } from 'path';
+import { loadRBACConfig } from './config-loader';
+import { generatePermissionsModule } from './codegen';
+
+const USAGE = 'Usage: granular-rbac codegen <config.json|config.yaml> [--out permissions.ts]';
+
+async function codegen(args: string[]): Promise<void> {
+  const outIndex = args.indexOf('--out');
+  const outFile = outIndex >= 0 ? args[outIndex + 1] : 'permissions.ts';
+  const configFile = args.find((arg, index) => !arg.startsWith('--') && (outIndex < 0 || index !== outIndex + 1));
+
+  if (!configFile || !outFile) {
+    throw new Error(USAGE);
+  }
+
+  const config = await loadRBACConfig(configFile);
+  await writeFile(outFile, generatePermissionsModule(config, { source: basename(configFile) }));
+
+  const count = Object.values(config.permissions).flat().length;
+  console.log(`Wrote ${count} permissions to ${outFile}`);
+}
+
+async function main(argv: string[]): Promise<void> {
+  const [command, ...args] = argv;
+
+  if (command === 'codegen') {
+    await codegen(args);
+    return;
+  }
+
+  throw new Error(USAGE);
+}
+
+main(process.argv.slice(2)).catch(error => {
+  console.error(error.message);
+  process.exit(1);
+});
@@ -0,0 +1,50 @@
+import { RBACConfig } from './types';
+
+export interface CodegenOptions {
+  source?: string;        // Shown in the generated header
+  constName?: string;     // Defaults to PERMISSIONS
+  typeName?: string;      // Defaults to PermissionName
+}
+
+/**
+ * Render a TypeScript module exposing the config's permissions as a const
+ * object plus a union of their shortNames, for configs loaded at runtime
+ */
+export function generatePermissionsModule(config: RBACConfig, options: CodegenOptions = {}): string {
+  const constName = options.constName || 'PERMISSIONS';
+  const typeName = options.typeName || 'PermissionName';
+  const header = options.source
+    ? `// Generated by granular-rbac codegen from ${options.source}. Do not edit by hand.`
+    : '// Generated by granular-rbac codegen. Do not edit by hand.';
+
+  const modules = Object.entries(config.permissions).map(([module, permissions]) => {
+    const entries = permissions.map(permission => [
+      '    {',
+      `      name: ${JSON.stringify(permission.name)},`,
+      `      description: ${JSON.stringify(permission.description)},`,
+      `      shortName: ${JSON.stringify(permission.shortName)},`,
+      '    },',
+    ].join('\n'));
+
+    return [`  ${JSON.stringify(module)}: [`, ...entries, '  ],'].join('\n');
+  });
+
+  const shortNames = Object.values(config.permissions)
+    .flat()
+    .map(permission => `  ${JSON.stringify(permission.shortName)},`);
+
+  return [
+    header,
+    '',
+    `export const ${constName} = {`,
+    ...modules,
+    '} as const;',
+    '',
+    `export type ${typeName} = (typeof ${constName})[keyof typeof ${constName}][number]['shortName'];`,
+    '',
+    `export const PERMISSION_NAMES: readonly ${typeName}[] = [`,
+    ...shortNames,
+    '];',
+    '',
+  ].join('\n');
+}
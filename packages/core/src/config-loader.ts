@@ -0,0 +1,368 @@
+import { readFile } from 'fs/promises';
+import { extname } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { PermissionEngine } from './permission-engine';
+import { ConfigValidationIssue, ConfigValidationResult, RBACConfig } from './types';
+
+export type ConfigFormat = 'json' | 'yaml';
+
+// Lowercase segments separated by dots, e.g. 'orders.list.export_button.click'
+const MODULE_PATTERN = /^[a-z][a-z0-9_]*$/;
+const SHORT_NAME_PATTERN = /^[a-z][a-z0-9_]*(\.[a-z][a-z0-9_]*)+$/;
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const ROOT_KEYS = ['permissions', 'tenant', 'userTypes', 'roleTemplates', 'webhooks', 'schema', 'database'];
+const PERMISSION_KEYS = ['name', 'description', 'shortName'];
+const TENANT_KEYS = ['field', 'model'];
+const USER_TYPE_KEYS = ['scope', 'permissions', 'description'];
+const ROLE_TEMPLATE_KEYS = ['key', 'name', 'description', 'permissions'];
+const SCHEMA_KEYS = ['tables', 'tenantTable', 'userTable', 'columns'];
+const SCHEMA_TABLES = [
+  'roles',
+  'userRoles',
+  'userPermissions',
+  'auditLogs',
+  'tenantMemberships',
+  'webhookEndpoints',
+  'webhookDeliveries',
+  'webhookAttempts',
+  'migrations',
+];
+const WEBHOOK_KEYS = ['maxAttempts', 'baseDelayMs', 'maxDelayMs', 'timeoutMs', 'batchSize'];
+const WEBHOOK_HOST_KEYS = ['allowedHosts', 'blockedHosts'];
+const SCHEMA_COLUMNS = ['tenant', 'userId', 'roleId'];
+const DATABASE_KEYS = ['dialect', 'host', 'port', 'database', 'username', 'password'];
+const DIALECTS = ['postgres', 'mysql', 'sqlite'];
+const SCOPES = ['global', 'tenant', 'none'];
+
+/**
+ * Thrown when a declarative config fails validation; lists every issue found
+ */
+export class ConfigValidationError extends Error {
+  public issues: ConfigValidationIssue[];
+
+  constructor(issues: ConfigValidationIssue[], source?: string) {
+    const where = source ? ` in ${source}` : '';
+    super(`Invalid RBAC config${where}:\n` + issues.map(i => `  ${i.path}: ${i.message}`).join('\n'));
+    this.name = 'ConfigValidationError';
+    this.issues = issues;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function checkKeys(value: Record<string, any>, allowed: string[], path: string, issues: ConfigValidationIssue[]): void {
+  Object.keys(value)
+    .filter(key => !allowed.includes(key))
+    .forEach(key => issues.push({ path: path ? `${path}.${key}` : key, message: 'Unknown key' }));
+}
+
+/**
+ * Validate a parsed config object, collecting every problem rather than stopping at the first.
+ * Grants may reference the conditions of the code-only overrides it will be merged with.
+ */
+export function validateRBACConfig(input: unknown, overrides: Partial<RBACConfig> = {}): ConfigValidationResult {
+  const issues: ConfigValidationIssue[] = [];
+
+  if (!isPlainObject(input)) {
+    return { valid: false, issues: [{ path: '(root)', message: 'Config must be an object' }] };
+  }
+
+  checkKeys(input, ROOT_KEYS, '', issues);
+
+  // Permissions: modules of uniquely named, described permissions
+  const firstSeen = new Map<string, string>();
+  const permissions = input.permissions;
+  const issuesBeforePermissions = issues.length;
+
+  if (!isPlainObject(permissions) || Object.keys(permissions).length === 0) {
+    issues.push({ path: 'permissions', message: 'Must be an object with at least one module' });
+  } else {
+    Object.entries(permissions).forEach(([module, entries]) => {
+      const modulePath = `permissions.${module}`;
+
+      if (!MODULE_PATTERN.test(module)) {
+        issues.push({ path: modulePath, message: 'Module names must be lowercase letters, digits and underscores' });
+      }
+
+      if (!Array.isArray(entries) || entries.length === 0) {
+        issues.push({ path: modulePath, message: 'Must be a non-empty list of permissions' });
+        return;
+      }
+
+      entries.forEach((entry, index) => {
+        const entryPath = `${modulePath}[${index}]`;
+
+        if (!isPlainObject(entry)) {
+          issues.push({ path: entryPath, message: 'Must be an object' });
+          return;
+        }
+
+        checkKeys(entry, PERMISSION_KEYS, entryPath, issues);
+
+        if (!isNonEmptyString(entry.name)) {
+          issues.push({ path: `${entryPath}.name`, message: 'Required' });
+        }
+
+        if (!isNonEmptyString(entry.description)) {
+          issues.push({ path: `${entryPath}.description`, message: 'Required' });
+        }
+
+        if (!isNonEmptyString(entry.shortName)) {
+          issues.push({ path: `${entryPath}.shortName`, message: 'Required' });
+          return;
+        }
+
+        if (!SHORT_NAME_PATTERN.test(entry.shortName)) {
+          issues.push({
+            path: `${entryPath}.shortName`,
+            message: `'${entry.shortName}' must be dot-separated lowercase segments, e.g. 'orders.view'`,
+          });
+        } else if (!entry.shortName.startsWith(`${module}.`)) {
+          // Module wildcards ('orders.*') rely on the prefix matching the module
+          issues.push({ path: `${entryPath}.shortName`, message: `'${entry.shortName}' must start with '${module}.'` });
+        }
+
+        const duplicateOf = firstSeen.get(entry.shortName);
+        if (duplicateOf) {
+          issues.push({ path: `${entryPath}.shortName`, message: `Duplicate of ${duplicateOf}` });
+        } else {
+          firstSeen.set(entry.shortName, `${entryPath}.shortName`);
+        }
+      });
+    });
+  }
+
+  // Grants can only be checked once the permission list itself is sound
+  const engine = issues.length === issuesBeforePermissions
+    ? new PermissionEngine({ permissions, tenant: { field: 'tenantId', model: 'Tenant' }, conditions: overrides.conditions })
+    : null;
+
+  // Tenant block
+  const tenant = input.tenant;
+
+  if (!isPlainObject(tenant)) {
+    issues.push({ path: 'tenant', message: 'Required object with field and model' });
+  } else {
+    checkKeys(tenant, TENANT_KEYS, 'tenant', issues);
+
+    if (!isNonEmptyString(tenant.field) || !IDENTIFIER_PATTERN.test(tenant.field)) {
+      issues.push({ path: 'tenant.field', message: 'Must be an identifier such as shopId' });
+    }
+
+    if (!isNonEmptyString(tenant.model)) {
+      issues.push({ path: 'tenant.model', message: 'Required' });
+    }
+  }
+
+  // User types, whose implicit grants must reference known permissions
+  if (input.userTypes !== undefined) {
+    if (!isPlainObject(input.userTypes)) {
+      issues.push({ path: 'userTypes', message: 'Must be an object' });
+    } else {
+      Object.entries(input.userTypes).forEach(([userType, definition]) => {
+        const typePath = `userTypes.${userType}`;
+
+        if (!isPlainObject(definition)) {
+          issues.push({ path: typePath, message: 'Must be an object' });
+          return;
+        }
+
+        checkKeys(definition, USER_TYPE_KEYS, typePath, issues);
+
+        if (!SCOPES.includes(definition.scope)) {
+          issues.push({ path: `${typePath}.scope`, message: `Must be one of ${SCOPES.join(', ')}` });
+        }
+
+        if (definition.description !== undefined && typeof definition.description !== 'string') {
+          issues.push({ path: `${typePath}.description`, message: 'Must be a string' });
+        }
+
+        if (definition.permissions !== undefined) {
+          if (!Array.isArray(definition.permissions)) {
+            issues.push({ path: `${typePath}.permissions`, message: 'Must be a list of grants' });
+          } else {
+            definition.permissions.forEach((grant: unknown, index: number) => {
+              if (typeof grant !== 'string' || (engine && !engine.validateGrant(grant))) {
+                issues.push({ path: `${typePath}.permissions[${index}]`, message: `Unknown grant '${grant}'` });
+              }
+            });
+          }
+        }
+      });
+    }
+  }
+
+  // Role templates, whose grants must reference known permissions
+  if (input.roleTemplates !== undefined) {
+    if (!Array.isArray(input.roleTemplates)) {
+      issues.push({ path: 'roleTemplates', message: 'Must be a list of templates' });
+    } else {
+      const seenKeys = new Set<string>();
+
+      input.roleTemplates.forEach((template: unknown, index: number) => {
+        const templatePath = `roleTemplates[${index}]`;
+
+        if (!isPlainObject(template)) {
+          issues.push({ path: templatePath, message: 'Must be an object' });
+          return;
+        }
+
+        checkKeys(template, ROLE_TEMPLATE_KEYS, templatePath, issues);
+
+        if (!isNonEmptyString(template.key)) {
+          issues.push({ path: `${templatePath}.key`, message: 'Required' });
+        } else if (seenKeys.has(template.key)) {
+          issues.push({ path: `${templatePath}.key`, message: `Duplicate template key '${template.key}'` });
+        } else {
+          seenKeys.add(template.key);
+        }
+
+        if (!isNonEmptyString(template.name)) {
+          issues.push({ path: `${templatePath}.name`, message: 'Required' });
+        }
+
+        if (template.description !== undefined && typeof template.description !== 'string') {
+          issues.push({ path: `${templatePath}.description`, message: 'Must be a string' });
+        }
+
+        if (!Array.isArray(template.permissions)) {
+          issues.push({ path: `${templatePath}.permissions`, message: 'Must be a list of grants' });
+        } else {
+          template.permissions.forEach((grant: unknown, grantIndex: number) => {
+            if (typeof grant !== 'string' || (engine && !engine.validateGrant(grant))) {
+              issues.push({ path: `${templatePath}.permissions[${grantIndex}]`, message: `Unknown grant '${grant}'` });
+            }
+          });
+        }
+      });
+    }
+  }
+
+  // Webhook delivery settings
+  if (input.webhooks !== undefined) {
+    const webhooks = input.webhooks;
+
+    if (!isPlainObject(webhooks)) {
+      issues.push({ path: 'webhooks', message: 'Must be an object' });
+    } else {
+      checkKeys(webhooks, [...WEBHOOK_KEYS, ...WEBHOOK_HOST_KEYS], 'webhooks', issues);
+
+      WEBHOOK_KEYS
+        .filter(key => webhooks[key] !== undefined && !(Number.isInteger(webhooks[key]) && webhooks[key] > 0))
+        .forEach(key => issues.push({ path: `webhooks.${key}`, message: 'Must be a positive integer' }));
+
+      WEBHOOK_HOST_KEYS
+        .filter(key => webhooks[key] !== undefined
+          && !(Array.isArray(webhooks[key]) && webhooks[key].every(isNonEmptyString)))
+        .forEach(key => issues.push({ path: `webhooks.${key}`, message: 'Must be a list of host names' }));
+    }
+  }
+
+  // Table and column name overrides
+  if (input.schema !== undefined) {
+    const schema = input.schema;
+
+    if (!isPlainObject(schema)) {
+      issues.push({ path: 'schema', message: 'Must be an object' });
+    } else {
+      checkKeys(schema, SCHEMA_KEYS, 'schema', issues);
+
+      [['tables', SCHEMA_TABLES], ['columns', SCHEMA_COLUMNS]].forEach(([key, allowed]) => {
+        const names = schema[key as string];
+        if (names === undefined) return;
+
+        if (!isPlainObject(names)) {
+          issues.push({ path: `schema.${key}`, message: 'Must be an object' });
+          return;
+        }
+
+        checkKeys(names, allowed as string[], `schema.${key}`, issues);
+        Object.entries(names)
+          .filter(([, name]) => !isNonEmptyString(name))
+          .forEach(([name]) => issues.push({ path: `schema.${key}.${name}`, message: 'Must be a name' }));
+      });
+
+      ['tenantTable', 'userTable']
+        .filter(key => schema[key] !== undefined && schema[key] !== null && !isNonEmptyString(schema[key]))
+        .forEach(key => issues.push({ path: `schema.${key}`, message: 'Must be a table name or null' }));
+    }
+  }
+
+  // Database connection settings
+  if (input.database !== undefined) {
+    const database = input.database;
+
+    if (!isPlainObject(database)) {
+      issues.push({ path: 'database', message: 'Must be an object' });
+    } else {
+      checkKeys(database, DATABASE_KEYS, 'database', issues);
+
+      if (!DIALECTS.includes(database.dialect)) {
+        issues.push({ path: 'database.dialect', message: `Must be one of ${DIALECTS.join(', ')}` });
+      }
+
+      if (database.port !== undefined && !(Number.isInteger(database.port) && database.port > 0)) {
+        issues.push({ path: 'database.port', message: 'Must be a positive integer' });
+      }
+
+      ['host', 'database', 'username', 'password']
+        .filter(key => database[key] !== undefined && typeof database[key] !== 'string')
+        .forEach(key => issues.push({ path: `database.${key}`, message: 'Must be a string' }));
+    }
+  }
+
+  return { valid: issues.length === 0, issues };
+}
+
+/**
+ * Parse JSON or YAML text into a validated config. Code-only settings
+ * (conditions, cache) can be supplied through overrides.
+ */
+export function parseRBACConfig(
+  text: string,
+  format: ConfigFormat,
+  overrides: Partial<RBACConfig> = {},
+  source?: string
+): RBACConfig {
+  let parsed: unknown;
+
+  try {
+    parsed = format === 'yaml' ? parseYaml(text) : JSON.parse(text);
+  } catch (error: any) {
+    throw new ConfigValidationError([{ path: '(root)', message: `Could not parse ${format}: ${error.message}` }], source);
+  }
+
+  const { valid, issues } = validateRBACConfig(parsed, overrides);
+
+  if (!valid) {
+    throw new ConfigValidationError(issues, source);
+  }
+
+  return { ...(parsed as RBACConfig), ...overrides };
+}
+
+/**
+ * Read a .json, .yaml or .yml config file
+ */
+export async function loadRBACConfig(filePath: string, overrides: Partial<RBACConfig> = {}): Promise<RBACConfig> {
+  const extension = extname(filePath).toLowerCase();
+  let format: ConfigFormat;
+
+  if (extension === '.json') {
+    format = 'json';
+  } else if (extension === '.yaml' || extension === '.yml') {
+    format = 'yaml';
+  } else {
+    throw new Error(`Unsupported config file type: ${extension || filePath}`);
+  }
+
+  const text = await readFile(filePath, 'utf8');
+  return parseRBACConfig(text, format, overrides, filePath);
+}
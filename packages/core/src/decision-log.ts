@@ -0,0 +1,93 @@
+import { createWriteStream, WriteStream } from 'fs';
+import { PermissionDecision } from './types';
+
+export interface DecisionLogger {
+  log(decision: PermissionDecision): void;
+}
+
+/**
+ * Writes each decision to the console
+ */
+export class ConsoleDecisionLogger implements DecisionLogger {
+  private deniedOnly: boolean;
+
+  constructor(options: { deniedOnly?: boolean } = {}) {
+    this.deniedOnly = options.deniedOnly || false;
+  }
+
+  log(decision: PermissionDecision): void {
+    if (this.deniedOnly && decision.granted) return;
+
+    const outcome = decision.granted ? 'GRANTED' : 'DENIED';
+    console.log(
+      `[rbac] ${outcome} ${decision.permission} for user ${decision.userId ?? 'anonymous'}` +
+      ` (tenant ${decision.tenantId ?? '-'}): ${decision.reason}`
+    );
+  }
+}
+
+/**
+ * Keeps the most recent decisions in a fixed-size ring buffer
+ */
+export class MemoryDecisionLogger implements DecisionLogger {
+  private buffer: PermissionDecision[] = [];
+  private next = 0;
+  private capacity: number;
+
+  constructor(capacity: number = 1000) {
+    if (capacity < 1) {
+      throw new Error('Decision buffer capacity must be at least 1');
+    }
+    this.capacity = capacity;
+  }
+
+  log(decision: PermissionDecision): void {
+    if (this.buffer.length < this.capacity) {
+      this.buffer.push(decision);
+    } else {
+      this.buffer[this.next] = decision;
+    }
+    this.next = (this.next + 1) % this.capacity;
+  }
+
+  /**
+   * Get buffered decisions, oldest first, optionally filtered
+   */
+  getDecisions(filter?: (decision: PermissionDecision) => boolean): PermissionDecision[] {
+    const ordered = this.buffer.length < this.capacity
+      ? [...this.buffer]
+      : [...this.buffer.slice(this.next), ...this.buffer.slice(0, this.next)];
+
+    return filter ? ordered.filter(filter) : ordered;
+  }
+
+  clear(): void {
+    this.buffer = [];
+    this.next = 0;
+  }
+}
+
+/**
+ * Appends each decision as a JSON line to a file
+ */
+export class FileDecisionLogger implements DecisionLogger {
+  private stream: WriteStream;
+
+  constructor(filePath: string) {
+    this.stream = createWriteStream(filePath, { flags: 'a' });
+    this.stream.on('error', error => {
+      console.error('Decision log write error:', error);
+    });
+  }
+
+  log(decision: PermissionDecision): void {
+    this.stream.write(JSON.stringify(decision) + '\n');
+  }
+
+  /**
+   * Flush pending writes and close the file
+   */
+  close(): Promise<void> {
+    return new Promise(resolve => this.stream.end(resolve));
+  }
+}
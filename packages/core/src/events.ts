@@ -0,0 +1,204 @@
+import {
+  CreateRoleRequest,
+  Role,
+  TenantExport,
+  TenantProvisionOptions,
+  TenantProvisionResult,
+  TenantTeardownResult,
+  TenantUserType,
+  UpdateRoleRequest,
+  User,
+} from './types';
+import type { StorageAdapter } from './storage/adapter';
+
+interface EventContext {
+  tenantId: number;
+  actor: User;
+}
+
+export interface RoleChangeDiff {
+  changedFields: string[];       // e.g. ['name', 'permissions']
+  permissionsAdded: string[];
+  permissionsRemoved: string[];
+}
+
+/**
+ * Fields that changed between two versions of a role, with the permission diff
+ */
+export function diffRoles(before: Role, after: Role): RoleChangeDiff {
+  const fields: (keyof Role)[] = ['name', 'description', 'permissions', 'parentRoleIds'];
+
+  return {
+    changedFields: fields.filter(field => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null)) as string[],
+    permissionsAdded: after.permissions.filter(p => !before.permissions.includes(p)),
+    permissionsRemoved: before.permissions.filter(p => !after.permissions.includes(p)),
+  };
+}
+
+/**
+ * Payload of every event, keyed by event name. Emitted once the change is stored.
+ */
+export interface RBACEventMap {
+  'role.created': EventContext & { role: Role };
+  'role.updated': EventContext & { before: Role; after: Role; diff: RoleChangeDiff };
+  'role.deleted': EventContext & { role: Role };
+  'assignment.added': EventContext & { userId: number; role: Role; validFrom: Date | null; expiresAt: Date | null };
+  'assignment.removed': EventContext & { userId: number; role: Role };
+  'permission.granted': EventContext & { userId: number; permission: string };
+  'permission.revoked': EventContext & { userId: number; permission: string };
+  'membership.added': EventContext & { userId: number; userType: TenantUserType; previousType: TenantUserType | null };
+  'membership.removed': EventContext & { userId: number };
+  'tenant.provisioned': EventContext & { result: TenantProvisionResult };
+  'tenant.exported': EventContext & { result: TenantExport };
+  'tenant.removed': EventContext & { result: TenantTeardownResult };
+}
+
+/**
+ * Payload passed to before-hooks, describing the change about to be made
+ */
+export interface RBACBeforeEventMap {
+  'role.created': EventContext & { data: CreateRoleRequest };
+  'role.updated': EventContext & { role: Role; changes: UpdateRoleRequest };
+  'role.deleted': EventContext & { role: Role };
+  'assignment.added': EventContext & { userId: number; role: Role; validFrom: Date | null; expiresAt: Date | null };
+  'assignment.removed': EventContext & { userId: number; role: Role };
+  'permission.granted': EventContext & { userId: number; permission: string };
+  'permission.revoked': EventContext & { userId: number; permission: string };
+  'membership.added': EventContext & { userId: number; userType: TenantUserType };
+  'membership.removed': EventContext & { userId: number };
+  'tenant.provisioned': EventContext & { options: TenantProvisionOptions };
+  'tenant.removed': EventContext;
+}
+
+export type RBACEventName = keyof RBACEventMap;
+export type RBACBeforeEventName = keyof RBACBeforeEventMap;
+
+export type RBACEventListener<E extends RBACEventName> = (payload: RBACEventMap[E]) => void | Promise<void>;
+
+/**
+ * Called inside the transaction that makes the change, with the storage to write
+ * through. Throwing rolls the change back.
+ */
+export type RBACTransactionListener<E extends RBACEventName> = (
+  payload: RBACEventMap[E],
+  storage: StorageAdapter
+) => void | Promise<void>;
+
+/**
+ * Return `{ veto: reason }` to stop the change; throwing aborts it as well
+ */
+export type RBACBeforeHook<E extends RBACBeforeEventName> = (
+  payload: RBACBeforeEventMap[E]
+) => void | { veto: string } | Promise<void | { veto: string }>;
+
+/**
+ * Thrown by a mutating method when a before-hook vetoes it
+ */
+export class RBACVetoError extends Error {
+  public event: RBACBeforeEventName;
+  public reason: string;
+
+  constructor(event: RBACBeforeEventName, reason: string) {
+    super(`${event} vetoed: ${reason}`);
+    this.name = 'RBACVetoError';
+    this.event = event;
+    this.reason = reason;
+  }
+}
+
+/**
+ * Typed publish/subscribe for RBAC events. Before-hooks run ahead of a change
+ * and may veto it; transaction listeners run inside the change's transaction
+ * and commit or roll back with it; listeners run after the change has been
+ * committed, so a failing listener is logged rather than undoing it.
+ */
+export class RBACEventBus {
+  private listeners = new Map<RBACEventName, Set<RBACEventListener<any>>>();
+  private transactionListeners = new Map<RBACEventName, Set<RBACTransactionListener<any>>>();
+  private hooks = new Map<RBACBeforeEventName, Set<RBACBeforeHook<any>>>();
+
+  /**
+   * Subscribe to an event, returning a function that unsubscribes
+   */
+  on<E extends RBACEventName>(event: E, listener: RBACEventListener<E>): () => void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(listener);
+
+    return () => this.off(event, listener);
+  }
+
+  off<E extends RBACEventName>(event: E, listener: RBACEventListener<E>): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  /**
+   * Register a hook that runs before a change, returning a function that removes it
+   */
+  before<E extends RBACBeforeEventName>(event: E, hook: RBACBeforeHook<E>): () => void {
+    if (!this.hooks.has(event)) {
+      this.hooks.set(event, new Set());
+    }
+    this.hooks.get(event)!.add(hook);
+
+    return () => {
+      this.hooks.get(event)?.delete(hook);
+    };
+  }
+
+  /**
+   * Register a listener that runs inside the change's transaction, for writes
+   * that must commit with it. Returns a function that removes it.
+   */
+  inTransaction<E extends RBACEventName>(event: E, listener: RBACTransactionListener<E>): () => void {
+    if (!this.transactionListeners.has(event)) {
+      this.transactionListeners.set(event, new Set());
+    }
+    this.transactionListeners.get(event)!.add(listener);
+
+    return () => {
+      this.transactionListeners.get(event)?.delete(listener);
+    };
+  }
+
+  /**
+   * Run before-hooks in registration order, throwing RBACVetoError at the first veto
+   */
+  async emitBefore<E extends RBACBeforeEventName>(event: E, payload: RBACBeforeEventMap[E]): Promise<void> {
+    for (const hook of Array.from(this.hooks.get(event) || [])) {
+      const result = await hook(payload);
+
+      if (result && typeof result.veto === 'string') {
+        throw new RBACVetoError(event, result.veto);
+      }
+    }
+  }
+
+  /**
+   * Call each transaction listener with the transaction's storage. Errors are
+   * not caught, so they roll the transaction back.
+   */
+  async emitInTransaction<E extends RBACEventName>(
+    event: E,
+    payload: RBACEventMap[E],
+    storage: StorageAdapter
+  ): Promise<void> {
+    for (const listener of Array.from(this.transactionListeners.get(event) || [])) {
+      await listener(payload, storage);
+    }
+  }
+
+  /**
+   * Call each listener in subscription order, waiting for async ones
+   */
+  async emit<E extends RBACEventName>(event: E, payload: RBACEventMap[E]): Promise<void> {
+    for (const listener of Array.from(this.listeners.get(event) || [])) {
+      try {
+        await listener(payload);
+      } catch (error) {
+        console.error(`[rbac] Listener for ${event} failed:`, error);
+      }
+    }
+  }
+}
@@ -1,18 +1,153 @@
 export { RBAC } from './rbac';
-export { PermissionEngine } from './permission-engine';
+export { PermissionEngine, DEFAULT_USER_TYPES } from './permission-engine';
 export { RoleService } from './services/role-service';
-export { createModels, createRoleModel, createUserRoleModel } from './models';
+export { UserPermissionService } from './services/user-permission-service';
+export { AuditService } from './services/audit-service';
+export { MembershipService } from './services/membership-service';
+export { TenantService } from './services/tenant-service';
+export { TenantBundleService } from './services/bundle-service';
+export {
+  WebhookService,
+  WEBHOOK_EVENTS,
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from './services/webhook-service';
+export { RBACEventBus, RBACVetoError } from './events';
+export type {
+  RBACEventMap,
+  RBACEventName,
+  RBACEventListener,
+  RBACTransactionListener,
+  RBACBeforeEventMap,
+  RBACBeforeEventName,
+  RBACBeforeHook,
+  RoleChangeDiff,
+} from './events';
+export { ConsoleDecisionLogger, MemoryDecisionLogger, FileDecisionLogger } from './decision-log';
+export type { DecisionLogger } from './decision-log';
+export { PermissionCache, MemoryCacheStore } from './permission-cache';
+export { Migrator } from './migrator';
+export type { MigrationStatus } from './migrator';
+export { migrations } from './migrations';
+export type { RBACMigration, MigrationContext } from './migrations';
+export type { CacheStore } from './permission-cache';
+export { PermissionClaimCodec } from './permission-claims';
+export { loadRBACConfig, parseRBACConfig, validateRBACConfig, ConfigValidationError } from './config-loader';
+export type { ConfigFormat } from './config-loader';
+export { generatePermissionsModule } from './codegen';
+export type { CodegenOptions } from './codegen';
+export { SequelizeStorageAdapter, MemoryStorageAdapter } from './storage';
+export type {
+  StorageAdapter,
+  RoleAssignment,
+  RoleData,
+  DirectPermission,
+  AuditEntryData,
+  AuditEntryFilter,
+  WebhookEndpointRecord,
+  WebhookEndpointData,
+  WebhookDeliveryData,
+  WebhookDeliveryChanges,
+  WebhookAttemptData,
+  StoragePage,
+  SequelizeStorageModels,
+} from './storage';
+export {
+  createModels,
+  createRoleModel,
+  createUserRoleModel,
+  createUserPermissionModel,
+  activeUserRoleWhere,
+  createAuditLogModel,
+  createTenantMembershipModel,
+  createWebhookEndpointModel,
+  createWebhookDeliveryModel,
+  createWebhookAttemptModel,
+  resolveSchema,
+} from './models';
+export type {
+  ResolvedSchema,
+  RoleAttributes,
+  RoleCreationAttributes,
+  UserRoleAttributes,
+  UserRoleCreationAttributes,
+  UserPermissionAttributes,
+  UserPermissionCreationAttributes,
+  AuditLogAttributes,
+  AuditLogCreationAttributes,
+  TenantMembershipAttributes,
+  TenantMembershipCreationAttributes,
+  WebhookEndpointAttributes,
+  WebhookEndpointCreationAttributes,
+  WebhookDeliveryAttributes,
+  WebhookDeliveryCreationAttributes,
+  WebhookAttemptAttributes,
+  WebhookAttemptCreationAttributes,
+} from './models';
 
 export type {
   Permission,
   PermissionModule,
+  PermissionMap,
+  PermissionName,
   RBACConfig,
+  RBACSchemaConfig,
+  RBACTable,
+  PermissionCacheOptions,
+  PermissionClaim,
+  PermissionClaimOptions,
   User,
   Role,
   CreateRoleRequest,
+  RoleTemplate,
+  RoleTemplateDiff,
   UpdateRoleRequest,
   AssignRoleRequest,
+  RoleAssignmentOptions,
+  BulkRoleStatus,
+  BulkRoleResult,
   UserType,
+  UserTypeScope,
+  UserTypeDefinition,
+  TenantUserType,
+  TenantMembership,
+  TenantProvisionOptions,
+  TenantProvisionResult,
+  TenantExport,
+  TenantTeardownResult,
+  TenantBundle,
+  TenantBundleRole,
+  TenantBundleAssignment,
+  TenantExportOptions,
+  TenantImportMode,
+  TenantImportOptions,
+  TenantImportConflictType,
+  TenantImportConflict,
+  TenantImportReport,
+  ActiveTenantContext,
   PermissionValidationResult,
+  ConfigValidationIssue,
+  ConfigValidationResult,
   UserPermissionCheck,
+  PermissionContext,
+  PermissionCondition,
+  PermissionConditionArgs,
+  PermissionDecision,
+  PermissionDecisionReason,
+  PermissionExplanation,
+  GrantSource,
+  AuditAction,
+  AuditLogEntry,
+  AuditLogQuery,
+  AuditLogPage,
+  WebhookOptions,
+  WebhookEndpoint,
+  CreateWebhookRequest,
+  UpdateWebhookRequest,
+  WebhookDeliveryStatus,
+  WebhookDelivery,
+  WebhookAttempt,
+  WebhookDeliveryQuery,
+  WebhookDeliveryPage,
 } from './types';
+export type { AuditRecord } from './services/audit-service';
@@ -0,0 +1,47 @@
+import { DataTypes, Dialect } from 'sequelize';
+import { referenceTo } from '../models/schema';
+import { listColumn } from '../models/column-types';
+import { RBACMigration } from './types';
+
+const timestamps = {
+  created_at: { type: DataTypes.DATE, allowNull: false },
+  updated_at: { type: DataTypes.DATE, allowNull: false },
+};
+
+export const createRoles: RBACMigration = {
+  name: '001-create-roles',
+
+  async up({ queryInterface, schema, transaction }) {
+    const { tables, columns } = schema;
+    const dialect = queryInterface.sequelize.getDialect() as Dialect;
+
+    await queryInterface.createTable(tables.roles, {
+      id: { type: DataTypes.INTEGER, autoIncrement: true, primaryKey: true },
+      name: { type: DataTypes.STRING(100), allowNull: false },
+      description: { type: DataTypes.TEXT, allowNull: true },
+      [columns.tenant]: { type: DataTypes.INTEGER, allowNull: false, ...referenceTo(schema.tenantTable) },
+      permissions: listColumn(dialect, DataTypes.STRING),
+      ...timestamps,
+    }, { transaction });
+    await queryInterface.addIndex(tables.roles, [columns.tenant], { transaction });
+    await queryInterface.addIndex(tables.roles, [columns.tenant, 'name'], { unique: true, transaction });
+
+    await queryInterface.createTable(tables.userRoles, {
+      id: { type: DataTypes.INTEGER, autoIncrement: true, primaryKey: true },
+      [columns.userId]: { type: DataTypes.INTEGER, allowNull: false, ...referenceTo(schema.userTable) },
+      [columns.roleId]: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        references: { model: tables.roles, key: 'id' },
+      },
+      ...timestamps,
+    }, { transaction });
+    await queryInterface.addIndex(tables.userRoles, [columns.userId], { transaction });
+    await queryInterface.addIndex(tables.userRoles, [columns.roleId], { transaction });
+  },
+
+  async down({ queryInterface, schema, transaction }) {
+    await queryInterface.dropTable(schema.tables.userRoles, { transaction });
+    await queryInterface.dropTable(schema.tables.roles, { transaction });
+  },
+};
@@ -0,0 +1,29 @@
+import { DataTypes, Dialect } from 'sequelize';
+import { listColumn } from '../models/column-types';
+import { RBACMigration } from './types';
+
+export const addRoleInheritance: RBACMigration = {
+  name: '002-add-role-inheritance',
+
+  async up({ queryInterface, schema, transaction }) {
+    const dialect = queryInterface.sequelize.getDialect() as Dialect;
+    const column = listColumn(dialect, DataTypes.INTEGER);
+
+    // Existing rows need a value before a NOT NULL JSON column can be added.
+    // SQLite accepts a literal default; changeColumn there would rebuild the
+    // table and turn the (tenant, name) unique index into per-column ones.
+    if (dialect === 'postgres') {
+      await queryInterface.addColumn(schema.tables.roles, 'parent_role_ids', column, { transaction });
+    } else if (dialect === 'sqlite') {
+      await queryInterface.addColumn(schema.tables.roles, 'parent_role_ids', { ...column, defaultValue: [] }, { transaction });
+    } else {
+      await queryInterface.addColumn(schema.tables.roles, 'parent_role_ids', { ...column, allowNull: true }, { transaction });
+      await queryInterface.bulkUpdate(schema.tables.roles, { parent_role_ids: '[]' }, {}, { transaction });
+      await queryInterface.changeColumn(schema.tables.roles, 'parent_role_ids', column, { transaction });
+    }
+  },
+
+  async down({ queryInterface, schema, transaction }) {
+    await queryInterface.removeColumn(schema.tables.roles, 'parent_role_ids', { transaction });
+  },
+};
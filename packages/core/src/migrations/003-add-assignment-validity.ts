@@ -0,0 +1,22 @@
+import { DataTypes } from 'sequelize';
+import { RBACMigration } from './types';
+
+export const addAssignmentValidity: RBACMigration = {
+  name: '003-add-assignment-validity',
+
+  async up({ queryInterface, schema, transaction }) {
+    const table = schema.tables.userRoles;
+
+    await queryInterface.addColumn(table, 'valid_from', { type: DataTypes.DATE, allowNull: true }, { transaction });
+    await queryInterface.addColumn(table, 'expires_at', { type: DataTypes.DATE, allowNull: true }, { transaction });
+    await queryInterface.addIndex(table, ['expires_at'], { transaction });
+  },
+
+  async down({ queryInterface, schema, transaction }) {
+    const table = schema.tables.userRoles;
+
+    await queryInterface.removeIndex(table, ['expires_at'], { transaction });
+    await queryInterface.removeColumn(table, 'expires_at', { transaction });
+    await queryInterface.removeColumn(table, 'valid_from', { transaction });
+  },
+};
@@ -0,0 +1,29 @@
+import { DataTypes } from 'sequelize';
+import { referenceTo } from '../models/schema';
+import { RBACMigration } from './types';
+
+export const createUserPermissions: RBACMigration = {
+  name: '004-create-user-permissions',
+
+  async up({ queryInterface, schema, transaction }) {
+    const { tables, columns } = schema;
+
+    await queryInterface.createTable(tables.userPermissions, {
+      id: { type: DataTypes.INTEGER, autoIncrement: true, primaryKey: true },
+      [columns.userId]: { type: DataTypes.INTEGER, allowNull: false, ...referenceTo(schema.userTable) },
+      [columns.tenant]: { type: DataTypes.INTEGER, allowNull: false, ...referenceTo(schema.tenantTable) },
+      permission: { type: DataTypes.STRING, allowNull: false },
+      created_at: { type: DataTypes.DATE, allowNull: false },
+      updated_at: { type: DataTypes.DATE, allowNull: false },
+    }, { transaction });
+    await queryInterface.addIndex(tables.userPermissions, [columns.userId, columns.tenant], { transaction });
+    await queryInterface.addIndex(tables.userPermissions, [columns.userId, columns.tenant, 'permission'], {
+      unique: true,
+      transaction,
+    });
+  },
+
+  async down({ queryInterface, schema, transaction }) {
+    await queryInterface.dropTable(schema.tables.userPermissions, { transaction });
+  },
+};
@@ -0,0 +1,30 @@
+import { DataTypes } from 'sequelize';
+import { RBACMigration } from './types';
+
+export const createAuditLogs: RBACMigration = {
+  name: '005-create-audit-logs',
+
+  async up({ queryInterface, schema, transaction }) {
+    const { tables, columns } = schema;
+
+    await queryInterface.createTable(tables.auditLogs, {
+      id: { type: DataTypes.INTEGER, autoIncrement: true, primaryKey: true },
+      actor_id: { type: DataTypes.INTEGER, allowNull: true },
+      [columns.tenant]: { type: DataTypes.INTEGER, allowNull: false },
+      action: { type: DataTypes.STRING(50), allowNull: false },
+      [columns.roleId]: { type: DataTypes.INTEGER, allowNull: true },
+      [columns.userId]: { type: DataTypes.INTEGER, allowNull: true },
+      before: { type: DataTypes.JSON, allowNull: true },
+      after: { type: DataTypes.JSON, allowNull: true },
+      permissions_added: { type: DataTypes.JSON, allowNull: false },
+      permissions_removed: { type: DataTypes.JSON, allowNull: false },
+      created_at: { type: DataTypes.DATE, allowNull: false },
+    }, { transaction });
+    await queryInterface.addIndex(tables.auditLogs, [columns.tenant, 'created_at'], { transaction });
+    await queryInterface.addIndex(tables.auditLogs, ['actor_id'], { transaction });
+  },
+
+  async down({ queryInterface, schema, transaction }) {
+    await queryInterface.dropTable(schema.tables.auditLogs, { transaction });
+  },
+};
@@ -0,0 +1,26 @@
+import { DataTypes } from 'sequelize';
+import { referenceTo } from '../models/schema';
+import { RBACMigration } from './types';
+
+export const createTenantMemberships: RBACMigration = {
+  name: '006-create-tenant-memberships',
+
+  async up({ queryInterface, schema, transaction }) {
+    const { tables, columns } = schema;
+
+    await queryInterface.createTable(tables.tenantMemberships, {
+      id: { type: DataTypes.INTEGER, autoIncrement: true, primaryKey: true },
+      [columns.userId]: { type: DataTypes.INTEGER, allowNull: false, ...referenceTo(schema.userTable) },
+      [columns.tenant]: { type: DataTypes.INTEGER, allowNull: false, ...referenceTo(schema.tenantTable) },
+      user_type: { type: DataTypes.STRING(20), allowNull: false, defaultValue: 'user' },
+      created_at: { type: DataTypes.DATE, allowNull: false },
+      updated_at: { type: DataTypes.DATE, allowNull: false },
+    }, { transaction });
+    await queryInterface.addIndex(tables.tenantMemberships, [columns.userId], { transaction });
+    await queryInterface.addIndex(tables.tenantMemberships, [columns.userId, columns.tenant], { unique: true, transaction });
+  },
+
+  async down({ queryInterface, schema, transaction }) {
+    await queryInterface.dropTable(schema.tables.tenantMemberships, { transaction });
+  },
+};
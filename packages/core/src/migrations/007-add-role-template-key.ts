@@ -0,0 +1,20 @@
+import { DataTypes } from 'sequelize';
+import { RBACMigration } from './types';
+
+export const addRoleTemplateKey: RBACMigration = {
+  name: '007-add-role-template-key',
+
+  async up({ queryInterface, schema, transaction }) {
+    const table = schema.tables.roles;
+
+    await queryInterface.addColumn(table, 'template_key', { type: DataTypes.STRING(100), allowNull: true }, { transaction });
+    await queryInterface.addIndex(table, ['template_key'], { transaction });
+  },
+
+  async down({ queryInterface, schema, transaction }) {
+    const table = schema.tables.roles;
+
+    await queryInterface.removeIndex(table, ['template_key'], { transaction });
+    await queryInterface.removeColumn(table, 'template_key', { transaction });
+  },
+};
@@ -0,0 +1,61 @@
+import { DataTypes, Dialect } from 'sequelize';
+import { listColumn } from '../models/column-types';
+import { referenceTo } from '../models/schema';
+import { RBACMigration } from './types';
+
+export const createWebhooks: RBACMigration = {
+  name: '008-create-webhooks',
+
+  async up({ queryInterface, schema, transaction }) {
+    const { tables, columns } = schema;
+    const dialect = queryInterface.sequelize.getDialect() as Dialect;
+
+    await queryInterface.createTable(tables.webhookEndpoints, {
+      id: { type: DataTypes.INTEGER, autoIncrement: true, primaryKey: true },
+      [columns.tenant]: { type: DataTypes.INTEGER, allowNull: false, ...referenceTo(schema.tenantTable) },
+      url: { type: DataTypes.STRING(2048), allowNull: false },
+      secret: { type: DataTypes.STRING(128), allowNull: false },
+      events: listColumn(dialect, DataTypes.STRING),
+      description: { type: DataTypes.TEXT, allowNull: true },
+      active: { type: DataTypes.BOOLEAN, allowNull: false, defaultValue: true },
+      created_at: { type: DataTypes.DATE, allowNull: false },
+      updated_at: { type: DataTypes.DATE, allowNull: false },
+    }, { transaction });
+    await queryInterface.addIndex(tables.webhookEndpoints, [columns.tenant], { transaction });
+
+    // The outbox: one row per event and endpoint, retried until delivered or failed
+    await queryInterface.createTable(tables.webhookDeliveries, {
+      id: { type: DataTypes.INTEGER, autoIncrement: true, primaryKey: true },
+      endpoint_id: { type: DataTypes.INTEGER, allowNull: false, ...referenceTo(tables.webhookEndpoints) },
+      [columns.tenant]: { type: DataTypes.INTEGER, allowNull: false },
+      event: { type: DataTypes.STRING(50), allowNull: false },
+      payload: { type: DataTypes.JSON, allowNull: false },
+      status: { type: DataTypes.STRING(20), allowNull: false, defaultValue: 'pending' },
+      attempts: { type: DataTypes.INTEGER, allowNull: false, defaultValue: 0 },
+      next_attempt_at: { type: DataTypes.DATE, allowNull: true },
+      last_error: { type: DataTypes.TEXT, allowNull: true },
+      delivered_at: { type: DataTypes.DATE, allowNull: true },
+      created_at: { type: DataTypes.DATE, allowNull: false },
+      updated_at: { type: DataTypes.DATE, allowNull: false },
+    }, { transaction });
+    await queryInterface.addIndex(tables.webhookDeliveries, ['status', 'next_attempt_at'], { transaction });
+    await queryInterface.addIndex(tables.webhookDeliveries, [columns.tenant, 'created_at'], { transaction });
+
+    await queryInterface.createTable(tables.webhookAttempts, {
+      id: { type: DataTypes.INTEGER, autoIncrement: true, primaryKey: true },
+      delivery_id: { type: DataTypes.INTEGER, allowNull: false, ...referenceTo(tables.webhookDeliveries) },
+      attempt: { type: DataTypes.INTEGER, allowNull: false },
+      response_status: { type: DataTypes.INTEGER, allowNull: true },
+      error: { type: DataTypes.TEXT, allowNull: true },
+      duration_ms: { type: DataTypes.INTEGER, allowNull: false },
+      created_at: { type: DataTypes.DATE, allowNull: false },
+    }, { transaction });
+    await queryInterface.addIndex(tables.webhookAttempts, ['delivery_id'], { transaction });
+  },
+
+  async down({ queryInterface, schema, transaction }) {
+    await queryInterface.dropTable(schema.tables.webhookAttempts, { transaction });
+    await queryInterface.dropTable(schema.tables.webhookDeliveries, { transaction });
+    await queryInterface.dropTable(schema.tables.webhookEndpoints, { transaction });
+  },
+};
@@ -0,0 +1,28 @@
+import { RBACMigration } from './types';
+
+export const addAssignmentUniqueIndex: RBACMigration = {
+  name: '009-add-assignment-unique-index',
+
+  async up({ queryInterface, schema, transaction }) {
+    const { tables, columns } = schema;
+    const quote = (identifier: string) => queryInterface.quoteIdentifier(identifier);
+    const table = quote(tables.userRoles);
+    const userId = quote(columns.userId);
+    const roleId = quote(columns.roleId);
+
+    // Keep the oldest row of each duplicated pair; the derived table lets MySQL
+    // read from the table it deletes from
+    await queryInterface.sequelize.query(
+      `DELETE FROM ${table} WHERE id NOT IN (` +
+        `SELECT id FROM (SELECT MIN(id) AS id FROM ${table} GROUP BY ${userId}, ${roleId}) AS kept)`,
+      { transaction }
+    );
+    await queryInterface.addIndex(tables.userRoles, [columns.userId, columns.roleId], { unique: true, transaction });
+  },
+
+  async down({ queryInterface, schema, transaction }) {
+    const { tables, columns } = schema;
+
+    await queryInterface.removeIndex(tables.userRoles, [columns.userId, columns.roleId], { transaction });
+  },
+};
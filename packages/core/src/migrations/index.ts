@@ -0,0 +1,25 @@
+import { RBACMigration } from './types';
+import { createRoles } from './001-create-roles';
+import { addRoleInheritance } from './002-add-role-inheritance';
+import { addAssignmentValidity } from './003-add-assignment-validity';
+import { createUserPermissions } from './004-create-user-permissions';
+import { createAuditLogs } from './005-create-audit-logs';
+import { createTenantMemberships } from './006-create-tenant-memberships';
+import { addRoleTemplateKey } from './007-add-role-template-key';
+import { createWebhooks } from './008-create-webhooks';
+import { addAssignmentUniqueIndex } from './009-add-assignment-unique-index';
+
+// Applied in order; never reorder or edit a released migration, add a new one
+export const migrations: RBACMigration[] = [
+  createRoles,
+  addRoleInheritance,
+  addAssignmentValidity,
+  createUserPermissions,
+  createAuditLogs,
+  createTenantMemberships,
+  addRoleTemplateKey,
+  createWebhooks,
+  addAssignmentUniqueIndex,
+];
+
+export type { RBACMigration, MigrationContext } from './types';
@@ -0,0 +1,14 @@
+import { QueryInterface, Transaction } from 'sequelize';
+import { ResolvedSchema } from '../models/schema';
+
+export interface MigrationContext {
+  queryInterface: QueryInterface;
+  schema: ResolvedSchema;
+  transaction?: Transaction; // Pass to every query so the migration applies atomically
+}
+
+export interface RBACMigration {
+  name: string;
+  up(context: MigrationContext): Promise<void>;
+  down(context: MigrationContext): Promise<void>;
+}
@@ -0,0 +1,188 @@
+import { DataTypes, Dialect, QueryInterface, QueryTypes, Sequelize, Transaction } from 'sequelize';
+import { ResolvedSchema } from './models/schema';
+import { migrations as builtInMigrations, RBACMigration } from './migrations';
+
+export interface MigrationStatus {
+  name: string;
+  applied: boolean;
+  appliedAt: Date | null;
+}
+
+interface MigrationRow {
+  name: string;
+  applied_at: string | Date;
+}
+
+// Seconds MySQL waits for another instance to release the migration lock
+const MYSQL_LOCK_TIMEOUT_SECONDS = 60;
+
+/**
+ * Applies the versioned RBAC migrations and records them in a tracking table.
+ * Each migration runs in its own transaction under a database lock, so
+ * instances starting together apply it once and a failed migration leaves
+ * nothing behind. MySQL commits DDL implicitly, so there the lock only
+ * serializes instances.
+ */
+export class Migrator {
+  private sequelize: Sequelize;
+  private queryInterface: QueryInterface;
+  private schema: ResolvedSchema;
+  private migrations: RBACMigration[];
+
+  constructor(sequelize: Sequelize, schema: ResolvedSchema, migrations: RBACMigration[] = builtInMigrations) {
+    this.sequelize = sequelize;
+    this.queryInterface = sequelize.getQueryInterface();
+    this.schema = schema;
+    this.migrations = migrations;
+  }
+
+  /**
+   * Apply every pending migration in order, returning the names applied
+   */
+  async up(): Promise<string[]> {
+    const appliedNames: string[] = [];
+
+    for (;;) {
+      // Re-read under the lock, another instance may have applied it meanwhile
+      const name = await this.locked(async transaction => {
+        const applied = await this.getApplied(transaction);
+        const migration = this.migrations.find(candidate => !applied.has(candidate.name));
+        if (!migration) return null;
+
+        await migration.up({ queryInterface: this.queryInterface, schema: this.schema, transaction });
+        await this.markApplied(migration.name, transaction);
+        return migration.name;
+      });
+
+      if (!name) break;
+      appliedNames.push(name);
+    }
+
+    return appliedNames;
+  }
+
+  /**
+   * Revert the most recently applied migrations, returning the names reverted
+   */
+  async down(steps: number = 1): Promise<string[]> {
+    const reverted: string[] = [];
+
+    while (reverted.length < steps) {
+      const name = await this.locked(async transaction => {
+        const applied = await this.getApplied(transaction);
+        const migration = this.migrations.filter(candidate => applied.has(candidate.name)).pop();
+        if (!migration) return null;
+
+        await migration.down({ queryInterface: this.queryInterface, schema: this.schema, transaction });
+        await this.queryInterface.bulkDelete(this.schema.tables.migrations, { name: migration.name }, { transaction });
+        return migration.name;
+      });
+
+      if (!name) break;
+      reverted.push(name);
+    }
+
+    return reverted;
+  }
+
+  /**
+   * List every known migration and whether it has been applied
+   */
+  async status(): Promise<MigrationStatus[]> {
+    const applied = await this.getApplied();
+
+    return this.migrations.map(migration => ({
+      name: migration.name,
+      applied: applied.has(migration.name),
+      appliedAt: applied.get(migration.name) || null,
+    }));
+  }
+
+  /**
+   * Record migrations as applied without running them, for databases whose
+   * tables already exist (e.g. created by sync()). Stops after `upTo` if given.
+   */
+  async baseline(upTo?: string): Promise<string[]> {
+    if (upTo && !this.migrations.some(migration => migration.name === upTo)) {
+      throw new Error(`Unknown migration: ${upTo}`);
+    }
+
+    return this.locked(async transaction => {
+      const applied = await this.getApplied(transaction);
+      const marked: string[] = [];
+
+      for (const migration of this.migrations) {
+        if (!applied.has(migration.name)) {
+          await this.markApplied(migration.name, transaction);
+          marked.push(migration.name);
+        }
+        if (migration.name === upTo) break;
+      }
+
+      return marked;
+    });
+  }
+
+  /**
+   * Run work in a transaction holding the migration lock. Postgres and SQL
+   * Server release it on commit or rollback; SQLite holds its write lock for
+   * an immediate transaction; MySQL needs a named lock released by hand.
+   */
+  private async locked<T>(work: (transaction: Transaction) => Promise<T>): Promise<T> {
+    const dialect = this.sequelize.getDialect() as Dialect;
+    const lockName = this.schema.tables.migrations;
+    const type = dialect === 'sqlite' ? Transaction.TYPES.IMMEDIATE : undefined;
+
+    return this.sequelize.transaction({ type }, async transaction => {
+      if (dialect === 'postgres') {
+        await this.sequelize.query('SELECT pg_advisory_xact_lock(hashtext(:lockName))', {
+          replacements: { lockName },
+          type: QueryTypes.SELECT,
+          transaction,
+        });
+      } else if (dialect === 'mssql') {
+        await this.sequelize.query(
+          "EXEC sp_getapplock @Resource = :lockName, @LockMode = 'Exclusive', @LockOwner = 'Transaction'",
+          { replacements: { lockName }, transaction }
+        );
+      } else if (dialect === 'mysql' || dialect === 'mariadb') {
+        const [{ acquired }] = await this.sequelize.query<{ acquired: number | null }>(
+          'SELECT GET_LOCK(:lockName, :timeout) AS acquired',
+          { replacements: { lockName, timeout: MYSQL_LOCK_TIMEOUT_SECONDS }, type: QueryTypes.SELECT, transaction }
+        );
+
+        if (acquired !== 1) {
+          throw new Error('Timed out waiting for the migration lock');
+        }
+
+        try {
+          return await work(transaction);
+        } finally {
+          await this.sequelize.query('SELECT RELEASE_LOCK(:lockName)', {
+            replacements: { lockName },
+            type: QueryTypes.SELECT,
+            transaction,
+          });
+        }
+      }
+
+      return work(transaction);
+    });
+  }
+
+  private async getApplied(transaction?: Transaction): Promise<Map<string, Date>> {
+    await this.queryInterface.createTable(this.schema.tables.migrations, {
+      name: { type: DataTypes.STRING, allowNull: false, primaryKey: true },
+      applied_at: { type: DataTypes.DATE, allowNull: false },
+    }, { transaction });
+
+    const rows = await this.queryInterface.select(null, this.schema.tables.migrations, { transaction }) as MigrationRow[];
+    return new Map(rows.map(row => [row.name, new Date(row.applied_at)]));
+  }
+
+  private async markApplied(name: string, transaction: Transaction): Promise<void> {
+    await this.queryInterface.bulkInsert(this.schema.tables.migrations, [
+      { name, applied_at: new Date() },
+    ], { transaction });
+  }
+}
@@ -0,0 +1,122 @@
+import { Model, DataTypes, Sequelize } from 'sequelize';
+import { AuditAction, RBACConfig } from '../types';
+import { resolveSchema, referenceTo } from './schema';
+
+/**
+ * Columns of the audit log table, apart from the tenant column named by config.tenant.field
+ */
+export interface AuditLogAttributes {
+  id: number;
+  actorId: number | null;
+  action: AuditAction;
+  roleId: number | null;
+  userId: number | null;
+  before: Record<string, any> | null;
+  after: Record<string, any> | null;
+  permissionsAdded: string[];
+  permissionsRemoved: string[];
+  readonly createdAt?: Date;
+}
+
+export interface AuditLogCreationAttributes {
+  id?: number;
+  actorId?: number | null;
+  action: AuditAction;
+  roleId?: number | null;
+  userId?: number | null;
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+  permissionsAdded?: string[];
+  permissionsRemoved?: string[];
+}
+
+export function createAuditLogModel(sequelize: Sequelize, config: RBACConfig) {
+  const schema = resolveSchema(config);
+
+  class AuditLog extends Model<AuditLogAttributes, AuditLogCreationAttributes> {
+    public id!: number;
+    public actorId!: number | null;
+    public action!: AuditAction;
+    public roleId!: number | null;
+    public userId!: number | null;
+    public before!: Record<string, any> | null;
+    public after!: Record<string, any> | null;
+    public permissionsAdded!: string[];
+    public permissionsRemoved!: string[];
+    public readonly createdAt!: Date;
+
+    // Dynamic tenant field
+    [key: string]: any;
+  }
+
+  AuditLog.init(
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      actorId: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        field: 'actor_id',
+      },
+      [config.tenant.field]: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        field: schema.columns.tenant,
+      },
+      action: {
+        type: DataTypes.STRING(50),
+        allowNull: false,
+      },
+      roleId: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        field: schema.columns.roleId,
+      },
+      userId: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        field: schema.columns.userId,
+      },
+      before: {
+        type: DataTypes.JSON,
+        allowNull: true,
+      },
+      after: {
+        type: DataTypes.JSON,
+        allowNull: true,
+      },
+      permissionsAdded: {
+        type: DataTypes.JSON,
+        allowNull: false,
+        defaultValue: [],
+        field: 'permissions_added',
+      },
+      permissionsRemoved: {
+        type: DataTypes.JSON,
+        allowNull: false,
+        defaultValue: [],
+        field: 'permissions_removed',
+      },
+    },
+    {
+      sequelize,
+      modelName: 'AuditLog',
+      tableName: schema.tables.auditLogs,
+      underscored: true,
+      updatedAt: false, // Audit entries are never modified
+      indexes: [
+        {
+          fields: [schema.columns.tenant, 'created_at'],
+        },
+        {
+          fields: ['actor_id'],
+        },
+      ],
+    }
+  );
+
+  return AuditLog;
+}
@@ -0,0 +1,39 @@
+import { DataTypes, Dialect, Model, ModelAttributeColumnOptions } from 'sequelize';
+
+type ListItemType = typeof DataTypes.STRING | typeof DataTypes.INTEGER;
+
+/**
+ * Column type for a list of values: a native ARRAY on Postgres, JSON elsewhere
+ */
+export function listColumnType(dialect: Dialect, itemType: ListItemType) {
+  return dialect === 'postgres' ? DataTypes.ARRAY(itemType) : DataTypes.JSON;
+}
+
+/**
+ * Migration column definition for a list. MySQL cannot default a JSON
+ * column, so only Postgres arrays get a database default.
+ */
+export function listColumn(dialect: Dialect, itemType: ListItemType) {
+  return {
+    type: listColumnType(dialect, itemType),
+    allowNull: false,
+    ...(dialect === 'postgres' ? { defaultValue: [] } : {}),
+  };
+}
+
+/**
+ * Model attribute for a list column. The getter also parses JSON that some
+ * MySQL drivers hand back as a string.
+ */
+export function listAttribute(dialect: Dialect, itemType: ListItemType, attribute: string): ModelAttributeColumnOptions {
+  return {
+    type: listColumnType(dialect, itemType),
+    allowNull: false,
+    defaultValue: [],
+    get(this: Model) {
+      const value = this.getDataValue(attribute);
+      if (typeof value === 'string') return JSON.parse(value);
+      return value || [];
+    },
+  };
+}
@@ -2,16 +2,34 @@ import { Sequelize } from 'sequelize';
 import { RBACConfig } from '../types';
 import { createRoleModel } from './role';
 import { createUserRoleModel } from './user-role';
+import { createUserPermissionModel } from './user-permission';
+import { createAuditLogModel } from './audit-log';
+import { createTenantMembershipModel } from './tenant-membership';
+import { createWebhookEndpointModel } from './webhook-endpoint';
+import { createWebhookDeliveryModel } from './webhook-delivery';
+import { createWebhookAttemptModel } from './webhook-attempt';
 
 export function createModels(
   sequelize: Sequelize,
   config: RBACConfig
 ): {
   Role: ReturnType<typeof createRoleModel>,
-  UserRole: ReturnType<typeof createUserRoleModel>
+  UserRole: ReturnType<typeof createUserRoleModel>,
+  UserPermission: ReturnType<typeof createUserPermissionModel>,
+  AuditLog: ReturnType<typeof createAuditLogModel>,
+  TenantMembership: ReturnType<typeof createTenantMembershipModel>,
+  WebhookEndpoint: ReturnType<typeof createWebhookEndpointModel>,
+  WebhookDelivery: ReturnType<typeof createWebhookDeliveryModel>,
+  WebhookAttempt: ReturnType<typeof createWebhookAttemptModel>
 } {
   const Role = createRoleModel(sequelize, config);
-  const UserRole = createUserRoleModel(sequelize);
+  const UserRole = createUserRoleModel(sequelize, config);
+  const UserPermission = createUserPermissionModel(sequelize, config);
+  const AuditLog = createAuditLogModel(sequelize, config);
+  const TenantMembership = createTenantMembershipModel(sequelize, config);
+  const WebhookEndpoint = createWebhookEndpointModel(sequelize, config);
+  const WebhookDelivery = createWebhookDeliveryModel(sequelize, config);
+  const WebhookAttempt = createWebhookAttemptModel(sequelize, config);
 
   // Set up associations
   Role.belongsToMany(sequelize.models.User || sequelize.define('User', {}), {
@@ -23,8 +41,30 @@ export function createModels(
   return {
     Role,
     UserRole,
+    UserPermission,
+    AuditLog,
+    TenantMembership,
+    WebhookEndpoint,
+    WebhookDelivery,
+    WebhookAttempt,
   };
 }
 
 export { createRoleModel } from './role';
-export { createUserRoleModel } from './user-role';
+export { createUserRoleModel, activeUserRoleWhere } from './user-role';
+export { createUserPermissionModel } from './user-permission';
+export { createAuditLogModel } from './audit-log';
+export { createTenantMembershipModel } from './tenant-membership';
+export { createWebhookEndpointModel } from './webhook-endpoint';
+export { createWebhookDeliveryModel } from './webhook-delivery';
+export { createWebhookAttemptModel } from './webhook-attempt';
+export { resolveSchema } from './schema';
+export type { ResolvedSchema } from './schema';
+export type { RoleAttributes, RoleCreationAttributes } from './role';
+export type { UserRoleAttributes, UserRoleCreationAttributes } from './user-role';
+export type { UserPermissionAttributes, UserPermissionCreationAttributes } from './user-permission';
+export type { AuditLogAttributes, AuditLogCreationAttributes } from './audit-log';
+export type { TenantMembershipAttributes, TenantMembershipCreationAttributes } from './tenant-membership';
+export type { WebhookEndpointAttributes, WebhookEndpointCreationAttributes } from './webhook-endpoint';
+export type { WebhookDeliveryAttributes, WebhookDeliveryCreationAttributes } from './webhook-delivery';
+export type { WebhookAttemptAttributes, WebhookAttemptCreationAttributes } from './webhook-attempt';
@@ -1,12 +1,42 @@
-import { Model, DataTypes, Sequelize, Association } from 'sequelize';
+import { Model, DataTypes, Sequelize, Association, Dialect } from 'sequelize';
 import { RBACConfig } from '../types';
+import { resolveSchema, referenceTo } from './schema';
+import { listAttribute } from './column-types';
+
+/**
+ * Columns of the roles table, apart from the tenant column named by config.tenant.field
+ */
+export interface RoleAttributes {
+  id: number;
+  name: string;
+  description: string | null;
+  permissions: string[];
+  parentRoleIds: number[];
+  templateKey: string | null;
+  readonly createdAt?: Date;
+  readonly updatedAt?: Date;
+}
+
+export interface RoleCreationAttributes {
+  id?: number;
+  name: string;
+  description?: string | null;
+  permissions?: string[];
+  parentRoleIds?: number[];
+  templateKey?: string | null;
+}
 
 export function createRoleModel(sequelize: Sequelize, config: RBACConfig) {
-  class Role extends Model {
+  const schema = resolveSchema(config);
+  const dialect = sequelize.getDialect() as Dialect;
+
+  class Role extends Model<RoleAttributes, RoleCreationAttributes> {
     public id!: number;
     public name!: string;
-    public description?: string;
+    public description!: string | null;
     public permissions!: string[];
+    public parentRoleIds!: number[];
+    public templateKey!: string | null;
     public readonly createdAt!: Date;
     public readonly updatedAt!: Date;
     
@@ -30,8 +60,9 @@ export function createRoleModel(sequelize: Sequelize, config: RBACConfig) {
      * Add permission to role
      */
     public addPermission(permissionShortName: string): void {
+      // Reassign rather than push so JSON columns register the change
       if (!this.hasPermission(permissionShortName)) {
-        this.permissions.push(permissionShortName);
+        this.permissions = [...this.permissions, permissionShortName];
       }
     }
 
@@ -69,6 +100,13 @@ export function createRoleModel(sequelize: Sequelize, config: RBACConfig) {
     public hasAllPermissions(permissionShortNames: string[]): boolean {
       return permissionShortNames.every(permission => this.hasPermission(permission));
     }
+
+    /**
+     * Check if role directly inherits from another role
+     */
+    public inheritsFrom(roleId: number): boolean {
+      return (this.parentRoleIds || []).includes(roleId);
+    }
   }
 
   Role.init(
@@ -89,29 +127,29 @@ export function createRoleModel(sequelize: Sequelize, config: RBACConfig) {
       [config.tenant.field]: {
         type: DataTypes.INTEGER,
         allowNull: false,
-        references: {
-          model: config.tenant.model.toLowerCase() + 's',
-          key: 'id',
-        },
+        field: schema.columns.tenant,
+        ...referenceTo(schema.tenantTable),
       },
-      permissions: {
-        type: DataTypes.ARRAY(DataTypes.STRING),
-        allowNull: false,
-        defaultValue: [],
+      // Native arrays on Postgres, JSON on MySQL and SQLite
+      permissions: listAttribute(dialect, DataTypes.STRING, 'permissions'),
+      parentRoleIds: listAttribute(dialect, DataTypes.INTEGER, 'parentRoleIds'),
+      templateKey: {
+        type: DataTypes.STRING(100),
+        allowNull: true,
       },
     },
     {
       sequelize,
       modelName: 'Role',
-      tableName: 'roles', // Use existing table name
+      tableName: schema.tables.roles,
       underscored: true,
       indexes: [
         {
-          fields: [config.tenant.field],
+          fields: [schema.columns.tenant],
         },
         {
           unique: true,
-          fields: [config.tenant.field, 'name'],
+          fields: [schema.columns.tenant, 'name'],
         },
       ],
     }
@@ -0,0 +1,56 @@
+import { RBACConfig, RBACTable } from '../types';
+
+export interface ResolvedSchema {
+  tables: Record<RBACTable, string>;
+  tenantTable: string | null;
+  userTable: string | null;
+  columns: {
+    tenant: string;
+    userId: string;
+    roleId: string;
+  };
+}
+
+const DEFAULT_TABLES: Record<RBACTable, string> = {
+  roles: 'roles',
+  userRoles: 'user_roles',
+  userPermissions: 'user_permissions',
+  auditLogs: 'rbac_audit_logs',
+  tenantMemberships: 'tenant_memberships',
+  webhookEndpoints: 'rbac_webhook_endpoints',
+  webhookDeliveries: 'rbac_webhook_deliveries',
+  webhookAttempts: 'rbac_webhook_attempts',
+  migrations: 'rbac_migrations',
+};
+
+function toSnakeCase(name: string): string {
+  return name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase();
+}
+
+/**
+ * Resolve table and column names, falling back to the names sync() used to create
+ */
+export function resolveSchema(config?: RBACConfig): ResolvedSchema {
+  const schema = config?.schema || {};
+  const tenant = config?.tenant;
+
+  return {
+    tables: { ...DEFAULT_TABLES, ...schema.tables },
+    tenantTable: schema.tenantTable !== undefined
+      ? schema.tenantTable
+      : tenant ? tenant.model.toLowerCase() + 's' : null,
+    userTable: schema.userTable !== undefined ? schema.userTable : 'users',
+    columns: {
+      tenant: schema.columns?.tenant || (tenant ? toSnakeCase(tenant.field) : 'tenant_id'),
+      userId: schema.columns?.userId || 'user_id',
+      roleId: schema.columns?.roleId || 'role_id',
+    },
+  };
+}
+
+/**
+ * Foreign key reference to a table, or nothing when references are disabled
+ */
+export function referenceTo(table: string | null): { references?: { model: string; key: string } } {
+  return table ? { references: { model: table, key: 'id' } } : {};
+}
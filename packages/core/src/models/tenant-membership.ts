@@ -0,0 +1,80 @@
+import { Model, DataTypes, Sequelize } from 'sequelize';
+import { RBACConfig } from '../types';
+import { resolveSchema, referenceTo } from './schema';
+
+/**
+ * Columns of the tenant_memberships table, apart from the tenant column named by config.tenant.field
+ */
+export interface TenantMembershipAttributes {
+  id: number;
+  userId: number;
+  userType: string;
+  readonly createdAt?: Date;
+  readonly updatedAt?: Date;
+}
+
+export interface TenantMembershipCreationAttributes {
+  id?: number;
+  userId: number;
+  userType?: string;
+}
+
+export function createTenantMembershipModel(sequelize: Sequelize, config: RBACConfig) {
+  const schema = resolveSchema(config);
+
+  class TenantMembership extends Model<TenantMembershipAttributes, TenantMembershipCreationAttributes> {
+    public id!: number;
+    public userId!: number;
+    public userType!: string;
+    public readonly createdAt!: Date;
+    public readonly updatedAt!: Date;
+
+    // Dynamic tenant field
+    [key: string]: any;
+  }
+
+  TenantMembership.init(
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      userId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        field: schema.columns.userId,
+        ...referenceTo(schema.userTable),
+      },
+      [config.tenant.field]: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        field: schema.columns.tenant,
+        ...referenceTo(schema.tenantTable),
+      },
+      userType: {
+        type: DataTypes.STRING(20),
+        allowNull: false,
+        defaultValue: 'user',
+        field: 'user_type',
+      },
+    },
+    {
+      sequelize,
+      modelName: 'TenantMembership',
+      tableName: schema.tables.tenantMemberships,
+      underscored: true,
+      indexes: [
+        {
+          fields: [schema.columns.userId],
+        },
+        {
+          unique: true,
+          fields: [schema.columns.userId, schema.columns.tenant],
+        },
+      ],
+    }
+  );
+
+  return TenantMembership;
+}
@@ -0,0 +1,78 @@
+import { Model, DataTypes, Sequelize } from 'sequelize';
+import { RBACConfig } from '../types';
+import { resolveSchema, referenceTo } from './schema';
+
+/**
+ * Columns of the user_permissions table, apart from the tenant column named by config.tenant.field
+ */
+export interface UserPermissionAttributes {
+  id: number;
+  userId: number;
+  permission: string;
+  readonly createdAt?: Date;
+  readonly updatedAt?: Date;
+}
+
+export interface UserPermissionCreationAttributes {
+  id?: number;
+  userId: number;
+  permission: string;
+}
+
+export function createUserPermissionModel(sequelize: Sequelize, config: RBACConfig) {
+  const schema = resolveSchema(config);
+
+  class UserPermission extends Model<UserPermissionAttributes, UserPermissionCreationAttributes> {
+    public id!: number;
+    public userId!: number;
+    public permission!: string;
+    public readonly createdAt!: Date;
+    public readonly updatedAt!: Date;
+
+    // Dynamic tenant field
+    [key: string]: any;
+  }
+
+  UserPermission.init(
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      userId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        field: schema.columns.userId,
+        ...referenceTo(schema.userTable),
+      },
+      [config.tenant.field]: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        field: schema.columns.tenant,
+        ...referenceTo(schema.tenantTable),
+      },
+      permission: {
+        type: DataTypes.STRING,
+        allowNull: false,
+      },
+    },
+    {
+      sequelize,
+      modelName: 'UserPermission',
+      tableName: schema.tables.userPermissions,
+      underscored: true,
+      indexes: [
+        {
+          fields: [schema.columns.userId, schema.columns.tenant],
+        },
+        {
+          unique: true,
+          fields: [schema.columns.userId, schema.columns.tenant, 'permission'],
+        },
+      ],
+    }
+  );
+
+  return UserPermission;
+}
@@ -1,9 +1,34 @@
-import { Model, DataTypes, Sequelize } from 'sequelize';
+import { Model, DataTypes, Sequelize, Op, WhereOptions } from 'sequelize';
+import { RBACConfig } from '../types';
+import { resolveSchema, referenceTo } from './schema';
 
-export function createUserRoleModel(sequelize: Sequelize) {
-  class UserRole extends Model {
+/**
+ * Columns of the user_roles table
+ */
+export interface UserRoleAttributes {
+  userId: number;
+  roleId: number;
+  validFrom: Date | null;
+  expiresAt: Date | null;
+  readonly createdAt?: Date;
+  readonly updatedAt?: Date;
+}
+
+export interface UserRoleCreationAttributes {
+  userId: number;
+  roleId: number;
+  validFrom?: Date | null;
+  expiresAt?: Date | null;
+}
+
+export function createUserRoleModel(sequelize: Sequelize, config?: RBACConfig) {
+  const schema = resolveSchema(config);
+
+  class UserRole extends Model<UserRoleAttributes, UserRoleCreationAttributes> {
     public userId!: number;
     public roleId!: number;
+    public validFrom!: Date | null;
+    public expiresAt!: Date | null;
     public readonly createdAt!: Date;
     public readonly updatedAt!: Date;
   }
@@ -13,33 +38,47 @@ export function createUserRoleModel(sequelize: Sequelize) {
       userId: {
         type: DataTypes.INTEGER,
         allowNull: false,
-        field: 'user_id',
-        references: {
-          model: 'users',
-          key: 'id',
-        },
+        field: schema.columns.userId,
+        ...referenceTo(schema.userTable),
       },
       roleId: {
         type: DataTypes.INTEGER,
         allowNull: false,
-        field: 'role_id',
+        field: schema.columns.roleId,
         references: {
-          model: 'roles', // Use existing table name
+          model: schema.tables.roles,
           key: 'id',
         },
       },
+      validFrom: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: 'valid_from',
+      },
+      expiresAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: 'expires_at',
+      },
     },
     {
       sequelize,
       modelName: 'UserRole',
-      tableName: 'user_roles', // Use existing table name
+      tableName: schema.tables.userRoles,
       underscored: true,
       indexes: [
         {
-          fields: ['user_id'],
+          fields: [schema.columns.userId],
+        },
+        {
+          fields: [schema.columns.roleId],
         },
         {
-          fields: ['role_id'],
+          unique: true,
+          fields: [schema.columns.userId, schema.columns.roleId],
+        },
+        {
+          fields: ['expires_at'],
         },
       ],
     }
@@ -47,3 +86,15 @@ export function createUserRoleModel(sequelize: Sequelize) {
 
   return UserRole;
 }
+
+/**
+ * Where clause matching assignments that are in effect at the given time
+ */
+export function activeUserRoleWhere(now: Date = new Date()): WhereOptions<UserRoleAttributes> {
+  return {
+    [Op.and]: [
+      { [Op.or]: [{ validFrom: null }, { validFrom: { [Op.lte]: now } }] },
+      { [Op.or]: [{ expiresAt: null }, { expiresAt: { [Op.gt]: now } }] },
+    ],
+  };
+}
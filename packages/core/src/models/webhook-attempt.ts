@@ -0,0 +1,84 @@
+import { Model, DataTypes, Sequelize } from 'sequelize';
+import { RBACConfig } from '../types';
+import { resolveSchema, referenceTo } from './schema';
+
+/**
+ * Columns of the webhook attempts table
+ */
+export interface WebhookAttemptAttributes {
+  id: number;
+  deliveryId: number;
+  attempt: number;
+  responseStatus: number | null;
+  error: string | null;
+  durationMs: number;
+  readonly createdAt?: Date;
+}
+
+export interface WebhookAttemptCreationAttributes {
+  id?: number;
+  deliveryId: number;
+  attempt: number;
+  responseStatus?: number | null;
+  error?: string | null;
+  durationMs: number;
+}
+
+export function createWebhookAttemptModel(sequelize: Sequelize, config: RBACConfig) {
+  const schema = resolveSchema(config);
+
+  class WebhookAttempt extends Model<WebhookAttemptAttributes, WebhookAttemptCreationAttributes> {
+    public id!: number;
+    public deliveryId!: number;
+    public attempt!: number;
+    public responseStatus!: number | null;
+    public error!: string | null;
+    public durationMs!: number;
+    public readonly createdAt!: Date;
+  }
+
+  WebhookAttempt.init(
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      deliveryId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        ...referenceTo(schema.tables.webhookDeliveries),
+      },
+      attempt: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+      },
+      responseStatus: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+      },
+      error: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+      },
+      durationMs: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+      },
+    },
+    {
+      sequelize,
+      modelName: 'WebhookAttempt',
+      tableName: schema.tables.webhookAttempts,
+      underscored: true,
+      updatedAt: false, // Attempts are a log and never modified
+      indexes: [
+        {
+          fields: ['delivery_id'],
+        },
+      ],
+    }
+  );
+
+  return WebhookAttempt;
+}
@@ -0,0 +1,119 @@
+import { Model, DataTypes, Sequelize } from 'sequelize';
+import { RBACConfig, WebhookDeliveryStatus } from '../types';
+import { resolveSchema, referenceTo } from './schema';
+
+/**
+ * Columns of the webhook deliveries table, apart from the tenant column named by config.tenant.field
+ */
+export interface WebhookDeliveryAttributes {
+  id: number;
+  endpointId: number;
+  event: string;
+  payload: Record<string, any>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: Date | null;
+  lastError: string | null;
+  deliveredAt: Date | null;
+  readonly createdAt?: Date;
+  readonly updatedAt?: Date;
+}
+
+export interface WebhookDeliveryCreationAttributes {
+  id?: number;
+  endpointId: number;
+  event: string;
+  payload: Record<string, any>;
+  status?: WebhookDeliveryStatus;
+  attempts?: number;
+  nextAttemptAt?: Date | null;
+  lastError?: string | null;
+  deliveredAt?: Date | null;
+}
+
+export function createWebhookDeliveryModel(sequelize: Sequelize, config: RBACConfig) {
+  const schema = resolveSchema(config);
+
+  class WebhookDelivery extends Model<WebhookDeliveryAttributes, WebhookDeliveryCreationAttributes> {
+    public id!: number;
+    public endpointId!: number;
+    public event!: string;
+    public payload!: Record<string, any>;
+    public status!: WebhookDeliveryStatus;
+    public attempts!: number;
+    public nextAttemptAt!: Date | null;
+    public lastError!: string | null;
+    public deliveredAt!: Date | null;
+    public readonly createdAt!: Date;
+    public readonly updatedAt!: Date;
+
+    // Dynamic tenant field
+    [key: string]: any;
+  }
+
+  WebhookDelivery.init(
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      endpointId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        ...referenceTo(schema.tables.webhookEndpoints),
+      },
+      [config.tenant.field]: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        field: schema.columns.tenant,
+      },
+      event: {
+        type: DataTypes.STRING(50),
+        allowNull: false,
+      },
+      payload: {
+        type: DataTypes.JSON,
+        allowNull: false,
+      },
+      status: {
+        type: DataTypes.STRING(20),
+        allowNull: false,
+        defaultValue: 'pending',
+      },
+      attempts: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      nextAttemptAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+      lastError: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+      },
+      deliveredAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+    },
+    {
+      sequelize,
+      modelName: 'WebhookDelivery',
+      tableName: schema.tables.webhookDeliveries,
+      underscored: true,
+      indexes: [
+        {
+          fields: ['status', 'next_attempt_at'],
+        },
+        {
+          fields: [schema.columns.tenant, 'created_at'],
+        },
+      ],
+    }
+  );
+
+  return WebhookDelivery;
+}
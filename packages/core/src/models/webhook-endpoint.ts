@@ -0,0 +1,93 @@
+import { Model, DataTypes, Sequelize, Dialect } from 'sequelize';
+import { RBACConfig } from '../types';
+import { resolveSchema, referenceTo } from './schema';
+import { listAttribute } from './column-types';
+
+/**
+ * Columns of the webhook endpoints table, apart from the tenant column named by config.tenant.field
+ */
+export interface WebhookEndpointAttributes {
+  id: number;
+  url: string;
+  secret: string;
+  events: string[];
+  description: string | null;
+  active: boolean;
+  readonly createdAt?: Date;
+  readonly updatedAt?: Date;
+}
+
+export interface WebhookEndpointCreationAttributes {
+  id?: number;
+  url: string;
+  secret: string;
+  events?: string[];
+  description?: string | null;
+  active?: boolean;
+}
+
+export function createWebhookEndpointModel(sequelize: Sequelize, config: RBACConfig) {
+  const schema = resolveSchema(config);
+  const dialect = sequelize.getDialect() as Dialect;
+
+  class WebhookEndpoint extends Model<WebhookEndpointAttributes, WebhookEndpointCreationAttributes> {
+    public id!: number;
+    public url!: string;
+    public secret!: string;
+    public events!: string[];
+    public description!: string | null;
+    public active!: boolean;
+    public readonly createdAt!: Date;
+    public readonly updatedAt!: Date;
+
+    // Dynamic tenant field
+    [key: string]: any;
+  }
+
+  WebhookEndpoint.init(
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      [config.tenant.field]: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        field: schema.columns.tenant,
+        ...referenceTo(schema.tenantTable),
+      },
+      url: {
+        type: DataTypes.STRING(2048),
+        allowNull: false,
+      },
+      secret: {
+        type: DataTypes.STRING(128),
+        allowNull: false,
+      },
+      events: listAttribute(dialect, DataTypes.STRING, 'events'),
+      description: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+      },
+      active: {
+        type: DataTypes.BOOLEAN,
+        allowNull: false,
+        defaultValue: true,
+      },
+    },
+    {
+      sequelize,
+      modelName: 'WebhookEndpoint',
+      tableName: schema.tables.webhookEndpoints,
+      underscored: true,
+      indexes: [
+        {
+          fields: [schema.columns.tenant],
+        },
+      ],
+    }
+  );
+
+  return WebhookEndpoint;
+}
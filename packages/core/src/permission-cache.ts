@@ -0,0 +1,203 @@
+import { PermissionCacheOptions, User } from './types';
+
+const DEFAULT_TTL_SECONDS = 60;
+const DEFAULT_MAX_ENTRIES = 10000;
+const DEFAULT_PREFIX = 'rbac';
+
+/**
+ * Minimal key/value store contract, shaped after the Redis commands it needs
+ */
+export interface CacheStore {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttlSeconds?: number): Promise<void>;
+  del(key: string): Promise<void>;
+  incr(key: string): Promise<number>;
+}
+
+interface MemoryCacheEntry {
+  value: string;
+  expiresAt: number | null;
+}
+
+/**
+ * In-process LRU store with per-key TTL. Counters made by incr are kept in an
+ * LRU of their own, so entries never push them out and they never expire.
+ * Evicting a counter drops every entry with it, since any of them may have
+ * been keyed on its value, and later counters start above every evicted
+ * value so a generation is never handed out twice.
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, MemoryCacheEntry>();
+  private counters = new Map<string, number>();
+  private counterFloor = 0;
+  private maxEntries: number;
+
+  constructor(maxEntries: number = DEFAULT_MAX_ENTRIES) {
+    if (maxEntries < 1) {
+      throw new Error('Cache capacity must be at least 1');
+    }
+    this.maxEntries = maxEntries;
+  }
+
+  async get(key: string): Promise<string | null> {
+    const counter = this.counters.get(key);
+    if (counter !== undefined) {
+      this.counters.delete(key);
+      this.counters.set(key, counter);
+      return String(counter);
+    }
+
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    // Re-insert so the Map's insertion order doubles as recency order
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttlSeconds?: number): Promise<void> {
+    this.counters.delete(key);
+    this.entries.delete(key);
+    this.entries.set(key, {
+      value,
+      expiresAt: ttlSeconds !== undefined ? Date.now() + ttlSeconds * 1000 : null,
+    });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async del(key: string): Promise<void> {
+    this.counters.delete(key);
+    this.entries.delete(key);
+  }
+
+  /**
+   * Read and bump the counter without awaiting in between, so concurrent calls never lose an increment
+   */
+  async incr(key: string): Promise<number> {
+    const entry = this.entries.get(key);
+    const live = entry && (entry.expiresAt === null || entry.expiresAt > Date.now()) ? entry.value : '0';
+    const next = (this.counters.get(key) ?? Math.max(parseInt(live, 10), this.counterFloor)) + 1;
+
+    this.entries.delete(key);
+    this.counters.delete(key);
+    this.counters.set(key, next);
+
+    while (this.counters.size > this.maxEntries) {
+      const [oldest, value] = this.counters.entries().next().value as [string, number];
+      this.counters.delete(oldest);
+      this.counterFloor = Math.max(this.counterFloor, value);
+      this.entries.clear();
+    }
+
+    return next;
+  }
+
+  /**
+   * Number of cached entries currently held, including ones not yet evicted
+   * for expiry. Counters are not included.
+   */
+  size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Number of counters currently held
+   */
+  counterCount(): number {
+    return this.counters.size;
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.counters.clear();
+  }
+}
+
+/**
+ * Caches resolved users per tenant. Invalidation bumps a generation counter
+ * instead of deleting keys, so a whole tenant can be dropped without scanning
+ * the store; stale entries simply age out.
+ */
+export class PermissionCache {
+  private store: CacheStore;
+  private ttlSeconds: number;
+  private prefix: string;
+
+  constructor(options: PermissionCacheOptions = {}) {
+    this.ttlSeconds = options.ttlSeconds ?? DEFAULT_TTL_SECONDS;
+    if (!(this.ttlSeconds >= 1)) {
+      throw new Error('Cache TTL must be at least 1 second');
+    }
+
+    this.store = options.store || new MemoryCacheStore(options.maxEntries);
+    this.prefix = options.prefix || DEFAULT_PREFIX;
+  }
+
+  /**
+   * Get a cached user, loading and caching it on a miss. The key is resolved
+   * once before loading, so a user loaded while an invalidation lands is
+   * written under the old generation and never read again. `validUntil`
+   * gives the next time the user's permissions change on their own, such as
+   * an assignment starting or expiring; the entry never outlives it.
+   */
+  async getOrLoadUser(
+    userId: number,
+    tenantId: number,
+    load: () => Promise<User | null>,
+    validUntil?: () => Promise<Date | null>
+  ): Promise<User | null> {
+    const key = await this.userKey(userId, tenantId);
+    const cached = await this.store.get(key);
+    if (cached !== null) {
+      return JSON.parse(cached);
+    }
+
+    const [user, until] = await Promise.all([load(), validUntil ? validUntil() : null]);
+    if (!user) {
+      return user;
+    }
+
+    // Round down so the entry is gone by the time the change takes effect
+    const ttlSeconds = until
+      ? Math.min(this.ttlSeconds, Math.floor((until.getTime() - Date.now()) / 1000))
+      : this.ttlSeconds;
+
+    if (ttlSeconds >= 1) {
+      await this.store.set(key, JSON.stringify(user), ttlSeconds);
+    }
+    return user;
+  }
+
+  /**
+   * Drop a user's cached permissions in every tenant
+   */
+  async invalidateUser(userId: number): Promise<void> {
+    await this.store.incr(`${this.prefix}:gen:user:${userId}`);
+  }
+
+  /**
+   * Drop cached permissions for every user of a tenant
+   */
+  async invalidateTenant(tenantId: number): Promise<void> {
+    await this.store.incr(`${this.prefix}:gen:tenant:${tenantId}`);
+  }
+
+  private async userKey(userId: number, tenantId: number): Promise<string> {
+    const [tenantGeneration, userGeneration] = await Promise.all([
+      this.store.get(`${this.prefix}:gen:tenant:${tenantId}`),
+      this.store.get(`${this.prefix}:gen:user:${userId}`),
+    ]);
+
+    return `${this.prefix}:user:${tenantId}:${tenantGeneration || 0}:${userId}:${userGeneration || 0}`;
+  }
+}
@@ -0,0 +1,166 @@
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { PermissionEngine } from './permission-engine';
+import { PermissionClaim, PermissionClaimOptions, User } from './types';
+
+const CLAIM_VERSION = 1;
+const DEFAULT_TTL_SECONDS = 300;
+
+/**
+ * Encodes a user's effective permissions for one tenant as a compact claim
+ * (a bitset over getAllPermissionShortNames() order) and signs it as an
+ * opaque token, so services without database access can rebuild the user.
+ * Conditional grants need a resource to evaluate and are not carried.
+ */
+export class PermissionClaimCodec {
+  private engine: PermissionEngine;
+  private secret: string;
+  private ttlSeconds: number;
+  private configVersion: string;
+
+  constructor(engine: PermissionEngine, options: PermissionClaimOptions) {
+    if (!options.secret) {
+      throw new Error('A signing secret is required for permission claims');
+    }
+
+    this.engine = engine;
+    this.secret = options.secret;
+    this.ttlSeconds = options.ttlSeconds ?? DEFAULT_TTL_SECONDS;
+    this.configVersion = this.computeConfigVersion();
+  }
+
+  /**
+   * Hash of the permission ordering and user types; tokens minted under another config are rejected
+   */
+  getConfigVersion(): string {
+    return this.configVersion;
+  }
+
+  /**
+   * Build the unsigned claim, e.g. to embed in a JWT you sign yourself
+   */
+  async createClaim(user: User, tenantId: number): Promise<PermissionClaim> {
+    const granted = new Set(await this.engine.getUserPermissions(user, tenantId));
+    const shortNames = this.engine.getAllPermissionShortNames();
+    const bits = Buffer.alloc(Math.ceil(shortNames.length / 8));
+
+    shortNames.forEach((shortName, index) => {
+      if (granted.has(shortName)) {
+        bits[index >> 3] |= 1 << (index & 7);
+      }
+    });
+
+    return {
+      v: CLAIM_VERSION,
+      cfg: this.configVersion,
+      sub: user.id,
+      tid: tenantId,
+      ut: this.engine.getEffectiveUserType(user, tenantId) || user.userType,
+      em: user.email,
+      perms: bits.toString('base64url'),
+    };
+  }
+
+  /**
+   * Rebuild a user from a claim without touching the database
+   */
+  claimToUser(claim: PermissionClaim): User {
+    if (claim.v !== CLAIM_VERSION) {
+      throw new Error(`Unsupported permission claim version: ${claim.v}`);
+    }
+
+    if (claim.cfg !== this.configVersion) {
+      throw new Error('Permission claim was issued for a different permission config');
+    }
+
+    const bits = Buffer.from(claim.perms, 'base64url');
+    const permissions = this.engine.getAllPermissionShortNames()
+      .filter((_, index) => ((bits[index >> 3] || 0) & (1 << (index & 7))) !== 0);
+
+    return {
+      id: claim.sub,
+      email: claim.em || '',
+      userType: claim.ut,
+      permissions,
+      [this.engine.getTenantConfig().field]: claim.tid,
+      activeTenant: { tenantId: claim.tid, userType: claim.ut },
+    };
+  }
+
+  /**
+   * Create a signed token carrying the claim and an expiry
+   */
+  async sign(user: User, tenantId: number): Promise<string> {
+    const issuedAt = Math.floor(Date.now() / 1000);
+    const claim: PermissionClaim = {
+      ...(await this.createClaim(user, tenantId)),
+      iat: issuedAt,
+      exp: issuedAt + this.ttlSeconds,
+    };
+
+    const payload = Buffer.from(JSON.stringify(claim)).toString('base64url');
+    return `${payload}.${this.signature(payload)}`;
+  }
+
+  /**
+   * Verify a token's signature and expiry and return the claim it carries.
+   * Tokens without an expiry are rejected, since they would be valid forever.
+   */
+  verify(token: string): PermissionClaim {
+    const [payload, signature, ...rest] = token.split('.');
+
+    if (!payload || !signature || rest.length > 0) {
+      throw new Error('Malformed permission token');
+    }
+
+    const expected = Buffer.from(this.signature(payload));
+    const actual = Buffer.from(signature);
+
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      throw new Error('Invalid permission token signature');
+    }
+
+    let claim: PermissionClaim;
+    try {
+      claim = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    } catch {
+      throw new Error('Malformed permission token');
+    }
+
+    if (typeof claim.exp !== 'number') {
+      throw new Error('Permission token has no expiry');
+    }
+
+    if (claim.exp <= Math.floor(Date.now() / 1000)) {
+      throw new Error('Permission token has expired');
+    }
+
+    return claim;
+  }
+
+  /**
+   * Verify a token and rebuild the user it describes
+   */
+  verifyToUser(token: string): User {
+    return this.claimToUser(this.verify(token));
+  }
+
+  private signature(payload: string): string {
+    return createHmac('sha256', this.secret).update(payload).digest('base64url');
+  }
+
+  /**
+   * A rebuilt user is checked against its user type's scope and implicit grants,
+   * so those are hashed along with the permission ordering
+   */
+  private computeConfigVersion(): string {
+    const userTypes = Object.entries(this.engine.getUserTypes())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([name, definition]) => [name, definition.scope, definition.permissions || []]);
+
+    return createHash('sha256')
+      .update(this.engine.getAllPermissionShortNames().join('\n'))
+      .update(JSON.stringify(userTypes))
+      .digest('hex')
+      .slice(0, 16);
+  }
+}
@@ -1,12 +1,63 @@
-import { Permission, RBACConfig, User, Role, PermissionValidationResult } from './types';
+import {
+  Permission,
+  RBACConfig,
+  User,
+  Role,
+  RoleTemplate,
+  PermissionValidationResult,
+  PermissionContext,
+  PermissionConditionArgs,
+  PermissionDecision,
+  PermissionDecisionReason,
+  PermissionExplanation,
+  GrantSource,
+  UserType,
+  UserTypeDefinition,
+  UserTypeScope,
+} from './types';
+import { DecisionLogger } from './decision-log';
 
-export class PermissionEngine {
-  private config: RBACConfig;
+const WILDCARD = '*';
+const MODULE_WILDCARD_SUFFIX = '.*';
+const DENY_PREFIX = '!';
+const CONDITION_SEPARATOR = '@';
+
+export const DEFAULT_USER_TYPES: Record<string, UserTypeDefinition> = {
+  superadmin: { scope: 'global', description: 'Can access everything across all tenants' },
+  admin: { scope: 'tenant', description: 'Can access everything within their tenant' },
+  user: { scope: 'none', description: 'Permissions based on assigned roles' },
+};
+
+const GRANTING_REASONS: PermissionDecisionReason[] = [
+  'global-bypass',
+  'tenant-bypass',
+  'role-grant',
+  'user-type-grant',
+];
+
+interface ParsedGrant {
+  deny: boolean;
+  permission: string;
+  condition?: string;
+}
+
+export class PermissionEngine<N extends string = string> {
+  private config: RBACConfig<N>;
   private allPermissions: Permission[];
+  private userTypes: Record<string, UserTypeDefinition>;
+  private decisionLogger: DecisionLogger | null = null;
 
-  constructor(config: RBACConfig) {
+  constructor(config: RBACConfig<N>) {
     this.config = config;
     this.allPermissions = Object.values(config.permissions).flat();
+    this.userTypes = config.userTypes || DEFAULT_USER_TYPES;
+  }
+
+  /**
+   * Set (or clear with null) the logger that receives every permission decision
+   */
+  setDecisionLogger(logger: DecisionLogger | null): void {
+    this.decisionLogger = logger;
   }
 
   /**
@@ -16,6 +67,31 @@ export class PermissionEngine {
     return this.allPermissions.some(p => p.shortName === shortName);
   }
 
+  /**
+   * Validate if a grant is a known permission or a wildcard ('*' or 'module.*'),
+   * optionally prefixed with '!' to deny it and suffixed with '@condition'
+   */
+  validateGrant(grant: string): boolean {
+    if (this.isDenyGrant(grant)) {
+      const denied = grant.slice(DENY_PREFIX.length);
+      return !this.isDenyGrant(denied) && this.validateGrant(denied);
+    }
+
+    if (this.isConditionalGrant(grant)) {
+      const [base, condition, ...rest] = grant.split(CONDITION_SEPARATOR);
+      return rest.length === 0 && !!this.config.conditions?.[condition] && this.validateGrant(base);
+    }
+
+    if (grant === WILDCARD) return true;
+
+    const module = this.getWildcardModule(grant);
+    if (module !== null) {
+      return Object.prototype.hasOwnProperty.call(this.config.permissions, module);
+    }
+
+    return this.validatePermission(grant);
+  }
+
   /**
    * Validate multiple permissions
    */
@@ -24,7 +100,7 @@ export class PermissionEngine {
     const invalid: string[] = [];
 
     shortNames.forEach(shortName => {
-      if (this.validatePermission(shortName)) {
+      if (this.validateGrant(shortName)) {
         valid.push(shortName);
       } else {
         invalid.push(shortName);
@@ -34,6 +110,41 @@ export class PermissionEngine {
     return { valid, invalid };
   }
 
+  /**
+   * Find permissions that are both allowed and denied by the same set of grants.
+   * Only exact pairs conflict: a wildcard allow next to a narrower deny carves
+   * an exception out of it, and a conditional deny only conflicts with an allow
+   * under the same condition, since it narrows rather than cancels it.
+   */
+  findConflictingGrants(grants: string[]): string[] {
+    const parsed = grants.map(grant => this.parseGrant(grant));
+    const allows = parsed.filter(grant => !grant.deny);
+    const conflicting = new Set<string>();
+
+    parsed.filter(grant => grant.deny).forEach(denied => {
+      const cancelled = allows.some(allow =>
+        allow.permission === denied.permission && (!denied.condition || allow.condition === denied.condition)
+      );
+      if (cancelled) conflicting.add(denied.permission);
+    });
+
+    return Array.from(conflicting);
+  }
+
+  /**
+   * Check if a grant is a deny grant ('!permission')
+   */
+  isDenyGrant(grant: string): boolean {
+    return grant.startsWith(DENY_PREFIX);
+  }
+
+  /**
+   * Check if a grant only applies when a condition holds ('permission@condition')
+   */
+  isConditionalGrant(grant: string): boolean {
+    return grant.includes(CONDITION_SEPARATOR);
+  }
+
   /**
    * Get all permissions in the system
    */
@@ -44,15 +155,15 @@ export class PermissionEngine {
   /**
    * Get all permission short names
    */
-  getAllPermissionShortNames(): string[] {
-    return this.allPermissions.map(p => p.shortName);
+  getAllPermissionShortNames(): N[] {
+    return this.allPermissions.map(p => p.shortName as N);
   }
 
   /**
    * Get permissions by module
    */
   getPermissionsByModule(module: string): Permission[] {
-    return this.config.permissions[module] || [];
+    return [...(this.config.permissions[module] || [])];
   }
 
   /**
@@ -62,32 +173,208 @@ export class PermissionEngine {
     return this.allPermissions.find(p => p.shortName === shortName);
   }
 
+  /**
+   * Check if a single grant covers a permission, expanding wildcards
+   */
+  grantCovers(grant: string, permissionShortName: string): boolean {
+    if (grant === permissionShortName || grant === WILDCARD) return true;
+
+    const module = this.getWildcardModule(grant);
+    if (module === null) return false;
+
+    return this.getPermissionsByModule(module).some(p => p.shortName === permissionShortName);
+  }
+
+  /**
+   * Expand grants (including wildcards) into concrete permission short names
+   */
+  expandPermissions(grants: string[]): string[] {
+    const permissions = new Set<string>();
+
+    grants.forEach(grant => {
+      if (grant === WILDCARD) {
+        this.getAllPermissionShortNames().forEach(p => permissions.add(p));
+        return;
+      }
+
+      const module = this.getWildcardModule(grant);
+      if (module !== null) {
+        this.getPermissionsByModule(module).forEach(p => permissions.add(p.shortName));
+        return;
+      }
+
+      permissions.add(grant);
+    });
+
+    return Array.from(permissions);
+  }
+
   /**
    * Check if user has a specific permission
    */
   async userHasPermission(
     user: User, 
-    permissionShortName: string,
+    permissionShortName: N,
     tenantId?: number
   ): Promise<boolean> {
-    if (!user) return false;
+    const decision = await this.checkPermission(user, permissionShortName, tenantId);
+    return decision.granted;
+  }
 
-    // Superadmin can access everything
-    if (user.userType === 'superadmin') {
-      return true;
+  /**
+   * Check a permission and return the full decision, reporting it to the
+   * decision logger together with any caller metadata
+   */
+  async checkPermission(
+    user: User,
+    permissionShortName: N,
+    tenantId?: number,
+    metadata?: Record<string, any>
+  ): Promise<PermissionDecision> {
+    const { reason, matchedGrant } = this.decide(user, permissionShortName, tenantId);
+    return this.recordDecision(user, permissionShortName, tenantId, reason, matchedGrant, metadata);
+  }
+
+  /**
+   * Check a permission on a specific resource and return the full decision,
+   * reporting it to the decision logger like checkPermission
+   */
+  async checkResourcePermission(
+    user: User,
+    permissionShortName: N,
+    resource?: any,
+    context: PermissionContext = {},
+    metadata?: Record<string, any>
+  ): Promise<PermissionDecision> {
+    const { reason, matchedGrant } = await this.decideOnResource(user, permissionShortName, resource, context);
+    return this.recordDecision(user, permissionShortName, context.tenantId, reason, matchedGrant, metadata);
+  }
+
+  /**
+   * Explain why a user does or does not hold a permission
+   */
+  explain(user: User, permissionShortName: N, tenantId?: number): PermissionExplanation {
+    const { reason } = this.decide(user, permissionShortName, tenantId);
+    const tenantField = this.config.tenant.field;
+    const userTenantId = user ? user[tenantField] : undefined;
+    const roles = user?.roles || [];
+    const grants = user?.permissions || [];
+    const trace: string[] = [];
+
+    const tenantMismatch = !!user && tenantId !== undefined && !this.userBelongsToTenant(user, tenantId);
+    const foreignTenantRoles = tenantId === undefined
+      ? []
+      : roles.filter(role => role[tenantField] !== undefined && role[tenantField] !== tenantId).map(role => role.name);
+
+    // Attribute each matching grant to the roles that carry it
+    const sourcesOf = (grant: string): GrantSource[] => {
+      const carriers = roles.filter(role => role.permissions.includes(grant));
+      return carriers.length > 0
+        ? carriers.map(role => ({ grant, roleId: role.id, roleName: role.name }))
+        : [{ grant }];
+    };
+    const effectiveUserType = user ? this.getEffectiveUserType(user, tenantId) : undefined;
+    // Conditional denies apply without a resource, conditional allows do not
+    const evaluated = (grant: string) => this.isDenyGrant(grant) || !this.isConditionalGrant(grant);
+    const sources = [
+      ...grants.filter(evaluated).flatMap(sourcesOf),
+      ...(user ? this.getImplicitGrants(user, tenantId) : [])
+        .filter(evaluated)
+        .map(grant => ({ grant, userType: effectiveUserType })),
+    ];
+    const allowedBy = sources.filter(source =>
+      !this.isDenyGrant(source.grant) && this.grantCovers(source.grant, permissionShortName)
+    );
+    const deniedBy = sources.filter(source => this.deniesWithoutResource(source.grant, permissionShortName));
+    const conditionalGrants = grants.filter(grant => {
+      if (evaluated(grant)) return false;
+      return this.grantCovers(this.parseGrant(grant).permission, permissionShortName);
+    });
+
+    const knownPermission = this.validatePermission(permissionShortName);
+    if (!knownPermission) {
+      trace.push(`'${permissionShortName}' is not defined in the permissions config`);
+    }
+    if (tenantMismatch) {
+      trace.push(`User is not a member of tenant ${tenantId} (home tenant: ${userTenantId ?? 'none'})`);
+    }
+    if (foreignTenantRoles.length > 0) {
+      trace.push(`Roles from another tenant are loaded on the user: ${foreignTenantRoles.join(', ')}`);
     }
 
-    // Admin can access everything within their tenant
-    if (user.userType === 'admin') {
-      const userTenantId = user[this.config.tenant.field];
-      if (!tenantId || userTenantId === tenantId) {
-        return true;
-      }
+    const describe = (source: GrantSource) => {
+      if (source.roleName) return `'${source.grant}' from role '${source.roleName}'`;
+      if (source.userType) return `'${source.grant}' implied by user type '${source.userType}'`;
+      return `'${source.grant}' (inherited or direct grant)`;
+    };
+
+    switch (reason) {
+      case 'no-user':
+        trace.push('No user was supplied');
+        break;
+      case 'global-bypass':
+        trace.push(`User type '${user.userType}' bypasses all permission checks`);
+        break;
+      case 'tenant-bypass':
+        trace.push(`User type '${effectiveUserType}' bypasses permission checks within its tenant`);
+        break;
+      case 'explicit-deny':
+        trace.push(`Denied by ${deniedBy.map(describe).join(', ')}`);
+        if (deniedBy.some(source => this.isConditionalGrant(source.grant))) {
+          trace.push('Conditional denies apply whenever no resource is checked');
+        }
+        if (allowedBy.length > 0) {
+          trace.push(`Deny overrides allow from ${allowedBy.map(describe).join(', ')}`);
+        }
+        break;
+      case 'role-grant':
+        trace.push(`Granted by ${allowedBy.map(describe).join(', ')}`);
+        break;
+      case 'user-type-grant':
+        trace.push(`Granted by ${allowedBy.map(describe).join(', ')}`);
+        break;
+      case 'missing':
+        if (this.getUserTypeDefinition(user?.userType)?.scope === 'tenant' && tenantMismatch) {
+          trace.push(`The '${user.userType}' bypass does not apply outside the user's tenants`);
+        }
+        trace.push(`No role or direct grant covers '${permissionShortName}'`);
+        break;
+    }
+
+    if (conditionalGrants.length > 0) {
+      trace.push(`Conditional grants apply only when checked with a resource: ${conditionalGrants.join(', ')}`);
     }
 
-    // Check user's permissions (from roles)
-    const userPermissions = user.permissions || [];
-    return userPermissions.includes(permissionShortName);
+    return {
+      userId: user?.id,
+      userType: user?.userType,
+      permission: permissionShortName,
+      tenantId,
+      userTenantId,
+      granted: GRANTING_REASONS.includes(reason),
+      reason,
+      knownPermission,
+      tenantMismatch,
+      foreignTenantRoles,
+      allowedBy,
+      deniedBy,
+      conditionalGrants,
+      trace,
+    };
+  }
+
+  /**
+   * Check if user has a permission on a specific resource, evaluating
+   * conditional grants ('permission@condition') against it
+   */
+  async can(
+    user: User,
+    permissionShortName: N,
+    resource?: any,
+    context: PermissionContext = {}
+  ): Promise<boolean> {
+    const decision = await this.checkResourcePermission(user, permissionShortName, resource, context);
+    return decision.granted;
   }
 
   /**
@@ -95,7 +382,7 @@ export class PermissionEngine {
    */
   async userHasAnyPermission(
     user: User,
-    permissionShortNames: string[],
+    permissionShortNames: N[],
     tenantId?: number
   ): Promise<boolean> {
     for (const permission of permissionShortNames) {
@@ -111,9 +398,10 @@ export class PermissionEngine {
    */
   async userHasAllPermissions(
     user: User,
-    permissionShortNames: string[],
+    permissionShortNames: N[],
     tenantId?: number
   ): Promise<boolean> {
+    // userHasPermission applies deny grants, so a single denied permission fails the check
     for (const permission of permissionShortNames) {
       if (!(await this.userHasPermission(user, permission, tenantId))) {
         return false;
@@ -125,28 +413,115 @@ export class PermissionEngine {
   /**
    * Get all permissions for a user
    */
-  async getUserPermissions(user: User): Promise<string[]> {
+  async getUserPermissions(user: User, tenantId?: number): Promise<string[]> {
     if (!user) return [];
 
-    // Superadmin gets all permissions
-    if (user.userType === 'superadmin') {
+    // Bypassing user types get all permissions
+    if (this.userCanBypassPermissions(user, tenantId)) {
       return this.getAllPermissionShortNames();
     }
 
-    // Admin gets all permissions
-    if (user.userType === 'admin') {
-      return this.getAllPermissionShortNames();
+    // Other users get permissions from their roles and user type, minus
+    // anything denied. With no resource, conditional denies count as denies.
+    const grants = [...(user.permissions || []), ...this.getImplicitGrants(user, tenantId)];
+    const allowed = this.expandPermissions(
+      grants.filter(grant => !this.isDenyGrant(grant) && !this.isConditionalGrant(grant))
+    );
+    const denied = new Set(this.expandPermissions(
+      grants.filter(grant => this.isDenyGrant(grant)).map(grant => this.parseGrant(grant).permission)
+    ));
+
+    return allowed.filter(permission => !denied.has(permission));
+  }
+
+  /**
+   * Get the ids of all roles a role inherits from, directly or transitively
+   */
+  getAncestorRoleIds(roleId: number, tenantRoles: Role[]): number[] {
+    const rolesById = new Map(tenantRoles.map(role => [role.id, role]));
+    const ancestors = new Set<number>();
+    const pending = [...(rolesById.get(roleId)?.parentRoleIds || [])];
+
+    while (pending.length > 0) {
+      const parentId = pending.pop()!;
+      if (ancestors.has(parentId)) continue;
+
+      ancestors.add(parentId);
+      pending.push(...(rolesById.get(parentId)?.parentRoleIds || []));
     }
 
-    // Regular users get permissions from their roles
-    return user.permissions || [];
+    return Array.from(ancestors);
   }
 
   /**
-   * Check if user can bypass permissions
+   * Flatten permissions of roles together with everything they inherit
    */
-  userCanBypassPermissions(user: User): boolean {
-    return user.userType === 'superadmin' || user.userType === 'admin';
+  resolveRolePermissions(roles: Role[], tenantRoles: Role[]): string[] {
+    const rolesById = new Map(tenantRoles.map(role => [role.id, role]));
+    const permissions = new Set<string>();
+
+    roles.forEach(role => {
+      role.permissions.forEach(permission => permissions.add(permission));
+      this.getAncestorRoleIds(role.id, tenantRoles).forEach(ancestorId => {
+        rolesById.get(ancestorId)?.permissions.forEach(permission => permissions.add(permission));
+      });
+    });
+
+    return Array.from(permissions);
+  }
+
+  /**
+   * Get the configured user types
+   */
+  getUserTypes(): Record<string, UserTypeDefinition> {
+    return { ...this.userTypes };
+  }
+
+  /**
+   * Get the definition of a user type, if it is configured
+   */
+  getUserTypeDefinition(userType?: string): UserTypeDefinition | undefined {
+    if (!userType) return undefined;
+    return Object.prototype.hasOwnProperty.call(this.userTypes, userType)
+      ? this.userTypes[userType]
+      : undefined;
+  }
+
+  /**
+   * Get the scope of the user type that applies in a tenant
+   */
+  getUserTypeScope(user: User, tenantId?: number): UserTypeScope | undefined {
+    return this.getUserTypeDefinition(this.getEffectiveUserType(user, tenantId))?.scope;
+  }
+
+  /**
+   * Get the user type that applies in a tenant: global types everywhere, the
+   * tenant membership if there is one, otherwise the user's own type in their
+   * home tenant. Undefined means the user does not belong to the tenant.
+   */
+  getEffectiveUserType(user: User, tenantId?: number): UserType | undefined {
+    if (!user) return undefined;
+    if (this.getUserTypeDefinition(user.userType)?.scope === 'global' || !tenantId) return user.userType;
+
+    const membership = (user.memberships || []).find(m => m.tenantId === tenantId);
+    if (membership) return membership.userType;
+
+    return user[this.config.tenant.field] === tenantId ? user.userType : undefined;
+  }
+
+  /**
+   * Check if user is a member of a tenant (global user types belong to every tenant)
+   */
+  userBelongsToTenant(user: User, tenantId: number): boolean {
+    return this.getEffectiveUserType(user, tenantId) !== undefined;
+  }
+
+  /**
+   * Check if user can bypass permissions (in a tenant, when given)
+   */
+  userCanBypassPermissions(user: User, tenantId?: number): boolean {
+    const scope = this.getUserTypeScope(user, tenantId);
+    return scope === 'global' || scope === 'tenant';
   }
 
   /**
@@ -173,6 +548,171 @@ export class PermissionEngine {
     );
   }
 
+  /**
+   * Build a decision and hand it to the decision logger, if one is set
+   */
+  private recordDecision(
+    user: User,
+    permissionShortName: string,
+    tenantId: number | undefined,
+    reason: PermissionDecisionReason,
+    matchedGrant?: string,
+    metadata?: Record<string, any>
+  ): PermissionDecision {
+    const decision: PermissionDecision = {
+      timestamp: new Date().toISOString(),
+      userId: user?.id,
+      userType: user?.userType,
+      tenantId,
+      permission: permissionShortName,
+      granted: GRANTING_REASONS.includes(reason),
+      reason,
+      matchedGrant,
+      metadata,
+    };
+
+    if (this.decisionLogger) {
+      try {
+        this.decisionLogger.log(decision);
+      } catch (error) {
+        console.error('Decision logger error:', error);
+      }
+    }
+
+    return decision;
+  }
+
+  /**
+   * Work out why a user does or does not hold a permission
+   */
+  private decide(
+    user: User,
+    permissionShortName: string,
+    tenantId?: number
+  ): { reason: PermissionDecisionReason; matchedGrant?: string } {
+    if (!user) return { reason: 'no-user' };
+
+    // Global user types can access everything
+    const scope = this.getUserTypeScope(user, tenantId);
+    if (scope === 'global') {
+      return { reason: 'global-bypass' };
+    }
+
+    // Tenant-scoped user types can access everything within their tenants
+    if (scope === 'tenant') {
+      return { reason: 'tenant-bypass' };
+    }
+
+    // Check user's permissions (from roles) and their user type's implicit
+    // grants, expanding wildcards. Deny grants override any allow for the
+    // same permission. Conditions need a resource to evaluate against, so
+    // without one a conditional allow is ignored and a conditional deny
+    // always applies; `can` evaluates both.
+    const grants = [...(user.permissions || []), ...this.getImplicitGrants(user, tenantId)];
+    const deny = grants.find(grant => this.deniesWithoutResource(grant, permissionShortName));
+
+    if (deny) {
+      return { reason: 'explicit-deny', matchedGrant: deny };
+    }
+
+    const allows = (grant: string) =>
+      !this.isDenyGrant(grant) && !this.isConditionalGrant(grant) && this.grantCovers(grant, permissionShortName);
+    const allow = (user.permissions || []).find(allows);
+    if (allow) {
+      return { reason: 'role-grant', matchedGrant: allow };
+    }
+
+    const implicitAllow = this.getImplicitGrants(user, tenantId).find(allows);
+    return implicitAllow ? { reason: 'user-type-grant', matchedGrant: implicitAllow } : { reason: 'missing' };
+  }
+
+  /**
+   * Like decide, but conditional grants are evaluated against the resource
+   */
+  private async decideOnResource(
+    user: User,
+    permissionShortName: string,
+    resource: any,
+    context: PermissionContext
+  ): Promise<{ reason: PermissionDecisionReason; matchedGrant?: string }> {
+    if (!user) return { reason: 'no-user' };
+
+    const scope = this.getUserTypeScope(user, context.tenantId);
+    if (scope === 'global' || scope === 'tenant') {
+      return { reason: scope === 'global' ? 'global-bypass' : 'tenant-bypass' };
+    }
+
+    const implicit = this.getImplicitGrants(user, context.tenantId);
+    const grants = [...(user.permissions || []), ...implicit]
+      .map(grant => ({ grant, ...this.parseGrant(grant) }))
+      .filter(grant => this.grantCovers(grant.permission, permissionShortName));
+    const conditionHolds = async (grant: ParsedGrant) =>
+      !grant.condition ||
+      this.evaluateCondition(grant.condition, { user, permission: permissionShortName, resource, context });
+
+    // Without a resource a conditional deny cannot be ruled out, so it applies
+    for (const grant of grants.filter(grant => grant.deny)) {
+      if (resource === undefined || await conditionHolds(grant)) {
+        return { reason: 'explicit-deny', matchedGrant: grant.grant };
+      }
+    }
+
+    for (const grant of grants.filter(grant => !grant.deny)) {
+      if (await conditionHolds(grant)) {
+        const reason = (user.permissions || []).includes(grant.grant) ? 'role-grant' : 'user-type-grant';
+        return { reason, matchedGrant: grant.grant };
+      }
+    }
+
+    return { reason: 'missing' };
+  }
+
+  /**
+   * Whether a grant denies a permission when there is no resource to check
+   * conditions against. Conditional denies fail closed.
+   */
+  private deniesWithoutResource(grant: string, permissionShortName: string): boolean {
+    const { deny, permission } = this.parseGrant(grant);
+    return deny && this.grantCovers(permission, permissionShortName);
+  }
+
+  /**
+   * Get the implicit grants of the user type that applies in a tenant
+   */
+  private getImplicitGrants(user: User, tenantId?: number): string[] {
+    return this.getUserTypeDefinition(this.getEffectiveUserType(user, tenantId))?.permissions || [];
+  }
+
+  /**
+   * Split a grant into its deny flag, permission and condition name
+   */
+  private parseGrant(grant: string): ParsedGrant {
+    const deny = this.isDenyGrant(grant);
+    const [permission, condition] = (deny ? grant.slice(DENY_PREFIX.length) : grant).split(CONDITION_SEPARATOR);
+    return { deny, permission, condition };
+  }
+
+  /**
+   * Run a named condition from the config; unknown conditions never hold
+   */
+  private async evaluateCondition(
+    name: string,
+    args: PermissionConditionArgs
+  ): Promise<boolean> {
+    const condition = this.config.conditions?.[name];
+    if (!condition) return false;
+
+    return Boolean(await condition(args));
+  }
+
+  /**
+   * Get the module name of a 'module.*' grant, or null if it is not one
+   */
+  private getWildcardModule(grant: string): string | null {
+    if (!grant.endsWith(MODULE_WILDCARD_SUFFIX)) return null;
+    return grant.slice(0, -MODULE_WILDCARD_SUFFIX.length);
+  }
+
   /**
    * Get the tenant configuration
    */
@@ -186,4 +726,18 @@ export class PermissionEngine {
   getPermissionsConfig() {
     return this.config.permissions;
   }
+
+  /**
+   * Get the role templates defined in the config
+   */
+  getRoleTemplates(): RoleTemplate[] {
+    return this.config.roleTemplates || [];
+  }
+
+  /**
+   * Get a role template by key
+   */
+  getRoleTemplate(key: string): RoleTemplate | undefined {
+    return this.getRoleTemplates().find(template => template.key === key);
+  }
 }
@@ -1,73 +1,216 @@
 import { Sequelize } from 'sequelize';
 import { PermissionEngine } from './permission-engine';
 import { RoleService } from './services/role-service';
-import { createModels } from './models';
-import { RBACConfig, User, Role, CreateRoleRequest, UpdateRoleRequest } from './types';
+import { UserPermissionService } from './services/user-permission-service';
+import { AuditService } from './services/audit-service';
+import { MembershipService } from './services/membership-service';
+import { TenantService } from './services/tenant-service';
+import { TenantBundleService } from './services/bundle-service';
+import { WebhookService } from './services/webhook-service';
+import {
+  RBACEventBus,
+  RBACEventName,
+  RBACEventListener,
+  RBACTransactionListener,
+  RBACBeforeEventName,
+  RBACBeforeHook,
+} from './events';
+import { PermissionCache } from './permission-cache';
+import { createModels, resolveSchema } from './models';
+import { StorageAdapter, SequelizeStorageAdapter } from './storage';
+import { Migrator, MigrationStatus } from './migrator';
+import {
+  RBACConfig,
+  User,
+  Role,
+  CreateRoleRequest,
+  UpdateRoleRequest,
+  PermissionContext,
+  RoleAssignmentOptions,
+  BulkRoleResult,
+  RoleTemplateDiff,
+  TenantProvisionOptions,
+  TenantProvisionResult,
+  TenantExport,
+  TenantTeardownResult,
+  TenantBundle,
+  TenantExportOptions,
+  TenantImportOptions,
+  TenantImportReport,
+  AuditLogQuery,
+  AuditLogPage,
+  PermissionExplanation,
+  TenantMembership,
+  TenantUserType,
+} from './types';
 
-export class RBAC {
-  public engine: PermissionEngine;
+export class RBAC<N extends string = string> {
+  public engine: PermissionEngine<N>;
   public roleService: RoleService;
-  private models: any;
-  private sequelize: Sequelize;
+  public userPermissionService: UserPermissionService;
+  public auditService: AuditService;
+  public membershipService: MembershipService;
+  public tenantService: TenantService;
+  public bundleService: TenantBundleService;
+  public webhookService: WebhookService;
+  public events: RBACEventBus;
+  public cache?: PermissionCache;
+  public migrator?: Migrator;
+  public storage: StorageAdapter;
+  private models?: ReturnType<typeof createModels>;
+
+  /**
+   * Persistence comes from `config.storage` when set, otherwise from Sequelize
+   * models created on `sequelize`
+   */
+  constructor(config: RBACConfig<N>, sequelize?: Sequelize) {
+    if (!config.storage && !sequelize) {
+      throw new Error('RBAC needs a Sequelize instance or a storage adapter');
+    }
 
-  constructor(config: RBACConfig, sequelize: Sequelize) {
-    this.sequelize = sequelize;
     this.engine = new PermissionEngine(config);
-    this.models = createModels(sequelize, config);
-    this.roleService = new RoleService(this.engine, this.models);
+    if (sequelize) {
+      this.models = createModels(sequelize, config);
+      this.migrator = new Migrator(sequelize, resolveSchema(config));
+    }
+    this.storage = config.storage || new SequelizeStorageAdapter(sequelize!, this.models!, config);
+    this.cache = config.cache ? new PermissionCache(config.cache) : undefined;
+    this.auditService = new AuditService(this.storage);
+    this.events = new RBACEventBus();
+    this.roleService = new RoleService(this.engine, this.storage, this.auditService, this.cache, this.events);
+    this.userPermissionService = new UserPermissionService(this.engine, this.storage, this.auditService, this.cache, this.events);
+    this.membershipService = new MembershipService(this.engine, this.storage, this.auditService, this.cache, this.events);
+    this.tenantService = new TenantService(
+      this.engine,
+      this.storage,
+      { roleService: this.roleService, membershipService: this.membershipService },
+      this.events,
+      this.auditService,
+      this.cache
+    );
+    this.bundleService = new TenantBundleService(
+      this.engine,
+      this.storage,
+      this.roleService,
+      this.events,
+      this.auditService,
+      this.cache
+    );
+    this.webhookService = new WebhookService(this.storage, this.events, config.webhooks);
   }
 
   /**
-   * Initialize the RBAC system (run migrations, etc.)
+   * Initialize the RBAC system by applying any pending migrations. Custom
+   * storage adapters manage their own schema, so there is nothing to do.
    */
   async initialize(): Promise<void> {
-    await this.sequelize.sync();
+    await this.migrator?.up();
+  }
+
+  /**
+   * Apply pending migrations, returning the names applied
+   */
+  async migrate(): Promise<string[]> {
+    return this.requireMigrator().up();
+  }
+
+  /**
+   * Revert the most recent migrations, returning the names reverted
+   */
+  async rollback(steps: number = 1): Promise<string[]> {
+    return this.requireMigrator().down(steps);
+  }
+
+  async getMigrationStatus(): Promise<MigrationStatus[]> {
+    return this.requireMigrator().status();
+  }
+
+  /**
+   * Subscribe to an RBAC event, returning a function that unsubscribes
+   */
+  on<E extends RBACEventName>(event: E, listener: RBACEventListener<E>): () => void {
+    return this.events.on(event, listener);
+  }
+
+  /**
+   * Run a listener inside each change's transaction, e.g. to write an outbox
+   * row through the given storage. Throwing rolls the change back.
+   */
+  inTransaction<E extends RBACEventName>(event: E, listener: RBACTransactionListener<E>): () => void {
+    return this.events.inTransaction(event, listener);
   }
 
   /**
-   * Get the Sequelize models
+   * Register a hook that runs before a change and may veto it
+   */
+  before<E extends RBACBeforeEventName>(event: E, hook: RBACBeforeHook<E>): () => void {
+    return this.events.before(event, hook);
+  }
+
+  /**
+   * Get the Sequelize models, undefined without a Sequelize instance
    */
   getModels() {
     return this.models;
   }
 
   /**
-   * Get user with roles and permissions populated
+   * Get user with roles and permissions populated, served from the cache when enabled
    */
   async getUserWithPermissions(userId: number, tenantId: number): Promise<User | null> {
-    const UserModel = this.sequelize.models.User;
-    
-    if (!UserModel) {
-      throw new Error('User model not found. Make sure to define User model in your Sequelize instance.');
+    if (!this.cache) {
+      return this.loadUserWithPermissions(userId, tenantId);
     }
 
-    const user = await UserModel.findByPk(userId, {
-      include: [
-        {
-          model: this.models.Role,
-          as: 'roles',
-          through: { attributes: [] },
-          where: {
-            [this.engine.getTenantConfig().field]: tenantId,
-          },
-          required: false,
-        },
-      ],
-    });
-
-    if (!user) {
-      return null;
+    return this.cache.getOrLoadUser(
+      userId,
+      tenantId,
+      () => this.loadUserWithPermissions(userId, tenantId),
+      () => this.roleService.getNextAssignmentChange(userId, tenantId)
+    );
+  }
+
+  /**
+   * Drop cached permissions for a user, e.g. after changing their user type
+   */
+  async invalidateUserPermissions(userId: number): Promise<void> {
+    await this.cache?.invalidateUser(userId);
+  }
+
+  private requireMigrator(): Migrator {
+    if (!this.migrator) {
+      throw new Error('Migrations need a Sequelize instance');
     }
 
-    const userData = user.toJSON() as User;
+    return this.migrator;
+  }
+
+  private async loadUserWithPermissions(userId: number, tenantId: number): Promise<User | null> {
+    const userData = await this.storage.findUserWithRoles(userId, tenantId, new Date());
 
-    // Flatten permissions from all roles
+    if (!userData) {
+      return null;
+    }
+
+    // Flatten permissions from all roles, including inherited ones
+    let rolePermissions: string[] = [];
     if (userData.roles) {
-      const allPermissions = new Set<string>();
-      userData.roles.forEach(role => {
-        role.permissions.forEach(permission => allPermissions.add(permission));
-      });
-      userData.permissions = Array.from(allPermissions);
+      const inherits = userData.roles.some(role => (role.parentRoleIds || []).length > 0);
+      const tenantRoles = inherits
+        ? await this.roleService.getRolesByTenant(tenantId)
+        : userData.roles;
+      rolePermissions = this.engine.resolveRolePermissions(userData.roles, tenantRoles);
+    }
+
+    // Merge in permissions granted directly to the user
+    const directPermissions = await this.userPermissionService.getUserDirectPermissions(userId, tenantId);
+    userData.permissions = Array.from(new Set([...rolePermissions, ...directPermissions]));
+
+    // Attach tenant memberships and the user type that applies in this tenant
+    userData.memberships = await this.membershipService.getUserMemberships(userId);
+    const activeUserType = this.engine.getEffectiveUserType(userData, tenantId);
+    if (activeUserType) {
+      userData.activeTenant = { tenantId, userType: activeUserType };
     }
 
     return userData;
@@ -78,18 +221,37 @@ export class RBAC {
    */
   async userHasPermission(
     user: User,
-    permission: string,
+    permission: N,
     tenantId?: number
   ): Promise<boolean> {
     return this.engine.userHasPermission(user, permission, tenantId);
   }
 
+  /**
+   * Check if user has permission on a specific resource
+   */
+  async can(
+    user: User,
+    permission: N,
+    resource?: any,
+    context?: PermissionContext
+  ): Promise<boolean> {
+    return this.engine.can(user, permission, resource, context);
+  }
+
+  /**
+   * Explain why a user does or does not hold a permission
+   */
+  explain(user: User, permission: N, tenantId?: number): PermissionExplanation {
+    return this.engine.explain(user, permission, tenantId);
+  }
+
   /**
    * Check if user has any of the permissions
    */
   async userHasAnyPermission(
     user: User,
-    permissions: string[],
+    permissions: N[],
     tenantId?: number
   ): Promise<boolean> {
     return this.engine.userHasAnyPermission(user, permissions, tenantId);
@@ -100,7 +262,7 @@ export class RBAC {
    */
   async userHasAllPermissions(
     user: User,
-    permissions: string[],
+    permissions: N[],
     tenantId?: number
   ): Promise<boolean> {
     return this.engine.userHasAllPermissions(user, permissions, tenantId);
@@ -109,8 +271,8 @@ export class RBAC {
   /**
    * Get all permissions for user
    */
-  async getUserPermissions(user: User): Promise<string[]> {
-    return this.engine.getUserPermissions(user);
+  async getUserPermissions(user: User, tenantId?: number): Promise<string[]> {
+    return this.engine.getUserPermissions(user, tenantId);
   }
 
   // Role management methods
@@ -134,8 +296,42 @@ export class RBAC {
     return this.roleService.deleteRole(roleId, tenantId, deletedBy);
   }
 
-  async assignRoleToUser(userId: number, roleId: number, tenantId: number, assignedBy: User): Promise<void> {
-    return this.roleService.assignRoleToUser(userId, roleId, tenantId, assignedBy);
+  async assignRoleToUser(
+    userId: number,
+    roleId: number,
+    tenantId: number,
+    assignedBy: User,
+    options?: RoleAssignmentOptions
+  ): Promise<void> {
+    return this.roleService.assignRoleToUser(userId, roleId, tenantId, assignedBy, options);
+  }
+
+  async assignRolesBulk(
+    userIds: number[],
+    roleIds: number[],
+    tenantId: number,
+    assignedBy: User,
+    options?: RoleAssignmentOptions
+  ): Promise<BulkRoleResult[]> {
+    return this.roleService.assignRolesBulk(userIds, roleIds, tenantId, assignedBy, options);
+  }
+
+  async removeRolesBulk(userIds: number[], roleIds: number[], tenantId: number, removedBy: User): Promise<BulkRoleResult[]> {
+    return this.roleService.removeRolesBulk(userIds, roleIds, tenantId, removedBy);
+  }
+
+  async replaceUserRoles(
+    userId: number,
+    roleIds: number[],
+    tenantId: number,
+    replacedBy: User,
+    options?: RoleAssignmentOptions
+  ): Promise<BulkRoleResult[]> {
+    return this.roleService.replaceUserRoles(userId, roleIds, tenantId, replacedBy, options);
+  }
+
+  async purgeExpiredAssignments(tenantId?: number): Promise<number> {
+    return this.roleService.purgeExpiredAssignments(tenantId);
   }
 
   async removeRoleFromUser(userId: number, roleId: number, tenantId: number, removedBy: User): Promise<void> {
@@ -145,4 +341,98 @@ export class RBAC {
   async getUserRoles(userId: number, tenantId: number): Promise<Role[]> {
     return this.roleService.getUserRoles(userId, tenantId);
   }
+
+  // Role template methods
+  async instantiateRoleTemplates(tenantId: number, createdBy: User, templateKeys?: string[]): Promise<Role[]> {
+    return this.roleService.instantiateTemplates(tenantId, createdBy, templateKeys);
+  }
+
+  async cloneRole(
+    roleId: number,
+    sourceTenantId: number,
+    targetTenantId: number,
+    clonedBy: User,
+    options?: { name?: string }
+  ): Promise<Role> {
+    return this.roleService.cloneRole(roleId, sourceTenantId, targetTenantId, clonedBy, options);
+  }
+
+  async previewTemplateSync(templateKey: string, tenantId?: number): Promise<RoleTemplateDiff[]> {
+    return this.roleService.previewTemplateSync(templateKey, tenantId);
+  }
+
+  async syncTemplate(templateKey: string, updatedBy: User, tenantId?: number): Promise<RoleTemplateDiff[]> {
+    return this.roleService.syncTemplate(templateKey, updatedBy, tenantId);
+  }
+
+  // Direct user permission methods
+  async grantPermissionToUser(userId: number, permission: string, tenantId: number, grantedBy: User): Promise<void> {
+    return this.userPermissionService.grantPermissionToUser(userId, permission, tenantId, grantedBy);
+  }
+
+  async revokePermissionFromUser(userId: number, permission: string, tenantId: number, revokedBy: User): Promise<void> {
+    return this.userPermissionService.revokePermissionFromUser(userId, permission, tenantId, revokedBy);
+  }
+
+  async getUserDirectPermissions(userId: number, tenantId: number): Promise<string[]> {
+    return this.userPermissionService.getUserDirectPermissions(userId, tenantId);
+  }
+
+  // Audit log methods
+  async getAuditLog(tenantId: number, query?: AuditLogQuery): Promise<AuditLogPage> {
+    return this.auditService.getAuditLog(tenantId, query);
+  }
+
+  // Tenant membership methods
+  async setTenantMembership(
+    userId: number,
+    tenantId: number,
+    userType: TenantUserType,
+    addedBy: User
+  ): Promise<TenantMembership> {
+    return this.membershipService.setMembership(userId, tenantId, userType, addedBy);
+  }
+
+  async removeTenantMembership(userId: number, tenantId: number, removedBy: User): Promise<void> {
+    return this.membershipService.removeMembership(userId, tenantId, removedBy);
+  }
+
+  async getUserMemberships(userId: number): Promise<TenantMembership[]> {
+    return this.membershipService.getUserMemberships(userId);
+  }
+
+  async getTenantMembers(tenantId: number): Promise<TenantMembership[]> {
+    return this.membershipService.getTenantMembers(tenantId);
+  }
+
+  // Tenant lifecycle methods
+  async provisionTenant(
+    tenantId: number,
+    provisionedBy: User,
+    options?: TenantProvisionOptions
+  ): Promise<TenantProvisionResult> {
+    return this.tenantService.provisionTenant(tenantId, provisionedBy, options);
+  }
+
+  async exportTenantData(tenantId: number, exportedBy: User): Promise<TenantExport> {
+    return this.tenantService.exportTenantData(tenantId, exportedBy);
+  }
+
+  async teardownTenant(tenantId: number, removedBy: User): Promise<TenantTeardownResult> {
+    return this.tenantService.teardownTenant(tenantId, removedBy);
+  }
+
+  // Tenant bundle methods
+  async exportTenant(tenantId: number, options?: TenantExportOptions): Promise<TenantBundle> {
+    return this.bundleService.exportTenant(tenantId, options);
+  }
+
+  async importTenant(
+    tenantId: number,
+    bundle: TenantBundle,
+    importedBy: User,
+    options?: TenantImportOptions
+  ): Promise<TenantImportReport> {
+    return this.bundleService.importTenant(tenantId, bundle, importedBy, options);
+  }
 }
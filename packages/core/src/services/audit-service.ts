@@ -0,0 +1,77 @@
+import { StorageAdapter } from '../storage/adapter';
+import { AuditAction, AuditLogPage, AuditLogQuery, Role, User } from '../types';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+export interface AuditRecord {
+  action: AuditAction;
+  tenantId: number;
+  actor?: User | null;
+  roleId?: number | null;
+  userId?: number | null;
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+}
+
+export class AuditService {
+  private storage: StorageAdapter;
+
+  constructor(storage: StorageAdapter) {
+    this.storage = storage;
+  }
+
+  /**
+   * Persist an audit entry through the storage of the change's transaction, so
+   * it commits or rolls back with the change. Derives the permission diff.
+   */
+  async record(entry: AuditRecord, storage: StorageAdapter): Promise<void> {
+    const beforePermissions: string[] = entry.before?.permissions || [];
+    const afterPermissions: string[] = entry.after?.permissions || [];
+
+    await storage.createAuditEntry({
+      actorId: entry.actor?.id ?? null,
+      action: entry.action,
+      roleId: entry.roleId ?? null,
+      userId: entry.userId ?? null,
+      before: entry.before ?? null,
+      after: entry.after ?? null,
+      permissionsAdded: afterPermissions.filter(p => !beforePermissions.includes(p)),
+      permissionsRemoved: beforePermissions.filter(p => !afterPermissions.includes(p)),
+    }, entry.tenantId);
+  }
+
+  /**
+   * Get a page of audit entries for a tenant, newest first
+   */
+  async getAuditLog(tenantId: number, query: AuditLogQuery = {}): Promise<AuditLogPage> {
+    const limit = Math.min(Math.max(query.limit || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+    const offset = Math.max(query.offset || 0, 0);
+
+    const { rows, total } = await this.storage.findAuditEntries(tenantId, {
+      action: query.action,
+      actorId: query.actorId,
+      roleId: query.roleId,
+      userId: query.userId,
+    }, limit, offset);
+
+    return {
+      entries: rows,
+      total,
+      limit,
+      offset,
+    };
+  }
+
+  /**
+   * Snapshot the audited fields of a role
+   */
+  snapshotRole(role: Role): Record<string, any> {
+    return {
+      name: role.name,
+      description: role.description ?? null,
+      permissions: [...(role.permissions || [])],
+      parentRoleIds: [...(role.parentRoleIds || [])],
+    };
+  }
+}
@@ -0,0 +1,600 @@
+import { PermissionEngine } from '../permission-engine';
+import { AuditService } from './audit-service';
+import { RoleService } from './role-service';
+import { PermissionCache } from '../permission-cache';
+import { RoleAssignment, StorageAdapter } from '../storage/adapter';
+import { RBACEventBus, diffRoles } from '../events';
+import {
+  Role,
+  TenantBundle,
+  TenantBundleAssignment,
+  TenantBundleRole,
+  TenantExportOptions,
+  TenantImportConflictType,
+  TenantImportMode,
+  TenantImportOptions,
+  TenantImportReport,
+  User,
+} from '../types';
+
+const BUNDLE_FORMAT = 'granular-rbac.tenant';
+const BUNDLE_VERSION = 1;
+
+interface ImportPlan {
+  creates: TenantBundleRole[];
+  updates: { role: Role; definition: TenantBundleRole }[];
+  deletes: Role[];
+  assignmentsToAdd: TenantBundleAssignment[];
+  assignmentsToRemove: RoleAssignment[];
+  expiredAssignments: RoleAssignment[];
+}
+
+interface AppliedImport {
+  created: Role[];
+  updated: { before: Role; after: Role }[];
+  deleted: Role[];
+  added: { assignment: RoleAssignment; role: Role }[];
+  removed: { assignment: RoleAssignment; role: Role }[];
+}
+
+export class TenantBundleService {
+  private engine: PermissionEngine;
+  private storage: StorageAdapter;
+  private roleService: RoleService;
+  private events: RBACEventBus;
+  private auditService?: AuditService;
+  private cache?: PermissionCache;
+
+  constructor(
+    engine: PermissionEngine,
+    storage: StorageAdapter,
+    roleService: RoleService,
+    events: RBACEventBus,
+    auditService?: AuditService,
+    cache?: PermissionCache
+  ) {
+    this.engine = engine;
+    this.storage = storage;
+    this.roleService = roleService;
+    this.events = events;
+    this.auditService = auditService;
+    this.cache = cache;
+  }
+
+  /**
+   * Export a tenant's roles as a portable bundle, referring to roles by name.
+   * Output is sorted so bundles diff cleanly under version control.
+   */
+  async exportTenant(tenantId: number, options: TenantExportOptions = {}): Promise<TenantBundle> {
+    const roles = await this.storage.findRoles(tenantId);
+    const names = new Map(roles.map(role => [role.id, role.name]));
+
+    const bundle: TenantBundle = {
+      format: BUNDLE_FORMAT,
+      version: BUNDLE_VERSION,
+      exportedAt: new Date().toISOString(),
+      permissions: [...this.engine.getAllPermissionShortNames()].sort(),
+      roles: roles
+        .map(role => ({
+          name: role.name,
+          description: role.description ?? null,
+          permissions: [...role.permissions].sort(),
+          parents: this.parentNames(role, names).sort(),
+          templateKey: role.templateKey ?? null,
+        }))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    };
+
+    if (options.includeAssignments) {
+      const assignments = await this.storage.findRoleAssignments(roles.map(role => role.id));
+
+      bundle.assignments = assignments
+        .map(assignment => ({
+          userId: assignment.userId,
+          role: names.get(assignment.roleId)!,
+          validFrom: assignment.validFrom ? assignment.validFrom.toISOString() : null,
+          expiresAt: assignment.expiresAt ? assignment.expiresAt.toISOString() : null,
+        }))
+        .sort((a, b) => a.userId - b.userId || a.role.localeCompare(b.role));
+    }
+
+    return bundle;
+  }
+
+  /**
+   * Import a bundle into a tenant. Merge adds missing roles and assignments
+   * and keeps the tenant's version of roles that differ; replace makes the
+   * tenant match the bundle exactly. Nothing is written on a dry run or when
+   * any blocking conflict is found, and the report says what would change.
+   */
+  async importTenant(
+    tenantId: number,
+    bundle: TenantBundle,
+    importedBy: User,
+    options: TenantImportOptions = {}
+  ): Promise<TenantImportReport> {
+    this.validateBundle(bundle);
+
+    const mode = options.mode || 'merge';
+    const dryRun = options.dryRun === true;
+
+    if (mode !== 'merge' && mode !== 'replace') {
+      throw new Error(`Unknown import mode: ${mode}`);
+    }
+
+    const existing = await this.storage.findRoles(tenantId);
+    const existingAssignments = await this.storage.findRoleAssignments(existing.map(role => role.id));
+    const knownPermissions = new Set<string>(this.engine.getAllPermissionShortNames());
+
+    const report: TenantImportReport = {
+      mode,
+      dryRun,
+      applied: false,
+      roles: { created: [], updated: [], deleted: [], unchanged: [] },
+      assignments: { added: 0, removed: 0, unchanged: 0 },
+      unknownPermissions: bundle.permissions.filter(permission => !knownPermissions.has(permission)),
+      conflicts: [],
+    };
+
+    const plan = this.planImport(
+      bundle,
+      existing,
+      existingAssignments,
+      mode,
+      options.assignments !== false && bundle.assignments !== undefined,
+      report
+    );
+
+    report.roles.created = plan.creates.map(definition => definition.name);
+    report.roles.updated = plan.updates.map(update => update.role.name);
+    report.roles.deleted = plan.deletes.map(role => role.name);
+    report.assignments.added = plan.assignmentsToAdd.length;
+    report.assignments.removed = plan.assignmentsToRemove.length;
+
+    if (dryRun || report.conflicts.some(conflict => conflict.blocking)) {
+      return report;
+    }
+
+    const applied = await this.applyImport(plan, existing, tenantId, importedBy);
+
+    report.applied = true;
+    await this.recordImport(applied, tenantId, importedBy);
+
+    return report;
+  }
+
+  /**
+   * Work out the changes an import makes, recording conflicts on the report
+   */
+  private planImport(
+    bundle: TenantBundle,
+    existing: Role[],
+    existingAssignments: RoleAssignment[],
+    mode: TenantImportMode,
+    withAssignments: boolean,
+    report: TenantImportReport
+  ): ImportPlan {
+    const existingNames = new Map(existing.map(role => [role.id, role.name]));
+    const existingByName = new Map(existing.map(role => [role.name, role]));
+    const bundleNames = new Set(bundle.roles.map(definition => definition.name));
+    const plan: ImportPlan = {
+      creates: [],
+      updates: [],
+      deletes: [],
+      assignmentsToAdd: [],
+      assignmentsToRemove: [],
+      expiredAssignments: [],
+    };
+
+    const conflict = (role: string, type: TenantImportConflictType, message: string, blocking = true) => {
+      report.conflicts.push({ role, type, message, blocking });
+    };
+
+    // Parents of every role once the import is done, used for the parent and cycle checks
+    const finalParents = new Map<string, string[]>();
+
+    if (mode === 'merge') {
+      for (const role of existing) {
+        finalParents.set(role.name, this.parentNames(role, existingNames));
+      }
+    }
+
+    for (const definition of bundle.roles) {
+      const { valid, invalid } = this.engine.validatePermissions(definition.permissions);
+      const conflicting = this.engine.findConflictingGrants(valid);
+
+      if (invalid.length > 0) {
+        conflict(definition.name, 'invalid-permissions', `Invalid permissions: ${invalid.join(', ')}`);
+      } else if (conflicting.length > 0) {
+        conflict(definition.name, 'invalid-permissions', `Permissions both allowed and denied: ${conflicting.join(', ')}`);
+      }
+
+      const current = existingByName.get(definition.name);
+
+      if (!current) {
+        plan.creates.push(definition);
+        finalParents.set(definition.name, definition.parents);
+      } else if (this.sameRole(current, definition, existingNames)) {
+        report.roles.unchanged.push(definition.name);
+        finalParents.set(definition.name, definition.parents);
+      } else if (mode === 'merge') {
+        conflict(definition.name, 'differs', 'Role differs from the bundle; keeping the tenant\'s version', false);
+      } else {
+        plan.updates.push({ role: current, definition });
+        finalParents.set(definition.name, definition.parents);
+      }
+    }
+
+    if (mode === 'replace') {
+      plan.deletes = existing.filter(role => !bundleNames.has(role.name));
+    }
+
+    for (const [name, parents] of finalParents) {
+      for (const parent of parents.filter(parent => !finalParents.has(parent))) {
+        conflict(name, 'missing-parent', `Parent role ${parent} is not in the bundle or the tenant`);
+      }
+    }
+
+    for (const name of this.findCycles(finalParents)) {
+      conflict(name, 'cycle', 'Role would inherit from itself');
+    }
+
+    if (withAssignments) {
+      const current = new Map(existingAssignments.map(a => [`${a.userId}:${existingNames.get(a.roleId)}`, a]));
+      const wanted = new Set<string>();
+
+      for (const assignment of bundle.assignments!) {
+        const key = `${assignment.userId}:${assignment.role}`;
+        const existingAssignment = current.get(key);
+
+        if (wanted.has(key)) continue;
+        wanted.add(key);
+
+        if (!finalParents.has(assignment.role)) {
+          conflict(assignment.role, 'missing-role', `User ${assignment.userId} is assigned a role that will not exist`);
+        } else if (existingAssignment && !this.roleService.hasExpired(existingAssignment)) {
+          report.assignments.unchanged++;
+        } else {
+          // An expired assignment is replaced by the bundle's, as replaceUserRoles does
+          if (existingAssignment) plan.expiredAssignments.push(existingAssignment);
+          plan.assignmentsToAdd.push(assignment);
+        }
+      }
+
+      if (mode === 'replace') {
+        plan.assignmentsToRemove = Array.from(current.entries())
+          .filter(([key]) => !wanted.has(key))
+          .map(([, assignment]) => assignment);
+      }
+    } else {
+      for (const role of plan.deletes) {
+        if (existingAssignments.some(assignment => assignment.roleId === role.id)) {
+          conflict(role.name, 'in-use', 'Role is assigned to users but the import carries no assignments');
+        }
+      }
+    }
+
+    return plan;
+  }
+
+  /**
+   * Write a planned import in one transaction, running before-hooks for each change
+   */
+  private async applyImport(plan: ImportPlan, existing: Role[], tenantId: number, actor: User): Promise<AppliedImport> {
+    return this.storage.transaction(async storage => {
+      const rolesByName = new Map(existing.map(role => [role.name, role]));
+      const idOf = (name: string) => rolesByName.get(name)!.id;
+      const result: AppliedImport = { created: [], updated: [], deleted: [], added: [], removed: [] };
+
+      // Created roles get their parents once every role exists
+      for (const definition of plan.creates) {
+        await this.events.emitBefore('role.created', {
+          tenantId,
+          actor,
+          data: {
+            name: definition.name,
+            description: definition.description ?? undefined,
+            permissions: definition.permissions,
+            templateKey: definition.templateKey ?? undefined,
+          },
+        });
+
+        const role = await storage.createRole({
+          name: definition.name,
+          description: definition.description,
+          permissions: definition.permissions,
+          parentRoleIds: [],
+          templateKey: definition.templateKey,
+        }, tenantId);
+
+        rolesByName.set(role.name, role);
+      }
+
+      for (const definition of plan.creates) {
+        let role = rolesByName.get(definition.name)!;
+
+        if (definition.parents.length > 0) {
+          role = await storage.updateRole(role.id, tenantId, { parentRoleIds: definition.parents.map(idOf) });
+          rolesByName.set(role.name, role);
+        }
+
+        result.created.push(role);
+      }
+
+      for (const { role, definition } of plan.updates) {
+        const parentRoleIds = definition.parents.map(idOf);
+
+        await this.events.emitBefore('role.updated', {
+          tenantId,
+          actor,
+          role,
+          changes: {
+            description: definition.description ?? undefined,
+            permissions: definition.permissions,
+            parentRoleIds,
+          },
+        });
+
+        const updated = await storage.updateRole(role.id, tenantId, {
+          description: definition.description,
+          permissions: definition.permissions,
+          parentRoleIds,
+          templateKey: definition.templateKey,
+        });
+
+        rolesByName.set(updated.name, updated);
+        result.updated.push({ before: role, after: updated });
+      }
+
+      const rolesById = new Map(existing.map(role => [role.id, role]));
+
+      for (const assignment of plan.assignmentsToRemove) {
+        const role = rolesById.get(assignment.roleId)!;
+
+        await this.events.emitBefore('assignment.removed', { tenantId, actor, userId: assignment.userId, role });
+        await storage.deleteAssignment(assignment.userId, assignment.roleId);
+        result.removed.push({ assignment, role });
+      }
+
+      for (const role of plan.deletes) {
+        await this.events.emitBefore('role.deleted', { tenantId, actor, role });
+        await storage.deleteRole(role.id, tenantId);
+        result.deleted.push(role);
+      }
+
+      for (const assignment of plan.expiredAssignments) {
+        await storage.deleteAssignment(assignment.userId, assignment.roleId);
+      }
+
+      for (const entry of plan.assignmentsToAdd) {
+        const role = rolesByName.get(entry.role)!;
+        const assignment: RoleAssignment = {
+          userId: entry.userId,
+          roleId: role.id,
+          validFrom: entry.validFrom ? new Date(entry.validFrom) : null,
+          expiresAt: entry.expiresAt ? new Date(entry.expiresAt) : null,
+        };
+
+        await this.events.emitBefore('assignment.added', {
+          tenantId,
+          actor,
+          userId: assignment.userId,
+          role,
+          validFrom: assignment.validFrom,
+          expiresAt: assignment.expiresAt,
+        });
+        await this.roleService.createAssignment(storage, assignment);
+        result.added.push({ assignment, role });
+      }
+
+      await this.recordImportInTransaction(result, tenantId, actor, storage);
+      return result;
+    });
+  }
+
+  /**
+   * Audit each change and run its transaction listeners, in the order recordImport announces them
+   */
+  private async recordImportInTransaction(
+    applied: AppliedImport,
+    tenantId: number,
+    actor: User,
+    storage: StorageAdapter
+  ): Promise<void> {
+    for (const role of applied.created) {
+      await this.auditService?.record({
+        action: 'role.created',
+        tenantId,
+        actor,
+        roleId: role.id,
+        after: this.auditService.snapshotRole(role),
+      }, storage);
+      await this.events.emitInTransaction('role.created', { tenantId, actor, role }, storage);
+    }
+
+    for (const { before, after } of applied.updated) {
+      await this.auditService?.record({
+        action: 'role.updated',
+        tenantId,
+        actor,
+        roleId: after.id,
+        before: this.auditService.snapshotRole(before),
+        after: this.auditService.snapshotRole(after),
+      }, storage);
+      await this.events.emitInTransaction('role.updated', {
+        tenantId,
+        actor,
+        before,
+        after,
+        diff: diffRoles(before, after),
+      }, storage);
+    }
+
+    for (const { assignment, role } of applied.removed) {
+      await this.auditService?.record({
+        action: 'assignment.removed',
+        tenantId,
+        actor,
+        roleId: role.id,
+        userId: assignment.userId,
+        before: { permissions: [...role.permissions] },
+      }, storage);
+      await this.events.emitInTransaction('assignment.removed', { tenantId, actor, userId: assignment.userId, role }, storage);
+    }
+
+    for (const role of applied.deleted) {
+      await this.auditService?.record({
+        action: 'role.deleted',
+        tenantId,
+        actor,
+        roleId: role.id,
+        before: this.auditService.snapshotRole(role),
+      }, storage);
+      await this.events.emitInTransaction('role.deleted', { tenantId, actor, role }, storage);
+    }
+
+    for (const { assignment, role } of applied.added) {
+      await this.auditService?.record({
+        action: 'assignment.added',
+        tenantId,
+        actor,
+        roleId: role.id,
+        userId: assignment.userId,
+        after: {
+          permissions: [...role.permissions],
+          validFrom: assignment.validFrom,
+          expiresAt: assignment.expiresAt,
+        },
+      }, storage);
+      await this.events.emitInTransaction('assignment.added', {
+        tenantId,
+        actor,
+        userId: assignment.userId,
+        role,
+        validFrom: assignment.validFrom,
+        expiresAt: assignment.expiresAt,
+      }, storage);
+    }
+  }
+
+  /**
+   * Invalidate cached permissions, then announce each committed change
+   */
+  private async recordImport(applied: AppliedImport, tenantId: number, actor: User): Promise<void> {
+    await this.cache?.invalidateTenant(tenantId);
+
+    for (const role of applied.created) {
+      await this.events.emit('role.created', { tenantId, actor, role });
+    }
+
+    for (const { before, after } of applied.updated) {
+      await this.events.emit('role.updated', { tenantId, actor, before, after, diff: diffRoles(before, after) });
+    }
+
+    for (const { assignment, role } of applied.removed) {
+      await this.events.emit('assignment.removed', { tenantId, actor, userId: assignment.userId, role });
+    }
+
+    for (const role of applied.deleted) {
+      await this.events.emit('role.deleted', { tenantId, actor, role });
+    }
+
+    for (const { assignment, role } of applied.added) {
+      await this.events.emit('assignment.added', {
+        tenantId,
+        actor,
+        userId: assignment.userId,
+        role,
+        validFrom: assignment.validFrom,
+        expiresAt: assignment.expiresAt,
+      });
+    }
+  }
+
+  /**
+   * Reject anything that is not a well-formed bundle this version understands
+   */
+  private validateBundle(bundle: TenantBundle): void {
+    if (!bundle || bundle.format !== BUNDLE_FORMAT || bundle.version !== BUNDLE_VERSION) {
+      throw new Error(`Unsupported tenant bundle: expected format ${BUNDLE_FORMAT} version ${BUNDLE_VERSION}`);
+    }
+
+    const isStringList = (value: unknown) => Array.isArray(value) && value.every(item => typeof item === 'string');
+    const isOptionalString = (value: unknown) => value === null || value === undefined || typeof value === 'string';
+    const isOptionalDate = (value: unknown) =>
+      value === null || value === undefined || (typeof value === 'string' && !isNaN(Date.parse(value)));
+
+    if (!isStringList(bundle.permissions) || !Array.isArray(bundle.roles)) {
+      throw new Error('Invalid tenant bundle: permissions and roles must be arrays');
+    }
+
+    const names = new Set<string>();
+
+    for (const role of bundle.roles) {
+      if (!role || typeof role.name !== 'string' || !role.name) {
+        throw new Error('Invalid tenant bundle: every role needs a name');
+      }
+      if (names.has(role.name)) {
+        throw new Error(`Invalid tenant bundle: duplicate role ${role.name}`);
+      }
+      if (!isStringList(role.permissions) || !isStringList(role.parents)
+        || !isOptionalString(role.description) || !isOptionalString(role.templateKey)) {
+        throw new Error(`Invalid tenant bundle: malformed role ${role.name}`);
+      }
+      names.add(role.name);
+    }
+
+    if (bundle.assignments !== undefined) {
+      if (!Array.isArray(bundle.assignments)) {
+        throw new Error('Invalid tenant bundle: assignments must be an array');
+      }
+
+      for (const assignment of bundle.assignments) {
+        if (!assignment || !Number.isInteger(assignment.userId) || typeof assignment.role !== 'string'
+          || !isOptionalDate(assignment.validFrom) || !isOptionalDate(assignment.expiresAt)) {
+          throw new Error('Invalid tenant bundle: malformed assignment');
+        }
+      }
+    }
+  }
+
+  /**
+   * Whether a stored role already matches its bundle definition
+   */
+  private sameRole(role: Role, definition: TenantBundleRole, names: Map<number, string>): boolean {
+    const sameSet = (a: string[], b: string[]) => a.length === b.length && a.every(item => b.includes(item));
+
+    return (role.description ?? null) === (definition.description ?? null)
+      && (role.templateKey ?? null) === (definition.templateKey ?? null)
+      && sameSet(role.permissions, definition.permissions)
+      && sameSet(this.parentNames(role, names), definition.parents);
+  }
+
+  private parentNames(role: Role, names: Map<number, string>): string[] {
+    return (role.parentRoleIds || [])
+      .map(id => names.get(id))
+      .filter((name): name is string => name !== undefined);
+  }
+
+  /**
+   * Names of roles that would end up inheriting from themselves
+   */
+  private findCycles(parents: Map<string, string[]>): string[] {
+    return Array.from(parents.keys()).filter(start => {
+      const seen = new Set<string>();
+      const stack = [...(parents.get(start) || [])];
+
+      while (stack.length > 0) {
+        const name = stack.pop()!;
+
+        if (name === start) return true;
+        if (seen.has(name)) continue;
+
+        seen.add(name);
+        stack.push(...(parents.get(name) || []));
+      }
+
+      return false;
+    });
+  }
+}
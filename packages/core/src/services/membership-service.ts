@@ -0,0 +1,116 @@
+import { PermissionEngine } from '../permission-engine';
+import { AuditService } from './audit-service';
+import { PermissionCache } from '../permission-cache';
+import { RBACEventBus } from '../events';
+import { StorageAdapter } from '../storage/adapter';
+import { TenantMembership, TenantUserType, User } from '../types';
+
+export class MembershipService {
+  private engine: PermissionEngine;
+  private storage: StorageAdapter;
+  private auditService?: AuditService;
+  private cache?: PermissionCache;
+  public events: RBACEventBus;
+
+  constructor(
+    engine: PermissionEngine,
+    storage: StorageAdapter,
+    auditService?: AuditService,
+    cache?: PermissionCache,
+    events?: RBACEventBus
+  ) {
+    this.engine = engine;
+    this.storage = storage;
+    this.auditService = auditService;
+    this.cache = cache;
+    this.events = events || new RBACEventBus();
+  }
+
+  /**
+   * Add a user to a tenant, or change their user type there
+   */
+  async setMembership(
+    userId: number,
+    tenantId: number,
+    userType: TenantUserType,
+    addedBy: User
+  ): Promise<TenantMembership> {
+    this.validateUserType(userType);
+
+    const existing = await this.storage.findMembership(userId, tenantId);
+    const previousType: TenantUserType | undefined = existing?.userType;
+
+    await this.events.emitBefore('membership.added', { tenantId, actor: addedBy, userId, userType });
+
+    const change = { tenantId, actor: addedBy, userId, userType, previousType: previousType || null };
+
+    await this.storage.transaction(async storage => {
+      await storage.saveMembership({ userId, tenantId, userType });
+      await this.auditService?.record({
+        action: 'membership.added',
+        tenantId,
+        actor: addedBy,
+        userId,
+        before: previousType ? { userType: previousType } : null,
+        after: { userType },
+      }, storage);
+      await this.events.emitInTransaction('membership.added', change, storage);
+    });
+
+    // Memberships are attached to the user in every tenant
+    await this.cache?.invalidateUser(userId);
+
+    await this.events.emit('membership.added', change);
+
+    return { userId, tenantId, userType };
+  }
+
+  /**
+   * Remove a user from a tenant
+   */
+  async removeMembership(userId: number, tenantId: number, removedBy: User): Promise<void> {
+    const change = { tenantId, actor: removedBy, userId };
+    await this.events.emitBefore('membership.removed', change);
+
+    await this.storage.transaction(async storage => {
+      if (!await storage.deleteMembership(userId, tenantId)) {
+        throw new Error('User is not a member of this tenant');
+      }
+
+      await this.auditService?.record({
+        action: 'membership.removed',
+        tenantId,
+        actor: removedBy,
+        userId,
+      }, storage);
+      await this.events.emitInTransaction('membership.removed', change, storage);
+    });
+
+    await this.cache?.invalidateUser(userId);
+
+    await this.events.emit('membership.removed', change);
+  }
+
+  /**
+   * Get every tenant a user belongs to
+   */
+  async getUserMemberships(userId: number): Promise<TenantMembership[]> {
+    return this.storage.findUserMemberships(userId);
+  }
+
+  /**
+   * Get all members of a tenant
+   */
+  async getTenantMembers(tenantId: number): Promise<TenantMembership[]> {
+    return this.storage.findTenantMemberships(tenantId);
+  }
+
+  // Global user types apply everywhere and cannot be granted per tenant
+  validateUserType(userType: TenantUserType): void {
+    const definition = this.engine.getUserTypeDefinition(userType);
+
+    if (!definition || definition.scope === 'global') {
+      throw new Error(`Invalid tenant user type: ${userType}`);
+    }
+  }
+}
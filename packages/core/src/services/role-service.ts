@@ -1,18 +1,38 @@
 import { PermissionEngine } from '../permission-engine';
-import { CreateRoleRequest, UpdateRoleRequest, Role, User } from '../types';
+import { AuditService } from './audit-service';
+import { PermissionCache } from '../permission-cache';
+import { RoleAssignment, StorageAdapter } from '../storage/adapter';
+import { RBACBeforeEventMap, RBACEventBus, RBACVetoError, diffRoles } from '../events';
+import {
+  CreateRoleRequest,
+  UpdateRoleRequest,
+  Role,
+  User,
+  RoleAssignmentOptions,
+  BulkRoleResult,
+  RoleTemplate,
+  RoleTemplateDiff,
+} from '../types';
 
 export class RoleService {
   private engine: PermissionEngine;
-  private RoleModel: any;
-  private UserRoleModel: any;
+  private storage: StorageAdapter;
+  private auditService?: AuditService;
+  private cache?: PermissionCache;
+  public events: RBACEventBus;
 
   constructor(
     engine: PermissionEngine,
-    models: { Role: any; UserRole: any }
+    storage: StorageAdapter,
+    auditService?: AuditService,
+    cache?: PermissionCache,
+    events?: RBACEventBus
   ) {
     this.engine = engine;
-    this.RoleModel = models.Role;
-    this.UserRoleModel = models.UserRole;
+    this.storage = storage;
+    this.auditService = auditService;
+    this.cache = cache;
+    this.events = events || new RBACEventBus();
   }
 
   /**
@@ -23,62 +43,62 @@ export class RoleService {
     tenantId: number,
     createdBy: User
   ): Promise<Role> {
-    // Validate permissions
-    const { valid, invalid } = this.engine.validatePermissions(data.permissions);
-    
-    if (invalid.length > 0) {
-      throw new Error(`Invalid permissions: ${invalid.join(', ')}`);
-    }
+    const valid = this.validateRolePermissions(data.permissions);
 
     // Check if role name already exists for this tenant
-    const existingRole = await this.RoleModel.findOne({
-      where: {
-        name: data.name,
-        [this.engine.getTenantConfig().field]: tenantId,
-      },
-    });
+    const existingRole = await this.storage.findRoleByName(data.name, tenantId);
 
     if (existingRole) {
       throw new Error('Role with this name already exists for this tenant');
     }
 
+    const parentRoleIds = await this.validateParentRoles(data.parentRoleIds || [], tenantId);
+
+    await this.events.emitBefore('role.created', {
+      tenantId,
+      actor: createdBy,
+      data: { ...data, permissions: valid, parentRoleIds },
+    });
+
     // Create the role
-    const role = await this.RoleModel.create({
-      name: data.name,
-      description: data.description,
-      permissions: valid,
-      [this.engine.getTenantConfig().field]: tenantId,
+    const created = await this.storage.transaction(async storage => {
+      const role = await storage.createRole({
+        name: data.name,
+        description: data.description,
+        permissions: valid,
+        parentRoleIds,
+        templateKey: data.templateKey || null,
+      }, tenantId);
+
+      await this.auditService?.record({
+        action: 'role.created',
+        tenantId,
+        actor: createdBy,
+        roleId: role.id,
+        after: this.auditService.snapshotRole(role),
+      }, storage);
+
+      await this.events.emitInTransaction('role.created', { tenantId, actor: createdBy, role }, storage);
+      return role;
     });
 
-    return role.toJSON();
+    await this.events.emit('role.created', { tenantId, actor: createdBy, role: created });
+
+    return created;
   }
 
   /**
    * Get all roles for a tenant
    */
   async getRolesByTenant(tenantId: number): Promise<Role[]> {
-    const roles = await this.RoleModel.findAll({
-      where: {
-        [this.engine.getTenantConfig().field]: tenantId,
-      },
-      order: [['createdAt', 'DESC']],
-    });
-
-    return roles.map((role: any) => role.toJSON());
+    return this.storage.findRoles(tenantId);
   }
 
   /**
    * Get a specific role by ID
    */
   async getRoleById(roleId: number, tenantId: number): Promise<Role | null> {
-    const role = await this.RoleModel.findOne({
-      where: {
-        id: roleId,
-        [this.engine.getTenantConfig().field]: tenantId,
-      },
-    });
-
-    return role ? role.toJSON() : null;
+    return this.storage.findRoleById(roleId, tenantId);
   }
 
   /**
@@ -90,75 +110,111 @@ export class RoleService {
     tenantId: number,
     updatedBy: User
   ): Promise<Role> {
-    const role = await this.RoleModel.findOne({
-      where: {
-        id: roleId,
-        [this.engine.getTenantConfig().field]: tenantId,
-      },
-    });
+    const role = await this.storage.findRoleById(roleId, tenantId);
 
     if (!role) {
       throw new Error('Role not found');
     }
 
+    const changes: UpdateRoleRequest = { ...data };
+
     // Validate permissions if provided
     if (data.permissions) {
-      const { valid, invalid } = this.engine.validatePermissions(data.permissions);
-      
-      if (invalid.length > 0) {
-        throw new Error(`Invalid permissions: ${invalid.join(', ')}`);
-      }
-      
-      data.permissions = valid;
+      changes.permissions = this.validateRolePermissions(data.permissions);
+    }
+
+    // Validate parent roles if provided
+    if (data.parentRoleIds) {
+      changes.parentRoleIds = await this.validateParentRoles(data.parentRoleIds, tenantId, roleId);
     }
 
     // Check for name conflicts if name is being updated
     if (data.name && data.name !== role.name) {
-      const existingRole = await this.RoleModel.findOne({
-        where: {
-          name: data.name,
-          [this.engine.getTenantConfig().field]: tenantId,
-          id: { [this.RoleModel.sequelize.Sequelize.Op.ne]: roleId },
-        },
-      });
+      const existingRole = await this.storage.findRoleByName(data.name, tenantId);
 
-      if (existingRole) {
+      if (existingRole && existingRole.id !== roleId) {
         throw new Error('Role with this name already exists for this tenant');
       }
     }
 
+    await this.events.emitBefore('role.updated', { tenantId, actor: updatedBy, role, changes });
+
     // Update the role
-    await role.update(data);
-    await role.reload();
+    const updated = await this.storage.transaction(async storage => {
+      const after = await storage.updateRole(roleId, tenantId, changes);
+
+      await this.auditService?.record({
+        action: 'role.updated',
+        tenantId,
+        actor: updatedBy,
+        roleId,
+        before: this.auditService.snapshotRole(role),
+        after: this.auditService.snapshotRole(after),
+      }, storage);
+
+      await this.events.emitInTransaction('role.updated', {
+        tenantId,
+        actor: updatedBy,
+        before: role,
+        after,
+        diff: diffRoles(role, after),
+      }, storage);
+      return after;
+    });
+
+    // Roles inheriting from this one change too, so drop the whole tenant
+    await this.cache?.invalidateTenant(tenantId);
 
-    return role.toJSON();
+    await this.events.emit('role.updated', {
+      tenantId,
+      actor: updatedBy,
+      before: role,
+      after: updated,
+      diff: diffRoles(role, updated),
+    });
+
+    return updated;
   }
 
   /**
    * Delete a role
    */
   async deleteRole(roleId: number, tenantId: number, deletedBy: User): Promise<void> {
-    const role = await this.RoleModel.findOne({
-      where: {
-        id: roleId,
-        [this.engine.getTenantConfig().field]: tenantId,
-      },
-    });
+    const role = await this.storage.findRoleById(roleId, tenantId);
 
     if (!role) {
       throw new Error('Role not found');
     }
 
-    // Check if role is assigned to any users
-    const userRoleCount = await this.UserRoleModel.count({
-      where: { roleId },
-    });
-
-    if (userRoleCount > 0) {
-      throw new Error('Cannot delete role that is assigned to users');
+    // Check if other roles inherit from this role
+    const tenantRoles = await this.getRolesByTenant(tenantId);
+    if (tenantRoles.some(tenantRole => (tenantRole.parentRoleIds || []).includes(roleId))) {
+      throw new Error('Cannot delete role that other roles inherit from');
     }
 
-    await role.destroy();
+    await this.events.emitBefore('role.deleted', { tenantId, actor: deletedBy, role });
+
+    await this.storage.transaction(async storage => {
+      // Expired assignments no longer hold the role, so clear them before checking for users
+      await storage.deleteExpiredAssignments(new Date(), [roleId]);
+
+      if (await storage.countAssignments(roleId) > 0) {
+        throw new Error('Cannot delete role that is assigned to users');
+      }
+
+      await storage.deleteRole(roleId, tenantId);
+      await this.auditService?.record({
+        action: 'role.deleted',
+        tenantId,
+        actor: deletedBy,
+        roleId,
+        before: this.auditService.snapshotRole(role),
+      }, storage);
+      await this.events.emitInTransaction('role.deleted', { tenantId, actor: deletedBy, role }, storage);
+    });
+    await this.cache?.invalidateTenant(tenantId);
+
+    await this.events.emit('role.deleted', { tenantId, actor: deletedBy, role });
   }
 
   /**
@@ -168,31 +224,62 @@ export class RoleService {
     userId: number,
     roleId: number,
     tenantId: number,
-    assignedBy: User
+    assignedBy: User,
+    options: RoleAssignmentOptions = {}
   ): Promise<void> {
+    const { validFrom, expiresAt } = options;
+
+    if (expiresAt && expiresAt <= (validFrom || new Date())) {
+      throw new Error('Assignment must expire after it becomes valid');
+    }
+
     // Verify role belongs to the tenant
-    const role = await this.RoleModel.findOne({
-      where: {
-        id: roleId,
-        [this.engine.getTenantConfig().field]: tenantId,
-      },
-    });
+    const role = await this.storage.findRoleById(roleId, tenantId);
 
     if (!role) {
       throw new Error('Role not found');
     }
 
-    // Check if assignment already exists
-    const existingAssignment = await this.UserRoleModel.findOne({
-      where: { userId, roleId },
-    });
+    const change = { tenantId, actor: assignedBy, userId, role, validFrom: validFrom || null, expiresAt: expiresAt || null };
 
-    if (existingAssignment) {
-      throw new Error('User already has this role');
-    }
+    // Create the assignment, replacing an expired one for the same role. The
+    // unique index catches a concurrent assign that passes the check
+    await this.storage.transaction(async storage => {
+      const existingAssignment = await storage.findAssignment(userId, roleId);
+
+      if (existingAssignment && !this.hasExpired(existingAssignment)) {
+        throw new Error('User already has this role');
+      }
+
+      await this.events.emitBefore('assignment.added', change);
 
-    // Create the assignment
-    await this.UserRoleModel.create({ userId, roleId });
+      if (existingAssignment) {
+        await storage.deleteAssignment(userId, roleId);
+      }
+
+      await this.createAssignment(storage, {
+        userId,
+        roleId,
+        validFrom: validFrom || null,
+        expiresAt: expiresAt || null,
+      });
+      await this.auditService?.record({
+        action: 'assignment.added',
+        tenantId,
+        actor: assignedBy,
+        roleId,
+        userId,
+        after: {
+          permissions: [...role.permissions],
+          validFrom: validFrom || null,
+          expiresAt: expiresAt || null,
+        },
+      }, storage);
+      await this.events.emitInTransaction('assignment.added', change, storage);
+    });
+    await this.cache?.invalidateUser(userId);
+
+    await this.events.emit('assignment.added', change);
   }
 
   /**
@@ -205,43 +292,564 @@ export class RoleService {
     removedBy: User
   ): Promise<void> {
     // Verify role belongs to the tenant
-    const role = await this.RoleModel.findOne({
-      where: {
-        id: roleId,
-        [this.engine.getTenantConfig().field]: tenantId,
-      },
-    });
+    const role = await this.storage.findRoleById(roleId, tenantId);
 
     if (!role) {
       throw new Error('Role not found');
     }
 
+    await this.events.emitBefore('assignment.removed', { tenantId, actor: removedBy, userId, role });
+
     // Remove the assignment
-    const deleted = await this.UserRoleModel.destroy({
-      where: { userId, roleId },
+    await this.storage.transaction(async storage => {
+      if (!await storage.deleteAssignment(userId, roleId)) {
+        throw new Error('User does not have this role');
+      }
+
+      await this.auditService?.record({
+        action: 'assignment.removed',
+        tenantId,
+        actor: removedBy,
+        roleId,
+        userId,
+        before: { permissions: [...role.permissions] },
+      }, storage);
+      await this.events.emitInTransaction('assignment.removed', { tenantId, actor: removedBy, userId, role }, storage);
+    });
+
+    await this.cache?.invalidateUser(userId);
+
+    await this.events.emit('assignment.removed', { tenantId, actor: removedBy, userId, role });
+  }
+
+  /**
+   * Assign every role to every user in one transaction. Unknown roles, vetoed
+   * items and existing assignments are reported per item instead of failing the batch.
+   */
+  async assignRolesBulk(
+    userIds: number[],
+    roleIds: number[],
+    tenantId: number,
+    assignedBy: User,
+    options: RoleAssignmentOptions = {}
+  ): Promise<BulkRoleResult[]> {
+    const { validFrom, expiresAt } = options;
+
+    if (expiresAt && expiresAt <= (validFrom || new Date())) {
+      throw new Error('Assignment must expire after it becomes valid');
+    }
+
+    const users = Array.from(new Set(userIds));
+    const roles = await this.getRolesById(Array.from(new Set(roleIds)), tenantId);
+
+    const results = await this.storage.transaction(async storage => {
+      const existing = await storage.findAssignments(users, this.foundRoleIds(roles));
+      const assigned = new Set(existing.filter(a => !this.hasExpired(a)).map(a => `${a.userId}:${a.roleId}`));
+      const expired = new Set(existing.filter(a => this.hasExpired(a)).map(a => `${a.userId}:${a.roleId}`));
+      const itemResults: BulkRoleResult[] = [];
+
+      for (const userId of users) {
+        for (const [roleId, role] of roles) {
+          if (!role) {
+            itemResults.push({ userId, roleId, status: 'failed', error: 'Role not found' });
+          } else if (assigned.has(`${userId}:${roleId}`)) {
+            itemResults.push({ userId, roleId, status: 'unchanged' });
+          } else {
+            const change = {
+              tenantId,
+              actor: assignedBy,
+              userId,
+              role,
+              validFrom: validFrom || null,
+              expiresAt: expiresAt || null,
+            };
+            const vetoed = await this.checkBulkItem('assignment.added', change);
+
+            if (vetoed) {
+              itemResults.push({ userId, roleId, status: 'failed', error: vetoed });
+              continue;
+            }
+
+            if (expired.has(`${userId}:${roleId}`)) {
+              await storage.deleteAssignment(userId, roleId);
+            }
+
+            await this.createAssignment(storage, {
+              userId,
+              roleId,
+              validFrom: validFrom || null,
+              expiresAt: expiresAt || null,
+            });
+            await this.auditBulkItem(storage, 'assigned', userId, role, tenantId, assignedBy, options);
+            await this.events.emitInTransaction('assignment.added', change, storage);
+            itemResults.push({ userId, roleId, status: 'assigned' });
+          }
+        }
+      }
+
+      return itemResults;
     });
 
-    if (!deleted) {
-      throw new Error('User does not have this role');
+    await this.recordBulkChanges(results, roles, tenantId, assignedBy, options);
+    return results;
+  }
+
+  /**
+   * Remove every role from every user in one transaction. Unknown roles, vetoed
+   * items and missing assignments are reported per item instead of failing the batch.
+   */
+  async removeRolesBulk(
+    userIds: number[],
+    roleIds: number[],
+    tenantId: number,
+    removedBy: User
+  ): Promise<BulkRoleResult[]> {
+    const users = Array.from(new Set(userIds));
+    const roles = await this.getRolesById(Array.from(new Set(roleIds)), tenantId);
+
+    const results = await this.storage.transaction(async storage => {
+      const existing = await storage.findAssignments(users, this.foundRoleIds(roles));
+      const assigned = new Set(existing.filter(a => !this.hasExpired(a)).map(a => `${a.userId}:${a.roleId}`));
+      const expired = new Set(existing.filter(a => this.hasExpired(a)).map(a => `${a.userId}:${a.roleId}`));
+      const itemResults: BulkRoleResult[] = [];
+
+      for (const userId of users) {
+        for (const [roleId, role] of roles) {
+          if (!role) {
+            itemResults.push({ userId, roleId, status: 'failed', error: 'Role not found' });
+          } else if (!assigned.has(`${userId}:${roleId}`)) {
+            itemResults.push({ userId, roleId, status: 'unchanged' });
+          } else {
+            const change = { tenantId, actor: removedBy, userId, role };
+            const vetoed = await this.checkBulkItem('assignment.removed', change);
+
+            if (vetoed) {
+              itemResults.push({ userId, roleId, status: 'failed', error: vetoed });
+              continue;
+            }
+
+            await storage.deleteAssignment(userId, roleId);
+            await this.auditBulkItem(storage, 'removed', userId, role, tenantId, removedBy);
+            await this.events.emitInTransaction('assignment.removed', change, storage);
+            itemResults.push({ userId, roleId, status: 'removed' });
+          }
+        }
+      }
+
+      return itemResults;
+    });
+
+    await this.recordBulkChanges(results, roles, tenantId, removedBy);
+    return results;
+  }
+
+  /**
+   * Make `roleIds` the user's complete set of roles in the tenant, adding and
+   * removing assignments in one transaction. Fails if any role is unknown or
+   * any change is vetoed.
+   */
+  async replaceUserRoles(
+    userId: number,
+    roleIds: number[],
+    tenantId: number,
+    replacedBy: User,
+    options: RoleAssignmentOptions = {}
+  ): Promise<BulkRoleResult[]> {
+    const { validFrom, expiresAt } = options;
+
+    if (expiresAt && expiresAt <= (validFrom || new Date())) {
+      throw new Error('Assignment must expire after it becomes valid');
+    }
+
+    const tenantRoles = await this.getRolesByTenant(tenantId);
+    const roles = new Map<number, Role | null>(tenantRoles.map(role => [role.id, role]));
+    const wanted = Array.from(new Set(roleIds));
+    const missing = wanted.filter(roleId => !roles.has(roleId));
+
+    if (missing.length > 0) {
+      throw new Error(`Invalid roles: ${missing.join(', ')}`);
+    }
+
+    const results = await this.storage.transaction(async storage => {
+      const existing = await storage.findAssignments([userId], this.foundRoleIds(roles));
+      const current = new Set(existing.filter(a => !this.hasExpired(a)).map(a => a.roleId));
+      const expired = new Set(existing.filter(a => this.hasExpired(a)).map(a => a.roleId));
+      const itemResults: BulkRoleResult[] = [];
+
+      for (const roleId of current) {
+        if (!wanted.includes(roleId)) {
+          const change = { tenantId, actor: replacedBy, userId, role: roles.get(roleId)! };
+
+          await this.events.emitBefore('assignment.removed', change);
+          await storage.deleteAssignment(userId, roleId);
+          await this.auditBulkItem(storage, 'removed', userId, change.role, tenantId, replacedBy);
+          await this.events.emitInTransaction('assignment.removed', change, storage);
+          itemResults.push({ userId, roleId, status: 'removed' });
+        }
+      }
+
+      for (const roleId of wanted) {
+        if (current.has(roleId)) {
+          itemResults.push({ userId, roleId, status: 'unchanged' });
+        } else {
+          const change = {
+            tenantId,
+            actor: replacedBy,
+            userId,
+            role: roles.get(roleId)!,
+            validFrom: validFrom || null,
+            expiresAt: expiresAt || null,
+          };
+
+          await this.events.emitBefore('assignment.added', change);
+
+          if (expired.has(roleId)) {
+            await storage.deleteAssignment(userId, roleId);
+          }
+
+          await this.createAssignment(storage, {
+            userId,
+            roleId,
+            validFrom: validFrom || null,
+            expiresAt: expiresAt || null,
+          });
+          await this.auditBulkItem(storage, 'assigned', userId, change.role, tenantId, replacedBy, options);
+          await this.events.emitInTransaction('assignment.added', change, storage);
+          itemResults.push({ userId, roleId, status: 'assigned' });
+        }
+      }
+
+      return itemResults;
+    });
+
+    await this.recordBulkChanges(results, roles, tenantId, replacedBy, options);
+    return results;
+  }
+
+  /**
+   * Create the config's role templates in a tenant, skipping any already
+   * present by template key or name. Returns the roles created.
+   */
+  async instantiateTemplates(tenantId: number, createdBy: User, templateKeys?: string[]): Promise<Role[]> {
+    const missing = this.missingTemplates(await this.getRolesByTenant(tenantId), templateKeys);
+    const created: Role[] = [];
+
+    for (const template of missing) {
+      created.push(await this.createRole({
+        name: template.name,
+        description: template.description,
+        permissions: [...template.permissions],
+        templateKey: template.key,
+      }, tenantId, createdBy));
+    }
+
+    return created;
+  }
+
+  /**
+   * The selected templates (all when omitted) that none of the existing roles
+   * match by template key or name
+   */
+  missingTemplates(existing: Role[], templateKeys?: string[]): RoleTemplate[] {
+    const templates = this.engine.getRoleTemplates();
+
+    if (templateKeys) {
+      const unknown = templateKeys.filter(key => !templates.some(template => template.key === key));
+
+      if (unknown.length > 0) {
+        throw new Error(`Unknown role templates: ${unknown.join(', ')}`);
+      }
+    }
+
+    return templates.filter(template =>
+      (!templateKeys || templateKeys.includes(template.key)) &&
+      !existing.some(role => role.templateKey === template.key || role.name === template.name)
+    );
+  }
+
+  /**
+   * Copy a role into another tenant. Parent roles are tenant-specific and are
+   * not copied; a template link is kept so the clone follows template syncs.
+   */
+  async cloneRole(
+    roleId: number,
+    sourceTenantId: number,
+    targetTenantId: number,
+    clonedBy: User,
+    options: { name?: string } = {}
+  ): Promise<Role> {
+    const role = await this.storage.findRoleById(roleId, sourceTenantId);
+
+    if (!role) {
+      throw new Error('Role not found');
+    }
+
+    return this.createRole({
+      name: options.name || role.name,
+      description: role.description || undefined,
+      permissions: [...role.permissions],
+      templateKey: role.templateKey || undefined,
+    }, targetTenantId, clonedBy);
+  }
+
+  /**
+   * List how roles derived from a template differ from it, optionally for one tenant
+   */
+  async previewTemplateSync(templateKey: string, tenantId?: number): Promise<RoleTemplateDiff[]> {
+    const template = this.engine.getRoleTemplate(templateKey);
+
+    if (!template) {
+      throw new Error(`Unknown role template: ${templateKey}`);
+    }
+
+    const tenantField = this.engine.getTenantConfig().field;
+    const roles = await this.storage.findRolesByTemplate(templateKey, tenantId);
+    const diffs: RoleTemplateDiff[] = [];
+
+    for (const role of roles) {
+      const diff: RoleTemplateDiff = {
+        roleId: role.id,
+        tenantId: role[tenantField],
+        templateKey,
+        addedPermissions: template.permissions.filter(p => !role.permissions.includes(p)),
+        removedPermissions: role.permissions.filter(p => !template.permissions.includes(p)),
+      };
+
+      const from = role.description || null;
+      const to = template.description || null;
+      if (from !== to) {
+        diff.description = { from, to };
+      }
+
+      if (diff.addedPermissions.length > 0 || diff.removedPermissions.length > 0 || diff.description) {
+        diffs.push(diff);
+      }
+    }
+
+    return diffs;
+  }
+
+  /**
+   * Push a template's permissions and description to its derived roles,
+   * returning the changes applied
+   */
+  async syncTemplate(templateKey: string, updatedBy: User, tenantId?: number): Promise<RoleTemplateDiff[]> {
+    const diffs = await this.previewTemplateSync(templateKey, tenantId);
+    const template = this.engine.getRoleTemplate(templateKey)!;
+
+    for (const diff of diffs) {
+      await this.updateRole(diff.roleId, {
+        permissions: [...template.permissions],
+        description: template.description || '',
+      }, diff.tenantId, updatedBy);
     }
+
+    return diffs;
+  }
+
+  /**
+   * Delete assignments that have expired, optionally only for one tenant
+   */
+  async purgeExpiredAssignments(tenantId?: number): Promise<number> {
+    const roleIds = tenantId !== undefined
+      ? (await this.getRolesByTenant(tenantId)).map(role => role.id)
+      : undefined;
+
+    return this.storage.deleteExpiredAssignments(new Date(), roleIds);
   }
 
   /**
    * Get roles for a specific user
    */
   async getUserRoles(userId: number, tenantId: number): Promise<Role[]> {
-    const roles = await this.RoleModel.findAll({
-      include: [
-        {
-          model: this.UserRoleModel,
-          where: { userId },
-        },
-      ],
-      where: {
-        [this.engine.getTenantConfig().field]: tenantId,
-      },
-    });
+    return this.storage.findActiveUserRoles(userId, tenantId, new Date());
+  }
+
+  /**
+   * Look up roles in the tenant with one query, mapping unknown IDs to null
+   */
+  private async getRolesById(roleIds: number[], tenantId: number): Promise<Map<number, Role | null>> {
+    const tenantRoles = await this.getRolesByTenant(tenantId);
+    return new Map(roleIds.map(roleId => [roleId, tenantRoles.find(role => role.id === roleId) || null]));
+  }
+
+  private foundRoleIds(roles: Map<number, Role | null>): number[] {
+    return Array.from(roles.keys()).filter(roleId => roles.get(roleId));
+  }
+
+  /**
+   * Check a role's grants are known and do not both allow and deny a permission,
+   * returning them
+   */
+  validateRolePermissions(permissions: string[]): string[] {
+    const { valid, invalid } = this.engine.validatePermissions(permissions);
+
+    if (invalid.length > 0) {
+      throw new Error(`Invalid permissions: ${invalid.join(', ')}`);
+    }
+
+    const conflicting = this.engine.findConflictingGrants(valid);
+
+    if (conflicting.length > 0) {
+      throw new Error(`Permissions both allowed and denied: ${conflicting.join(', ')}`);
+    }
+
+    return valid;
+  }
+
+  /**
+   * The next time one of the user's assignments in the tenant starts or
+   * expires, or null when none is scheduled
+   */
+  async getNextAssignmentChange(userId: number, tenantId: number): Promise<Date | null> {
+    const roleIds = (await this.getRolesByTenant(tenantId)).map(role => role.id);
+    const now = new Date();
+    const upcoming = (await this.storage.findAssignments([userId], roleIds))
+      .flatMap(assignment => [assignment.validFrom, assignment.expiresAt])
+      .filter((date): date is Date => !!date && date > now)
+      .map(date => date.getTime());
+
+    return upcoming.length > 0 ? new Date(Math.min(...upcoming)) : null;
+  }
+
+  // Expired assignments linger until pruned but no longer hold the role
+  hasExpired(assignment: RoleAssignment): boolean {
+    return !!assignment.expiresAt && assignment.expiresAt <= new Date();
+  }
+
+  // A false create means a concurrent assign won the race for the unique index
+  async createAssignment(storage: StorageAdapter, assignment: RoleAssignment): Promise<void> {
+    if (!(await storage.createAssignment(assignment))) {
+      throw new Error('User already has this role');
+    }
+  }
+
+  /**
+   * Audit one bulk item inside the operation's transaction
+   */
+  private async auditBulkItem(
+    storage: StorageAdapter,
+    status: 'assigned' | 'removed',
+    userId: number,
+    role: Role,
+    tenantId: number,
+    actor: User,
+    options: RoleAssignmentOptions = {}
+  ): Promise<void> {
+    const permissions = [...role.permissions];
+
+    await this.auditService?.record(status === 'assigned'
+      ? {
+          action: 'assignment.added',
+          tenantId,
+          actor,
+          roleId: role.id,
+          userId,
+          after: {
+            permissions,
+            validFrom: options.validFrom || null,
+            expiresAt: options.expiresAt || null,
+          },
+        }
+      : {
+          action: 'assignment.removed',
+          tenantId,
+          actor,
+          roleId: role.id,
+          userId,
+          before: { permissions },
+        }, storage);
+  }
+
+  /**
+   * Invalidate cached users and announce each change once a bulk operation commits
+   */
+  private async recordBulkChanges(
+    results: BulkRoleResult[],
+    roles: Map<number, Role | null>,
+    tenantId: number,
+    actor: User,
+    options: RoleAssignmentOptions = {}
+  ): Promise<void> {
+    const changed = results.filter(result => result.status === 'assigned' || result.status === 'removed');
+
+    for (const userId of new Set(changed.map(result => result.userId))) {
+      await this.cache?.invalidateUser(userId);
+    }
+
+    for (const { userId, roleId, status } of changed) {
+      const role = roles.get(roleId)!;
+
+      if (status === 'assigned') {
+        await this.events.emit('assignment.added', {
+          tenantId,
+          actor,
+          userId,
+          role,
+          validFrom: options.validFrom || null,
+          expiresAt: options.expiresAt || null,
+        });
+      } else {
+        await this.events.emit('assignment.removed', { tenantId, actor, userId, role });
+      }
+    }
+  }
+
+  /**
+   * Run before-hooks for one bulk item, returning the veto reason if it was vetoed
+   */
+  private async checkBulkItem<E extends 'assignment.added' | 'assignment.removed'>(
+    event: E,
+    payload: RBACBeforeEventMap[E]
+  ): Promise<string | null> {
+    try {
+      await this.events.emitBefore(event, payload);
+      return null;
+    } catch (error) {
+      if (error instanceof RBACVetoError) {
+        return error.reason;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Validate parent roles exist in the tenant and would not create a cycle
+   */
+  private async validateParentRoles(
+    parentRoleIds: number[],
+    tenantId: number,
+    roleId?: number
+  ): Promise<number[]> {
+    const uniqueParentIds = Array.from(new Set(parentRoleIds));
+
+    if (uniqueParentIds.length === 0) {
+      return [];
+    }
+
+    if (roleId !== undefined && uniqueParentIds.includes(roleId)) {
+      throw new Error('Role cannot inherit from itself');
+    }
+
+    const tenantRoles = await this.getRolesByTenant(tenantId);
+    const tenantRoleIds = new Set(tenantRoles.map(role => role.id));
+    const missing = uniqueParentIds.filter(parentId => !tenantRoleIds.has(parentId));
+
+    if (missing.length > 0) {
+      throw new Error(`Invalid parent roles: ${missing.join(', ')}`);
+    }
+
+    // A new role has no descendants, so only existing roles can close a cycle
+    if (roleId !== undefined) {
+      const cyclic = uniqueParentIds.filter(parentId =>
+        this.engine.getAncestorRoleIds(parentId, tenantRoles).includes(roleId)
+      );
+
+      if (cyclic.length > 0) {
+        throw new Error(`Role inheritance cycle detected through roles: ${cyclic.join(', ')}`);
+      }
+    }
 
-    return roles.map((role: any) => role.toJSON());
+    return uniqueParentIds;
   }
 }
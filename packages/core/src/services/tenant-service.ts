@@ -0,0 +1,321 @@
+import { PermissionEngine } from '../permission-engine';
+import { AuditService } from './audit-service';
+import { RoleService } from './role-service';
+import { MembershipService } from './membership-service';
+import { PermissionCache } from '../permission-cache';
+import { RBACEventBus, RBACEventMap } from '../events';
+import { StorageAdapter } from '../storage/adapter';
+import {
+  Role,
+  TenantExport,
+  TenantProvisionOptions,
+  TenantProvisionResult,
+  TenantTeardownResult,
+  User,
+} from '../types';
+
+interface AppliedProvision {
+  roles: Role[];
+  membership?: RBACEventMap['membership.added'];
+  assignment?: RBACEventMap['assignment.added'];
+}
+
+export class TenantService {
+  private engine: PermissionEngine;
+  private storage: StorageAdapter;
+  private roleService: RoleService;
+  private membershipService: MembershipService;
+  private events: RBACEventBus;
+  private auditService?: AuditService;
+  private cache?: PermissionCache;
+
+  constructor(
+    engine: PermissionEngine,
+    storage: StorageAdapter,
+    services: { roleService: RoleService; membershipService: MembershipService },
+    events: RBACEventBus,
+    auditService?: AuditService,
+    cache?: PermissionCache
+  ) {
+    this.engine = engine;
+    this.storage = storage;
+    this.roleService = services.roleService;
+    this.membershipService = services.membershipService;
+    this.events = events;
+    this.auditService = auditService;
+    this.cache = cache;
+  }
+
+  /**
+   * Seed a tenant with role templates and optionally an initial admin, in one
+   * transaction. Safe to re-run: existing roles and assignments are kept, and an
+   * existing membership is only changed when its type differs from adminUserType.
+   */
+  async provisionTenant(
+    tenantId: number,
+    provisionedBy: User,
+    options: TenantProvisionOptions = {}
+  ): Promise<TenantProvisionResult> {
+    const { templateKeys, adminUserId, adminUserType = 'admin', adminRoleTemplate } = options;
+    const actor = provisionedBy;
+
+    if (adminRoleTemplate && !this.engine.getRoleTemplate(adminRoleTemplate)) {
+      throw new Error(`Unknown role template: ${adminRoleTemplate}`);
+    }
+
+    if (adminRoleTemplate && templateKeys && !templateKeys.includes(adminRoleTemplate)) {
+      throw new Error(`Admin role template ${adminRoleTemplate} is not among the templates being seeded`);
+    }
+
+    if (adminUserId !== undefined) {
+      this.membershipService.validateUserType(adminUserType);
+    }
+
+    await this.events.emitBefore('tenant.provisioned', { tenantId, actor, options });
+
+    const applied = await this.storage.transaction(async storage => {
+      const existing = await storage.findRoles(tenantId);
+      const changes: AppliedProvision = { roles: [] };
+
+      for (const template of this.roleService.missingTemplates(existing, templateKeys)) {
+        const data = {
+          name: template.name,
+          description: template.description,
+          permissions: this.roleService.validateRolePermissions([...template.permissions]),
+          templateKey: template.key,
+        };
+
+        await this.events.emitBefore('role.created', { tenantId, actor, data });
+        const role = await storage.createRole({ ...data, parentRoleIds: [] }, tenantId);
+        await this.events.emitInTransaction('role.created', { tenantId, actor, role }, storage);
+        changes.roles.push(role);
+      }
+
+      if (adminUserId !== undefined) {
+        await this.provisionAdmin(storage, changes, [...existing, ...changes.roles], tenantId, actor, options);
+      }
+
+      const result: TenantProvisionResult = { tenantId, roles: changes.roles, adminUserId };
+      await this.auditProvision(storage, changes, result, actor);
+      await this.events.emitInTransaction('tenant.provisioned', { tenantId, actor, result }, storage);
+      return changes;
+    });
+
+    const result: TenantProvisionResult = { tenantId, roles: applied.roles, adminUserId };
+    await this.recordProvision(applied, result, actor);
+    return result;
+  }
+
+  /**
+   * Snapshot everything stored for a tenant, e.g. before tearing it down
+   */
+  async exportTenantData(tenantId: number, exportedBy: User): Promise<TenantExport> {
+    const roles = await this.roleService.getRolesByTenant(tenantId);
+
+    const result: TenantExport = {
+      tenantId,
+      exportedAt: new Date(),
+      roles,
+      assignments: await this.storage.findRoleAssignments(roles.map(role => role.id)),
+      directPermissions: await this.storage.findTenantDirectPermissions(tenantId),
+      memberships: await this.membershipService.getTenantMembers(tenantId),
+    };
+
+    await this.events.emit('tenant.exported', { tenantId, actor: exportedBy, result });
+    return result;
+  }
+
+  /**
+   * Delete a tenant's roles, assignments, direct permissions, memberships and
+   * webhook endpoints in one transaction. Audit log entries are kept.
+   */
+  async teardownTenant(tenantId: number, removedBy: User): Promise<TenantTeardownResult> {
+    const affectedUserIds = new Set<number>();
+
+    await this.events.emitBefore('tenant.removed', { tenantId, actor: removedBy });
+
+    const result = await this.storage.transaction(async storage => {
+      const roleIds = (await storage.findRoles(tenantId)).map(role => role.id);
+
+      const members = await storage.findTenantMemberships(tenantId);
+      members.forEach(member => affectedUserIds.add(member.userId));
+
+      // Assignments reference roles, so they go first
+      const counts: TenantTeardownResult = {
+        tenantId,
+        assignments: await storage.deleteRoleAssignments(roleIds),
+        roles: await storage.deleteTenantRoles(tenantId),
+        directPermissions: await storage.deleteTenantDirectPermissions(tenantId),
+        memberships: await storage.deleteTenantMemberships(tenantId),
+        webhookEndpoints: 0,
+      };
+
+      // Deliveries and their attempts go with each endpoint
+      for (const endpoint of await storage.findWebhookEndpoints(tenantId)) {
+        await storage.deleteWebhookEndpoint(endpoint.id);
+        counts.webhookEndpoints++;
+      }
+
+      await this.auditService?.record({
+        action: 'tenant.removed',
+        tenantId,
+        actor: removedBy,
+        before: {
+          roles: counts.roles,
+          assignments: counts.assignments,
+          directPermissions: counts.directPermissions,
+          memberships: counts.memberships,
+          webhookEndpoints: counts.webhookEndpoints,
+        },
+      }, storage);
+      await this.events.emitInTransaction('tenant.removed', { tenantId, actor: removedBy, result: counts }, storage);
+      return counts;
+    });
+
+    // Memberships are cached with the user in every tenant, not just this one
+    await this.cache?.invalidateTenant(tenantId);
+    for (const userId of affectedUserIds) {
+      await this.cache?.invalidateUser(userId);
+    }
+
+    await this.events.emit('tenant.removed', { tenantId, actor: removedBy, result });
+    return result;
+  }
+
+  /**
+   * Make the admin a member of the tenant and assign the admin role template,
+   * recording what changed on `changes`
+   */
+  private async provisionAdmin(
+    storage: StorageAdapter,
+    changes: AppliedProvision,
+    tenantRoles: Role[],
+    tenantId: number,
+    actor: User,
+    options: TenantProvisionOptions
+  ): Promise<void> {
+    const { adminUserType = 'admin', adminRoleTemplate } = options;
+    const userId = options.adminUserId!;
+
+    const membership = await storage.findMembership(userId, tenantId);
+
+    if (membership?.userType !== adminUserType) {
+      const added = { tenantId, actor, userId, userType: adminUserType, previousType: membership?.userType || null };
+
+      await this.events.emitBefore('membership.added', { tenantId, actor, userId, userType: adminUserType });
+      await storage.saveMembership({ userId, tenantId, userType: adminUserType });
+      await this.events.emitInTransaction('membership.added', added, storage);
+      changes.membership = added;
+    }
+
+    if (!adminRoleTemplate) {
+      return;
+    }
+
+    const role = tenantRoles.find(tenantRole => tenantRole.templateKey === adminRoleTemplate);
+
+    if (!role) {
+      throw new Error(`No role in tenant ${tenantId} was created from template ${adminRoleTemplate}`);
+    }
+
+    const [current] = await storage.findAssignments([userId], [role.id]);
+
+    if (current && !this.roleService.hasExpired(current)) {
+      return;
+    }
+
+    const assignment = { tenantId, actor, userId, role, validFrom: null, expiresAt: null };
+    await this.events.emitBefore('assignment.added', assignment);
+
+    if (current) {
+      await storage.deleteAssignment(userId, role.id);
+    }
+
+    await this.roleService.createAssignment(storage, { userId, roleId: role.id, validFrom: null, expiresAt: null });
+    await this.events.emitInTransaction('assignment.added', assignment, storage);
+    changes.assignment = assignment;
+  }
+
+  /**
+   * Audit each change of a provisioning inside its transaction
+   */
+  private async auditProvision(
+    storage: StorageAdapter,
+    applied: AppliedProvision,
+    result: TenantProvisionResult,
+    actor: User
+  ): Promise<void> {
+    const { tenantId, adminUserId } = result;
+
+    for (const role of applied.roles) {
+      await this.auditService?.record({
+        action: 'role.created',
+        tenantId,
+        actor,
+        roleId: role.id,
+        after: this.auditService.snapshotRole(role),
+      }, storage);
+    }
+
+    if (applied.membership) {
+      const { userId, userType, previousType } = applied.membership;
+
+      await this.auditService?.record({
+        action: 'membership.added',
+        tenantId,
+        actor,
+        userId,
+        before: previousType ? { userType: previousType } : null,
+        after: { userType },
+      }, storage);
+    }
+
+    if (applied.assignment) {
+      const { userId, role } = applied.assignment;
+
+      await this.auditService?.record({
+        action: 'assignment.added',
+        tenantId,
+        actor,
+        roleId: role.id,
+        userId,
+        after: { permissions: [...role.permissions], validFrom: null, expiresAt: null },
+      }, storage);
+    }
+
+    await this.auditService?.record({
+      action: 'tenant.provisioned',
+      tenantId,
+      actor,
+      userId: adminUserId ?? null,
+      after: { roles: applied.roles.map(role => role.name) },
+    }, storage);
+  }
+
+  /**
+   * Invalidate cached permissions, then announce each committed change
+   */
+  private async recordProvision(applied: AppliedProvision, result: TenantProvisionResult, actor: User): Promise<void> {
+    const { tenantId, adminUserId } = result;
+
+    await this.cache?.invalidateTenant(tenantId);
+    if (adminUserId !== undefined) {
+      // Memberships are cached with the user in every tenant
+      await this.cache?.invalidateUser(adminUserId);
+    }
+
+    for (const role of applied.roles) {
+      await this.events.emit('role.created', { tenantId, actor, role });
+    }
+
+    if (applied.membership) {
+      await this.events.emit('membership.added', applied.membership);
+    }
+
+    if (applied.assignment) {
+      await this.events.emit('assignment.added', applied.assignment);
+    }
+
+    await this.events.emit('tenant.provisioned', { tenantId, actor, result });
+  }
+}
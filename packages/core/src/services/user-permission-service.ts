@@ -0,0 +1,108 @@
+import { PermissionEngine } from '../permission-engine';
+import { AuditService } from './audit-service';
+import { PermissionCache } from '../permission-cache';
+import { RBACEventBus } from '../events';
+import { StorageAdapter } from '../storage/adapter';
+import { User } from '../types';
+
+export class UserPermissionService {
+  private engine: PermissionEngine;
+  private storage: StorageAdapter;
+  private auditService?: AuditService;
+  private cache?: PermissionCache;
+  public events: RBACEventBus;
+
+  constructor(
+    engine: PermissionEngine,
+    storage: StorageAdapter,
+    auditService?: AuditService,
+    cache?: PermissionCache,
+    events?: RBACEventBus
+  ) {
+    this.engine = engine;
+    this.storage = storage;
+    this.auditService = auditService;
+    this.cache = cache;
+    this.events = events || new RBACEventBus();
+  }
+
+  /**
+   * Grant a permission directly to a user within a tenant
+   */
+  async grantPermissionToUser(
+    userId: number,
+    permission: string,
+    tenantId: number,
+    grantedBy: User
+  ): Promise<void> {
+    const { invalid } = this.engine.validatePermissions([permission]);
+
+    if (invalid.length > 0) {
+      throw new Error(`Invalid permissions: ${invalid.join(', ')}`);
+    }
+
+    // Check if grant already exists
+    const existingGrants = await this.storage.findDirectPermissions(userId, tenantId);
+
+    if (existingGrants.includes(permission)) {
+      throw new Error('User already has this permission');
+    }
+
+    const change = { tenantId, actor: grantedBy, userId, permission };
+    await this.events.emitBefore('permission.granted', change);
+
+    await this.storage.transaction(async storage => {
+      await storage.createDirectPermission(userId, permission, tenantId);
+      await this.auditService?.record({
+        action: 'permission.granted',
+        tenantId,
+        actor: grantedBy,
+        userId,
+        after: { permissions: [permission] },
+      }, storage);
+      await this.events.emitInTransaction('permission.granted', change, storage);
+    });
+    await this.cache?.invalidateUser(userId);
+
+    await this.events.emit('permission.granted', change);
+  }
+
+  /**
+   * Revoke a directly granted permission from a user within a tenant
+   */
+  async revokePermissionFromUser(
+    userId: number,
+    permission: string,
+    tenantId: number,
+    revokedBy: User
+  ): Promise<void> {
+    const change = { tenantId, actor: revokedBy, userId, permission };
+    await this.events.emitBefore('permission.revoked', change);
+
+    await this.storage.transaction(async storage => {
+      if (!await storage.deleteDirectPermission(userId, permission, tenantId)) {
+        throw new Error('User does not have this permission');
+      }
+
+      await this.auditService?.record({
+        action: 'permission.revoked',
+        tenantId,
+        actor: revokedBy,
+        userId,
+        before: { permissions: [permission] },
+      }, storage);
+      await this.events.emitInTransaction('permission.revoked', change, storage);
+    });
+
+    await this.cache?.invalidateUser(userId);
+
+    await this.events.emit('permission.revoked', change);
+  }
+
+  /**
+   * Get permissions granted directly to a user within a tenant
+   */
+  async getUserDirectPermissions(userId: number, tenantId: number): Promise<string[]> {
+    return this.storage.findDirectPermissions(userId, tenantId);
+  }
+}
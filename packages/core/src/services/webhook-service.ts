@@ -0,0 +1,589 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { lookup, LookupAddress, LookupOptions } from 'dns';
+import { request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+import { BlockList, isIP } from 'net';
+import { RBACEventBus, RBACEventName } from '../events';
+import { StorageAdapter, WebhookEndpointData, WebhookEndpointRecord } from '../storage/adapter';
+import {
+  CreateWebhookRequest,
+  UpdateWebhookRequest,
+  WebhookAttempt,
+  WebhookDelivery,
+  WebhookDeliveryPage,
+  WebhookDeliveryQuery,
+  WebhookEndpoint,
+  WebhookOptions,
+} from '../types';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+const MAX_ERROR_LENGTH = 1000;
+
+// Every event that describes a change of access. tenant.exported only reads, and
+// tenant.removed deletes the tenant's endpoints, so neither is delivered.
+export const WEBHOOK_EVENTS: RBACEventName[] = [
+  'role.created',
+  'role.updated',
+  'role.deleted',
+  'assignment.added',
+  'assignment.removed',
+  'permission.granted',
+  'permission.revoked',
+  'membership.added',
+  'membership.removed',
+  'tenant.provisioned',
+];
+
+// Cloud metadata services, reachable from most hosts without credentials
+const METADATA_HOSTS = ['metadata.google.internal', 'metadata.goog', 'metadata.azure.com'];
+
+/**
+ * HMAC-SHA256 signature sent in the X-RBAC-Signature header
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return 'sha256=' + createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Check a received webhook's signature and reject ones older than the tolerance
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  timestamp: number,
+  signature: string,
+  toleranceSeconds: number = 300
+): boolean {
+  if (Math.abs(Math.floor(Date.now() / 1000) - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const received = Buffer.from(signature);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+// IANA special-purpose ranges that are not globally reachable, plus multicast and reserved space
+const SPECIAL_PURPOSE_RANGES: [string, number, 'ipv4' | 'ipv6'][] = [
+  ['0.0.0.0', 8, 'ipv4'],       // "This network"
+  ['10.0.0.0', 8, 'ipv4'],      // Private
+  ['100.64.0.0', 10, 'ipv4'],   // Carrier-grade NAT
+  ['127.0.0.0', 8, 'ipv4'],     // Loopback
+  ['169.254.0.0', 16, 'ipv4'],  // Link-local, including cloud metadata
+  ['172.16.0.0', 12, 'ipv4'],   // Private
+  ['192.0.0.0', 24, 'ipv4'],    // IETF protocol assignments
+  ['192.0.2.0', 24, 'ipv4'],    // Documentation
+  ['192.88.99.0', 24, 'ipv4'],  // 6to4 relay anycast
+  ['192.168.0.0', 16, 'ipv4'],  // Private
+  ['198.18.0.0', 15, 'ipv4'],   // Benchmarking
+  ['198.51.100.0', 24, 'ipv4'], // Documentation
+  ['203.0.113.0', 24, 'ipv4'],  // Documentation
+  ['224.0.0.0', 3, 'ipv4'],     // Multicast, reserved and broadcast
+  ['::', 96, 'ipv6'],           // Unspecified, loopback and IPv4-compatible
+  ['64:ff9b::', 96, 'ipv6'],    // NAT64
+  ['64:ff9b:1::', 48, 'ipv6'],  // Local-use NAT64
+  ['100::', 64, 'ipv6'],        // Discard-only
+  ['2001::', 23, 'ipv6'],       // IETF protocol assignments, including Teredo
+  ['2001:db8::', 32, 'ipv6'],   // Documentation
+  ['2002::', 16, 'ipv6'],       // 6to4, which can wrap any IPv4 address
+  ['fc00::', 7, 'ipv6'],        // Unique local
+  ['fe80::', 10, 'ipv6'],       // Link-local
+  ['fec0::', 10, 'ipv6'],       // Site-local
+  ['ff00::', 8, 'ipv6'],        // Multicast
+];
+
+const specialPurposeAddresses = new BlockList();
+SPECIAL_PURPOSE_RANGES.forEach(([network, prefix, type]) => specialPurposeAddresses.addSubnet(network, prefix, type));
+
+/**
+ * Whether an IP address falls in a special-purpose range (loopback, private,
+ * link-local including the 169.254.169.254 metadata address, CGNAT, NAT64 and
+ * so on) and so is not publicly routable
+ */
+export function isPrivateAddress(address: string): boolean {
+  const ip = address.toLowerCase().replace(/^\[|\]$/g, '').split('%')[0];
+
+  if (isIP(ip) === 4) {
+    return specialPurposeAddresses.check(ip, 'ipv4');
+  }
+
+  if (isIP(ip) === 6) {
+    // IPv4-mapped addresses, which URL parsing rewrites to hex (::ffff:7f00:1)
+    const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    if (mapped) return isPrivateAddress(mapped[1]);
+
+    const mappedHex = ip.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+    if (mappedHex) {
+      const [high, low] = mappedHex.slice(1).map(part => parseInt(part, 16));
+      return isPrivateAddress([high >> 8, high & 255, low >> 8, low & 255].join('.'));
+    }
+
+    return specialPurposeAddresses.check(ip, 'ipv6');
+  }
+
+  return false;
+}
+
+function matchesHost(hostname: string, patterns: string[]): boolean {
+  return patterns.some(pattern => {
+    const host = pattern.toLowerCase();
+    return host.startsWith('.') ? hostname.endsWith(host) : hostname === host;
+  });
+}
+
+/**
+ * A DNS lookup that refuses to connect to private addresses, so a public
+ * hostname cannot be pointed at the internal network after registration
+ */
+function publicLookup(
+  hostname: string,
+  options: LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void
+): void {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '');
+
+    const blocked = addresses.find(entry => isPrivateAddress(entry.address));
+    if (blocked) {
+      return callback(new Error(`${hostname} resolves to a private address (${blocked.address})`), '');
+    }
+
+    const [first] = addresses;
+    callback(null, options.all ? addresses : first.address, first.family);
+  });
+}
+
+/**
+ * POST a JSON body, resolving with the response status. Pass `checkAddress` to
+ * refuse hosts that resolve to private addresses.
+ */
+function postJson(
+  url: string,
+  body: string,
+  headers: Record<string, string>,
+  timeoutMs: number,
+  checkAddress: boolean
+): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const send = url.startsWith('https:') ? httpsRequest : httpRequest;
+    const req = send(url, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(body) },
+      timeout: timeoutMs,
+      ...(checkAddress ? { lookup: publicLookup } : {}),
+    }, res => {
+      res.resume();
+      res.on('end', () => resolve(res.statusCode || 0));
+    });
+
+    req.on('timeout', () => req.destroy(new Error(`Timed out after ${timeoutMs}ms`)));
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+/**
+ * Reduce event payloads to plain JSON, keeping only the actor's identity
+ */
+function serializePayload(payload: Record<string, any>): Record<string, any> {
+  const { actor, ...rest } = payload;
+  return JSON.parse(JSON.stringify({
+    ...rest,
+    actor: actor ? { id: actor.id, userType: actor.userType } : null,
+  }));
+}
+
+export class WebhookService {
+  private storage: StorageAdapter;
+  private options: Required<WebhookOptions>;
+  private timer?: NodeJS.Timeout;
+  private processing = false;
+  private errorHandler: ((error: unknown) => void) | null = null;
+
+  constructor(
+    storage: StorageAdapter,
+    events: RBACEventBus,
+    options: WebhookOptions = {}
+  ) {
+    this.storage = storage;
+    this.options = {
+      maxAttempts: options.maxAttempts || 8,
+      baseDelayMs: options.baseDelayMs || 10_000,
+      maxDelayMs: options.maxDelayMs || 3_600_000,
+      timeoutMs: options.timeoutMs || 10_000,
+      batchSize: options.batchSize || 50,
+      allowedHosts: options.allowedHosts || [],
+      blockedHosts: options.blockedHosts || [],
+    };
+
+    // Deliveries are queued in the change's own transaction, so a change is
+    // never committed without them and a failed enqueue rolls it back
+    WEBHOOK_EVENTS.forEach(event => {
+      events.inTransaction(event, async (payload, storage) => {
+        await this.enqueue(event, payload.tenantId, payload, storage);
+      });
+    });
+  }
+
+  /**
+   * Register an endpoint for a tenant. The signing secret is only returned here
+   * and by rotateSecret.
+   */
+  async registerEndpoint(
+    tenantId: number,
+    data: CreateWebhookRequest
+  ): Promise<WebhookEndpoint & { secret: string }> {
+    this.validateEndpoint(data);
+
+    const endpoint = await this.storage.createWebhookEndpoint({
+      url: data.url,
+      events: Array.from(new Set(data.events)),
+      description: data.description || null,
+      secret: randomBytes(32).toString('hex'),
+      active: true,
+    }, tenantId);
+
+    return { ...this.toEndpoint(endpoint), secret: endpoint.secret };
+  }
+
+  async getEndpoints(tenantId: number): Promise<WebhookEndpoint[]> {
+    const endpoints = await this.storage.findWebhookEndpoints(tenantId);
+    return endpoints.map(endpoint => this.toEndpoint(endpoint));
+  }
+
+  async getEndpoint(endpointId: number, tenantId: number): Promise<WebhookEndpoint | null> {
+    const endpoint = await this.storage.findWebhookEndpoint(endpointId, tenantId);
+    return endpoint ? this.toEndpoint(endpoint) : null;
+  }
+
+  async updateEndpoint(endpointId: number, tenantId: number, data: UpdateWebhookRequest): Promise<WebhookEndpoint> {
+    const endpoint = await this.storage.findWebhookEndpoint(endpointId, tenantId);
+
+    if (!endpoint) {
+      throw new Error('Webhook not found');
+    }
+
+    this.validateEndpoint({ url: data.url ?? endpoint.url, events: data.events ?? endpoint.events });
+
+    const changes: Partial<WebhookEndpointData> = {};
+    if (data.url !== undefined) changes.url = data.url;
+    if (data.events !== undefined) changes.events = Array.from(new Set(data.events));
+    if (data.description !== undefined) changes.description = data.description || null;
+    if (data.active !== undefined) changes.active = data.active;
+
+    return this.toEndpoint(await this.storage.updateWebhookEndpoint(endpointId, changes));
+  }
+
+  /**
+   * Delete an endpoint along with its deliveries and their attempts
+   */
+  async deleteEndpoint(endpointId: number, tenantId: number): Promise<void> {
+    const endpoint = await this.storage.findWebhookEndpoint(endpointId, tenantId);
+
+    if (!endpoint) {
+      throw new Error('Webhook not found');
+    }
+
+    await this.storage.transaction(storage => storage.deleteWebhookEndpoint(endpointId));
+  }
+
+  /**
+   * Replace an endpoint's signing secret, returning the new one
+   */
+  async rotateSecret(endpointId: number, tenantId: number): Promise<string> {
+    const endpoint = await this.storage.findWebhookEndpoint(endpointId, tenantId);
+
+    if (!endpoint) {
+      throw new Error('Webhook not found');
+    }
+
+    const secret = randomBytes(32).toString('hex');
+    await this.storage.updateWebhookEndpoint(endpointId, { secret });
+    return secret;
+  }
+
+  /**
+   * Write a pending delivery to the outbox for each active endpoint in the
+   * tenant subscribed to the event, returning how many were queued. Pass the
+   * storage of an open transaction to queue them as part of it.
+   */
+  async enqueue(
+    event: string,
+    tenantId: number,
+    payload: Record<string, any>,
+    storage: StorageAdapter = this.storage
+  ): Promise<number> {
+    const endpoints = await storage.findWebhookEndpoints(tenantId);
+
+    const subscribed = endpoints.filter(endpoint =>
+      endpoint.active && (endpoint.events.includes('*') || endpoint.events.includes(event))
+    );
+
+    if (subscribed.length === 0) {
+      return 0;
+    }
+
+    const data = serializePayload(payload);
+    const now = new Date();
+
+    await storage.createWebhookDeliveries(subscribed.map(endpoint => ({
+      endpointId: endpoint.id,
+      event,
+      payload: data,
+      status: 'pending' as const,
+      attempts: 0,
+      nextAttemptAt: now,
+    })), tenantId);
+
+    return subscribed.length;
+  }
+
+  /**
+   * Attempt every due delivery in the outbox once, scheduling retries with
+   * exponential backoff. Safe to run from several processes.
+   */
+  async processOutbox(): Promise<{ delivered: number; retrying: number; failed: number }> {
+    const counts = { delivered: 0, retrying: 0, failed: 0 };
+    const now = new Date();
+
+    const due = await this.storage.findDueWebhookDeliveries(now, this.options.batchSize);
+
+    for (const delivery of due) {
+      // Claim the row by pushing its next attempt past the request timeout
+      const claimed = await this.storage.claimWebhookDelivery(
+        delivery.id,
+        delivery.nextAttemptAt!,
+        new Date(now.getTime() + this.options.timeoutMs * 2)
+      );
+
+      if (!claimed) continue;
+
+      const outcome = await this.attempt(delivery);
+      counts[outcome]++;
+    }
+
+    return counts;
+  }
+
+  /**
+   * Send failed outbox polls to your own logger instead of the console
+   */
+  setErrorHandler(handler: ((error: unknown) => void) | null): void {
+    this.errorHandler = handler;
+  }
+
+  /**
+   * Process the outbox on an interval until stop() is called
+   */
+  start(intervalMs: number = 5000): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      if (this.processing) return;
+      this.processing = true;
+
+      this.processOutbox()
+        .catch(error => this.reportError(error))
+        .finally(() => {
+          this.processing = false;
+        });
+    }, intervalMs);
+
+    // Do not keep the process alive just for webhook delivery
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Get a page of deliveries for a tenant, newest first
+   */
+  async getDeliveries(tenantId: number, query: WebhookDeliveryQuery = {}): Promise<WebhookDeliveryPage> {
+    const limit = Math.min(Math.max(query.limit || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+    const offset = Math.max(query.offset || 0, 0);
+
+    const { rows, total } = await this.storage.findWebhookDeliveries(
+      tenantId,
+      { endpointId: query.endpointId, status: query.status },
+      limit,
+      offset
+    );
+
+    return { deliveries: rows, total, limit, offset };
+  }
+
+  /**
+   * Get the delivery log for one delivery, oldest attempt first
+   */
+  async getDeliveryAttempts(deliveryId: number, tenantId: number): Promise<WebhookAttempt[]> {
+    const delivery = await this.storage.findWebhookDelivery(deliveryId, tenantId);
+
+    if (!delivery) {
+      throw new Error('Delivery not found');
+    }
+
+    return this.storage.findWebhookAttempts(deliveryId);
+  }
+
+  /**
+   * Queue a delivery again, e.g. after it failed or the receiver lost it
+   */
+  async redeliver(deliveryId: number, tenantId: number): Promise<WebhookDelivery> {
+    const delivery = await this.storage.findWebhookDelivery(deliveryId, tenantId);
+
+    if (!delivery) {
+      throw new Error('Delivery not found');
+    }
+
+    return this.storage.updateWebhookDelivery(deliveryId, { status: 'pending', nextAttemptAt: new Date(), lastError: null });
+  }
+
+  private async attempt(delivery: WebhookDelivery): Promise<'delivered' | 'retrying' | 'failed'> {
+    const endpoint = await this.storage.findWebhookEndpoint(delivery.endpointId);
+    const attempt = delivery.attempts + 1;
+    const started = Date.now();
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+
+    if (!endpoint || !endpoint.active) {
+      error = 'Endpoint is disabled';
+    } else {
+      const timestamp = Math.floor(started / 1000);
+      const body = JSON.stringify({
+        id: delivery.id,
+        event: delivery.event,
+        tenantId: delivery.tenantId,
+        createdAt: delivery.createdAt,
+        data: delivery.payload,
+      });
+
+      try {
+        responseStatus = await postJson(endpoint.url, body, {
+          'X-RBAC-Event': delivery.event,
+          'X-RBAC-Delivery': String(delivery.id),
+          'X-RBAC-Timestamp': String(timestamp),
+          'X-RBAC-Signature': signWebhookPayload(endpoint.secret, timestamp, body),
+        }, this.options.timeoutMs, !this.isAllowedHost(new URL(endpoint.url).hostname));
+
+        if (responseStatus < 200 || responseStatus >= 300) {
+          error = `Receiver responded with ${responseStatus}`;
+        }
+      } catch (requestError) {
+        const message = requestError instanceof Error ? requestError.message : '';
+        error = (message || String(requestError)).slice(0, MAX_ERROR_LENGTH);
+      }
+    }
+
+    await this.storage.createWebhookAttempt({
+      deliveryId: delivery.id,
+      attempt,
+      responseStatus,
+      error,
+      durationMs: Date.now() - started,
+    });
+
+    if (!error) {
+      await this.storage.updateWebhookDelivery(delivery.id, {
+        status: 'delivered', attempts: attempt, nextAttemptAt: null, lastError: null, deliveredAt: new Date(),
+      });
+      return 'delivered';
+    }
+
+    if (attempt >= this.options.maxAttempts || !endpoint || !endpoint.active) {
+      await this.storage.updateWebhookDelivery(delivery.id, {
+        status: 'failed', attempts: attempt, nextAttemptAt: null, lastError: error,
+      });
+      return 'failed';
+    }
+
+    const delay = Math.min(this.options.baseDelayMs * 2 ** (attempt - 1), this.options.maxDelayMs);
+    await this.storage.updateWebhookDelivery(delivery.id, {
+      attempts: attempt, nextAttemptAt: new Date(Date.now() + delay), lastError: error,
+    });
+    return 'retrying';
+  }
+
+  private validateEndpoint(data: { url: string; events: string[] }): void {
+    let url: URL;
+
+    try {
+      url = new URL(data.url);
+    } catch {
+      throw new Error('Webhook URL is invalid');
+    }
+
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+      throw new Error('Webhook URL must use http or https');
+    }
+
+    this.validateHost(url.hostname.toLowerCase().replace(/\.$/, ''));
+
+    if (!Array.isArray(data.events) || data.events.length === 0) {
+      throw new Error('Webhook must subscribe to at least one event');
+    }
+
+    const unknown = data.events.filter(event => event !== '*' && !WEBHOOK_EVENTS.includes(event as RBACEventName));
+
+    if (unknown.length > 0) {
+      throw new Error(`Unknown webhook events: ${unknown.join(', ')}`);
+    }
+  }
+
+  /**
+   * Reject hosts outside allowedHosts, in blockedHosts, or naming a local,
+   * private or metadata address. Allowed hosts skip the address checks, e.g. for
+   * receivers on the internal network.
+   */
+  private validateHost(hostname: string): void {
+    const { allowedHosts, blockedHosts } = this.options;
+
+    if (matchesHost(hostname, blockedHosts)) {
+      throw new Error(`Webhook host ${hostname} is blocked`);
+    }
+
+    if (allowedHosts.length > 0) {
+      if (!matchesHost(hostname, allowedHosts)) {
+        throw new Error(`Webhook host ${hostname} is not allowed`);
+      }
+      return;
+    }
+
+    if (
+      hostname === 'localhost' ||
+      hostname.endsWith('.localhost') ||
+      METADATA_HOSTS.includes(hostname) ||
+      isPrivateAddress(hostname)
+    ) {
+      throw new Error(`Webhook host ${hostname} is a local, private or metadata address`);
+    }
+  }
+
+  private isAllowedHost(hostname: string): boolean {
+    return matchesHost(hostname.toLowerCase().replace(/\.$/, ''), this.options.allowedHosts);
+  }
+
+  // Strip the secret, which is only handed out on registration and rotation
+  private toEndpoint(endpoint: WebhookEndpointRecord): WebhookEndpoint {
+    const { secret, ...rest } = endpoint;
+    return rest;
+  }
+
+  private reportError(error: unknown): void {
+    if (!this.errorHandler) {
+      console.error('[rbac] Webhook delivery failed:', error);
+      return;
+    }
+
+    try {
+      this.errorHandler(error);
+    } catch (handlerError) {
+      console.error('Webhook error handler error:', handlerError);
+    }
+  }
+}
@@ -0,0 +1,163 @@
+import {
+  AuditAction,
+  AuditLogEntry,
+  AuditLogQuery,
+  Role,
+  TenantMembership,
+  User,
+  WebhookAttempt,
+  WebhookDelivery,
+  WebhookEndpoint,
+} from '../types';
+
+export interface RoleAssignment {
+  userId: number;
+  roleId: number;
+  validFrom: Date | null;
+  expiresAt: Date | null;
+}
+
+export interface RoleData {
+  name: string;
+  description?: string | null;
+  permissions: string[];
+  parentRoleIds: number[];
+  templateKey?: string | null;
+}
+
+export interface DirectPermission {
+  userId: number;
+  permission: string;
+}
+
+export interface AuditEntryData {
+  actorId: number | null;
+  action: AuditAction;
+  roleId: number | null;
+  userId: number | null;
+  before: Record<string, any> | null;
+  after: Record<string, any> | null;
+  permissionsAdded: string[];
+  permissionsRemoved: string[];
+}
+
+export type AuditEntryFilter = Pick<AuditLogQuery, 'action' | 'actorId' | 'roleId' | 'userId'>;
+
+// Endpoints as stored, including the signing secret the public type leaves out
+export interface WebhookEndpointRecord extends WebhookEndpoint {
+  secret: string;
+}
+
+export interface WebhookEndpointData {
+  url: string;
+  events: string[];
+  description: string | null;
+  secret: string;
+  active: boolean;
+}
+
+export interface WebhookDeliveryData {
+  endpointId: number;
+  event: string;
+  payload: Record<string, any>;
+  status: WebhookDelivery['status'];
+  attempts: number;
+  nextAttemptAt: Date | null;
+}
+
+export type WebhookDeliveryChanges = Partial<
+  Pick<WebhookDelivery, 'status' | 'attempts' | 'nextAttemptAt' | 'lastError' | 'deliveredAt'>
+>;
+
+export type WebhookAttemptData = Omit<WebhookAttempt, 'id' | 'createdAt'>;
+
+/**
+ * A page of rows along with the total number matching
+ */
+export interface StoragePage<T> {
+  rows: T[];
+  total: number;
+}
+
+/**
+ * Persistence used by the RBAC services. Roles returned carry the
+ * configured tenant field; assignment lookups take `now` so adapters can
+ * apply the validFrom/expiresAt window.
+ */
+export interface StorageAdapter {
+  // Roles
+  findRoles(tenantId: number): Promise<Role[]>; // Newest first
+  findRoleById(roleId: number, tenantId: number): Promise<Role | null>;
+  findRoleByName(name: string, tenantId: number): Promise<Role | null>;
+  findRolesByTemplate(templateKey: string, tenantId?: number): Promise<Role[]>; // All tenants when omitted
+  createRole(data: RoleData, tenantId: number): Promise<Role>;
+  updateRole(roleId: number, tenantId: number, changes: Partial<RoleData>): Promise<Role>;
+  deleteRole(roleId: number, tenantId: number): Promise<void>;
+  deleteTenantRoles(tenantId: number): Promise<number>;
+
+  // Assignments
+  countAssignments(roleId: number): Promise<number>;
+  findAssignment(userId: number, roleId: number): Promise<RoleAssignment | null>;
+  findAssignments(userIds: number[], roleIds: number[]): Promise<RoleAssignment[]>;
+  findRoleAssignments(roleIds: number[]): Promise<RoleAssignment[]>; // Every user holding these roles
+  createAssignment(assignment: RoleAssignment): Promise<boolean>; // False if the user already holds the role
+  deleteAssignment(userId: number, roleId: number): Promise<boolean>;
+  deleteExpiredAssignments(now: Date, roleIds?: number[]): Promise<number>;
+  findActiveUserRoles(userId: number, tenantId: number, now: Date): Promise<Role[]>;
+
+  deleteRoleAssignments(roleIds: number[]): Promise<number>;
+
+  // Users
+  findUserWithRoles(userId: number, tenantId: number, now: Date): Promise<User | null>;
+
+  // Direct permissions
+  findDirectPermissions(userId: number, tenantId: number): Promise<string[]>; // Sorted by name
+  findTenantDirectPermissions(tenantId: number): Promise<DirectPermission[]>;
+  createDirectPermission(userId: number, permission: string, tenantId: number): Promise<void>;
+  deleteDirectPermission(userId: number, permission: string, tenantId: number): Promise<boolean>;
+  deleteTenantDirectPermissions(tenantId: number): Promise<number>;
+
+  // Tenant memberships
+  findMembership(userId: number, tenantId: number): Promise<TenantMembership | null>;
+  findUserMemberships(userId: number): Promise<TenantMembership[]>;     // By tenant
+  findTenantMemberships(tenantId: number): Promise<TenantMembership[]>; // By user
+  saveMembership(membership: TenantMembership): Promise<void>;           // Creates or changes the user type
+  deleteMembership(userId: number, tenantId: number): Promise<boolean>;
+  deleteTenantMemberships(tenantId: number): Promise<number>;
+
+  // Audit log
+  createAuditEntry(entry: AuditEntryData, tenantId: number): Promise<void>;
+  findAuditEntries(
+    tenantId: number,
+    filter: AuditEntryFilter,
+    limit: number,
+    offset: number
+  ): Promise<StoragePage<AuditLogEntry>>; // Newest first
+
+  // Webhooks
+  findWebhookEndpoints(tenantId: number): Promise<WebhookEndpointRecord[]>;
+  findWebhookEndpoint(endpointId: number, tenantId?: number): Promise<WebhookEndpointRecord | null>;
+  createWebhookEndpoint(data: WebhookEndpointData, tenantId: number): Promise<WebhookEndpointRecord>;
+  updateWebhookEndpoint(endpointId: number, changes: Partial<WebhookEndpointData>): Promise<WebhookEndpointRecord>;
+  deleteWebhookEndpoint(endpointId: number): Promise<void>; // Along with its deliveries and their attempts
+  findWebhookDelivery(deliveryId: number, tenantId: number): Promise<WebhookDelivery | null>;
+  findWebhookDeliveries(
+    tenantId: number,
+    filter: { endpointId?: number; status?: WebhookDelivery['status'] },
+    limit: number,
+    offset: number
+  ): Promise<StoragePage<WebhookDelivery>>; // Newest first
+  findDueWebhookDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]>; // Pending, oldest due first
+  createWebhookDeliveries(deliveries: WebhookDeliveryData[], tenantId: number): Promise<void>;
+  updateWebhookDelivery(deliveryId: number, changes: WebhookDeliveryChanges): Promise<WebhookDelivery>;
+  // Moves a pending delivery's next attempt only if it still has the expected one
+  claimWebhookDelivery(deliveryId: number, expectedNextAttemptAt: Date, nextAttemptAt: Date): Promise<boolean>;
+  findWebhookAttempts(deliveryId: number): Promise<WebhookAttempt[]>; // Oldest first
+  createWebhookAttempt(attempt: WebhookAttemptData): Promise<void>;
+
+  /**
+   * Run `work` against an adapter whose writes commit together, or not at all
+   * if `work` throws
+   */
+  transaction<T>(work: (storage: StorageAdapter) => Promise<T>): Promise<T>;
+}
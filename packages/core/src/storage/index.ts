@@ -0,0 +1,17 @@
+export { SequelizeStorageAdapter } from './sequelize-adapter';
+export type { SequelizeStorageModels } from './sequelize-adapter';
+export { MemoryStorageAdapter } from './memory-adapter';
+export type {
+  StorageAdapter,
+  RoleAssignment,
+  RoleData,
+  DirectPermission,
+  AuditEntryData,
+  AuditEntryFilter,
+  WebhookEndpointRecord,
+  WebhookEndpointData,
+  WebhookDeliveryData,
+  WebhookDeliveryChanges,
+  WebhookAttemptData,
+  StoragePage,
+} from './adapter';
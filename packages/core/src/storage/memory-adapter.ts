@@ -0,0 +1,480 @@
+import {
+  AuditLogEntry,
+  RBACConfig,
+  Role,
+  TenantMembership,
+  User,
+  WebhookAttempt,
+  WebhookDelivery,
+} from '../types';
+import {
+  AuditEntryData,
+  AuditEntryFilter,
+  DirectPermission,
+  RoleAssignment,
+  RoleData,
+  StorageAdapter,
+  StoragePage,
+  WebhookAttemptData,
+  WebhookDeliveryChanges,
+  WebhookDeliveryData,
+  WebhookEndpointData,
+  WebhookEndpointRecord,
+} from './adapter';
+
+function isActive(assignment: RoleAssignment, now: Date): boolean {
+  return (!assignment.validFrom || assignment.validFrom <= now) &&
+    (!assignment.expiresAt || assignment.expiresAt > now);
+}
+
+function page<T>(rows: T[], limit: number, offset: number): StoragePage<T> {
+  return { rows: rows.slice(offset, offset + limit), total: rows.length };
+}
+
+/**
+ * In-process storage for tests and prototypes; nothing is persisted
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  private tenantField: string;
+  private roles: Role[] = [];
+  private assignments: RoleAssignment[] = [];
+  private directPermissions: (DirectPermission & { tenantId: number })[] = [];
+  private memberships: TenantMembership[] = [];
+  private auditEntries: AuditLogEntry[] = [];
+  private endpoints: WebhookEndpointRecord[] = [];
+  private deliveries: WebhookDelivery[] = [];
+  private attempts: WebhookAttempt[] = [];
+  private users = new Map<number, User>();
+  private nextId = { role: 1, audit: 1, endpoint: 1, delivery: 1, attempt: 1 };
+  private journal?: (() => void)[]; // Undo steps, only on a transaction's view
+
+  constructor(config: RBACConfig) {
+    this.tenantField = config.tenant.field;
+  }
+
+  /**
+   * Register a user so findUserWithRoles can resolve them
+   */
+  addUser(user: User): void {
+    this.users.set(user.id, { ...user });
+  }
+
+  async findRoles(tenantId: number): Promise<Role[]> {
+    return this.roles
+      .filter(role => role[this.tenantField] === tenantId)
+      .reverse()
+      .map(role => this.copy(role));
+  }
+
+  async findRoleById(roleId: number, tenantId: number): Promise<Role | null> {
+    const role = this.findRole(roleId, tenantId);
+    return role ? this.copy(role) : null;
+  }
+
+  async findRoleByName(name: string, tenantId: number): Promise<Role | null> {
+    const role = this.roles.find(r => r.name === name && r[this.tenantField] === tenantId);
+    return role ? this.copy(role) : null;
+  }
+
+  async findRolesByTemplate(templateKey: string, tenantId?: number): Promise<Role[]> {
+    return this.roles
+      .filter(role => role.templateKey === templateKey && (tenantId === undefined || role[this.tenantField] === tenantId))
+      .map(role => this.copy(role));
+  }
+
+  async createRole(data: RoleData, tenantId: number): Promise<Role> {
+    const now = new Date();
+    const role: Role = {
+      id: this.nextId.role++,
+      ...data,
+      description: data.description ?? undefined,
+      templateKey: data.templateKey ?? null,
+      [this.tenantField]: tenantId,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.insert(this.roles, this.copy(role));
+    return this.copy(role);
+  }
+
+  async updateRole(roleId: number, tenantId: number, changes: Partial<RoleData>): Promise<Role> {
+    const role = this.findRole(roleId, tenantId);
+
+    if (!role) {
+      throw new Error('Role not found');
+    }
+
+    const { description, ...rest } = changes;
+
+    this.modify(role, {
+      ...rest,
+      ...(description !== undefined ? { description: description ?? undefined } : {}),
+      permissions: [...(changes.permissions || role.permissions)],
+      parentRoleIds: [...(changes.parentRoleIds || role.parentRoleIds || [])],
+      updatedAt: new Date(),
+    });
+    return this.copy(role);
+  }
+
+  async deleteRole(roleId: number, tenantId: number): Promise<void> {
+    this.removeWhere(this.roles, role => role.id === roleId && role[this.tenantField] === tenantId);
+  }
+
+  async deleteTenantRoles(tenantId: number): Promise<number> {
+    return this.removeWhere(this.roles, role => role[this.tenantField] === tenantId);
+  }
+
+  async countAssignments(roleId: number): Promise<number> {
+    return this.assignments.filter(assignment => assignment.roleId === roleId).length;
+  }
+
+  async findAssignment(userId: number, roleId: number): Promise<RoleAssignment | null> {
+    const assignment = this.assignments.find(a => a.userId === userId && a.roleId === roleId);
+    return assignment ? { ...assignment } : null;
+  }
+
+  async findAssignments(userIds: number[], roleIds: number[]): Promise<RoleAssignment[]> {
+    return this.assignments
+      .filter(a => userIds.includes(a.userId) && roleIds.includes(a.roleId))
+      .map(a => ({ ...a }));
+  }
+
+  async findRoleAssignments(roleIds: number[]): Promise<RoleAssignment[]> {
+    return this.assignments
+      .filter(a => roleIds.includes(a.roleId))
+      .map(a => ({ ...a }));
+  }
+
+  async createAssignment(assignment: RoleAssignment): Promise<boolean> {
+    if (this.assignments.some(a => a.userId === assignment.userId && a.roleId === assignment.roleId)) {
+      return false;
+    }
+
+    this.insert(this.assignments, { ...assignment });
+    return true;
+  }
+
+  async deleteAssignment(userId: number, roleId: number): Promise<boolean> {
+    return this.removeWhere(this.assignments, a => a.userId === userId && a.roleId === roleId) > 0;
+  }
+
+  async deleteExpiredAssignments(now: Date, roleIds?: number[]): Promise<number> {
+    return this.removeWhere(this.assignments, a =>
+      !!a.expiresAt && a.expiresAt <= now && (!roleIds || roleIds.includes(a.roleId))
+    );
+  }
+
+  async deleteRoleAssignments(roleIds: number[]): Promise<number> {
+    return this.removeWhere(this.assignments, a => roleIds.includes(a.roleId));
+  }
+
+  async findActiveUserRoles(userId: number, tenantId: number, now: Date): Promise<Role[]> {
+    const roleIds = new Set(
+      this.assignments
+        .filter(assignment => assignment.userId === userId && isActive(assignment, now))
+        .map(assignment => assignment.roleId)
+    );
+
+    return this.roles
+      .filter(role => roleIds.has(role.id) && role[this.tenantField] === tenantId)
+      .map(role => this.copy(role));
+  }
+
+  async findUserWithRoles(userId: number, tenantId: number, now: Date): Promise<User | null> {
+    const user = this.users.get(userId);
+
+    if (!user) {
+      return null;
+    }
+
+    return { ...user, roles: await this.findActiveUserRoles(userId, tenantId, now) };
+  }
+
+  async findDirectPermissions(userId: number, tenantId: number): Promise<string[]> {
+    return this.directPermissions
+      .filter(grant => grant.userId === userId && grant.tenantId === tenantId)
+      .map(grant => grant.permission)
+      .sort();
+  }
+
+  async findTenantDirectPermissions(tenantId: number): Promise<DirectPermission[]> {
+    return this.directPermissions
+      .filter(grant => grant.tenantId === tenantId)
+      .map(({ userId, permission }) => ({ userId, permission }))
+      .sort((a, b) => a.userId - b.userId || a.permission.localeCompare(b.permission));
+  }
+
+  async createDirectPermission(userId: number, permission: string, tenantId: number): Promise<void> {
+    this.insert(this.directPermissions, { userId, permission, tenantId });
+  }
+
+  async deleteDirectPermission(userId: number, permission: string, tenantId: number): Promise<boolean> {
+    return this.removeWhere(this.directPermissions, grant =>
+      grant.userId === userId && grant.permission === permission && grant.tenantId === tenantId
+    ) > 0;
+  }
+
+  async deleteTenantDirectPermissions(tenantId: number): Promise<number> {
+    return this.removeWhere(this.directPermissions, grant => grant.tenantId === tenantId);
+  }
+
+  async findMembership(userId: number, tenantId: number): Promise<TenantMembership | null> {
+    const membership = this.memberships.find(m => m.userId === userId && m.tenantId === tenantId);
+    return membership ? { ...membership } : null;
+  }
+
+  async findUserMemberships(userId: number): Promise<TenantMembership[]> {
+    return this.memberships
+      .filter(m => m.userId === userId)
+      .sort((a, b) => a.tenantId - b.tenantId)
+      .map(m => ({ ...m }));
+  }
+
+  async findTenantMemberships(tenantId: number): Promise<TenantMembership[]> {
+    return this.memberships
+      .filter(m => m.tenantId === tenantId)
+      .sort((a, b) => a.userId - b.userId)
+      .map(m => ({ ...m }));
+  }
+
+  async saveMembership(membership: TenantMembership): Promise<void> {
+    const existing = this.memberships.find(m => m.userId === membership.userId && m.tenantId === membership.tenantId);
+
+    if (existing) {
+      this.modify(existing, { userType: membership.userType });
+    } else {
+      this.insert(this.memberships, { ...membership });
+    }
+  }
+
+  async deleteMembership(userId: number, tenantId: number): Promise<boolean> {
+    return this.removeWhere(this.memberships, m => m.userId === userId && m.tenantId === tenantId) > 0;
+  }
+
+  async deleteTenantMemberships(tenantId: number): Promise<number> {
+    return this.removeWhere(this.memberships, m => m.tenantId === tenantId);
+  }
+
+  async createAuditEntry(entry: AuditEntryData, tenantId: number): Promise<void> {
+    this.insert(this.auditEntries, {
+      id: this.nextId.audit++,
+      ...entry,
+      [this.tenantField]: tenantId,
+      createdAt: new Date(),
+    });
+  }
+
+  async findAuditEntries(
+    tenantId: number,
+    filter: AuditEntryFilter,
+    limit: number,
+    offset: number
+  ): Promise<StoragePage<AuditLogEntry>> {
+    const entries = this.auditEntries
+      .filter(entry =>
+        entry[this.tenantField] === tenantId &&
+        (!filter.action || entry.action === filter.action) &&
+        (filter.actorId === undefined || entry.actorId === filter.actorId) &&
+        (filter.roleId === undefined || entry.roleId === filter.roleId) &&
+        (filter.userId === undefined || entry.userId === filter.userId)
+      )
+      .reverse()
+      .map(entry => ({ ...entry }));
+
+    return page(entries, limit, offset);
+  }
+
+  async findWebhookEndpoints(tenantId: number): Promise<WebhookEndpointRecord[]> {
+    return this.endpoints
+      .filter(endpoint => endpoint.tenantId === tenantId)
+      .map(endpoint => ({ ...endpoint, events: [...endpoint.events] }));
+  }
+
+  async findWebhookEndpoint(endpointId: number, tenantId?: number): Promise<WebhookEndpointRecord | null> {
+    const endpoint = this.endpoints.find(e => e.id === endpointId && (tenantId === undefined || e.tenantId === tenantId));
+    return endpoint ? { ...endpoint, events: [...endpoint.events] } : null;
+  }
+
+  async createWebhookEndpoint(data: WebhookEndpointData, tenantId: number): Promise<WebhookEndpointRecord> {
+    const now = new Date();
+    const endpoint: WebhookEndpointRecord = {
+      id: this.nextId.endpoint++,
+      tenantId,
+      ...data,
+      events: [...data.events],
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.insert(this.endpoints, endpoint);
+    return { ...endpoint, events: [...endpoint.events] };
+  }
+
+  async updateWebhookEndpoint(endpointId: number, changes: Partial<WebhookEndpointData>): Promise<WebhookEndpointRecord> {
+    const endpoint = this.endpoints.find(e => e.id === endpointId);
+
+    if (!endpoint) {
+      throw new Error('Webhook not found');
+    }
+
+    this.modify(endpoint, { ...changes, updatedAt: new Date() });
+    return { ...endpoint, events: [...endpoint.events] };
+  }
+
+  async deleteWebhookEndpoint(endpointId: number): Promise<void> {
+    const deliveryIds = this.deliveries.filter(d => d.endpointId === endpointId).map(d => d.id);
+
+    this.removeWhere(this.attempts, attempt => deliveryIds.includes(attempt.deliveryId));
+    this.removeWhere(this.deliveries, d => d.endpointId === endpointId);
+    this.removeWhere(this.endpoints, e => e.id === endpointId);
+  }
+
+  async findWebhookDelivery(deliveryId: number, tenantId: number): Promise<WebhookDelivery | null> {
+    const delivery = this.deliveries.find(d => d.id === deliveryId && d.tenantId === tenantId);
+    return delivery ? { ...delivery } : null;
+  }
+
+  async findWebhookDeliveries(
+    tenantId: number,
+    filter: { endpointId?: number; status?: WebhookDelivery['status'] },
+    limit: number,
+    offset: number
+  ): Promise<StoragePage<WebhookDelivery>> {
+    const deliveries = this.deliveries
+      .filter(d =>
+        d.tenantId === tenantId &&
+        (filter.endpointId === undefined || d.endpointId === filter.endpointId) &&
+        (!filter.status || d.status === filter.status)
+      )
+      .reverse()
+      .map(d => ({ ...d }));
+
+    return page(deliveries, limit, offset);
+  }
+
+  async findDueWebhookDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]> {
+    return this.deliveries
+      .filter(d => d.status === 'pending' && d.nextAttemptAt && d.nextAttemptAt <= now)
+      .sort((a, b) => a.nextAttemptAt!.getTime() - b.nextAttemptAt!.getTime())
+      .slice(0, limit)
+      .map(d => ({ ...d }));
+  }
+
+  async createWebhookDeliveries(deliveries: WebhookDeliveryData[], tenantId: number): Promise<void> {
+    const now = new Date();
+
+    deliveries.forEach(delivery => {
+      this.insert(this.deliveries, {
+        id: this.nextId.delivery++,
+        tenantId,
+        ...delivery,
+        lastError: null,
+        deliveredAt: null,
+        createdAt: now,
+      });
+    });
+  }
+
+  async updateWebhookDelivery(deliveryId: number, changes: WebhookDeliveryChanges): Promise<WebhookDelivery> {
+    const delivery = this.deliveries.find(d => d.id === deliveryId);
+
+    if (!delivery) {
+      throw new Error('Delivery not found');
+    }
+
+    this.modify(delivery, changes);
+    return { ...delivery };
+  }
+
+  async claimWebhookDelivery(deliveryId: number, expectedNextAttemptAt: Date, nextAttemptAt: Date): Promise<boolean> {
+    const delivery = this.deliveries.find(d =>
+      d.id === deliveryId &&
+      d.status === 'pending' &&
+      d.nextAttemptAt?.getTime() === expectedNextAttemptAt.getTime()
+    );
+
+    if (!delivery) {
+      return false;
+    }
+
+    this.modify(delivery, { nextAttemptAt });
+    return true;
+  }
+
+  async findWebhookAttempts(deliveryId: number): Promise<WebhookAttempt[]> {
+    return this.attempts
+      .filter(attempt => attempt.deliveryId === deliveryId)
+      .sort((a, b) => a.attempt - b.attempt)
+      .map(attempt => ({ ...attempt }));
+  }
+
+  async createWebhookAttempt(attempt: WebhookAttemptData): Promise<void> {
+    this.insert(this.attempts, { id: this.nextId.attempt++, ...attempt, createdAt: new Date() });
+  }
+
+  /**
+   * Runs work against a view of this adapter that logs how to undo each
+   * write. A failure undoes only the transaction's own writes, so operations
+   * interleaved with it keep theirs; ids are never handed out again.
+   */
+  async transaction<T>(work: (storage: StorageAdapter) => Promise<T>): Promise<T> {
+    const scope: MemoryStorageAdapter = Object.create(this);
+    scope.journal = [];
+
+    try {
+      const result = await work(scope);
+      // A nested transaction's writes are undone with its parent's
+      this.journal?.push(...scope.journal);
+      return result;
+    } catch (error) {
+      scope.journal.reverse().forEach(undo => undo());
+      throw error;
+    }
+  }
+
+  // Tables are only changed in place, so a transaction's view shares them
+
+  private insert<T>(table: T[], row: T): void {
+    table.push(row);
+    this.journal?.push(() => {
+      const index = table.indexOf(row);
+      if (index >= 0) table.splice(index, 1);
+    });
+  }
+
+  private removeWhere<T>(table: T[], match: (row: T) => boolean): number {
+    const removed: [number, T][] = [];
+
+    for (let index = table.length - 1; index >= 0; index--) {
+      if (match(table[index])) {
+        removed.unshift([index, table[index]]);
+        table.splice(index, 1);
+      }
+    }
+
+    this.journal?.push(() => {
+      removed.forEach(([index, row]) => table.splice(Math.min(index, table.length), 0, row));
+    });
+    return removed.length;
+  }
+
+  private modify<T extends object>(row: T, changes: Partial<T>): void {
+    const before = Object.fromEntries(Object.keys(changes).map(key => [key, row[key as keyof T]])) as Partial<T>;
+
+    Object.assign(row, changes);
+    this.journal?.push(() => Object.assign(row, before));
+  }
+
+  private findRole(roleId: number, tenantId: number): Role | undefined {
+    return this.roles.find(role => role.id === roleId && role[this.tenantField] === tenantId);
+  }
+
+  private copy(role: Role): Role {
+    return {
+      ...role,
+      permissions: [...role.permissions],
+      parentRoleIds: [...(role.parentRoleIds || [])],
+    };
+  }
+}
@@ -0,0 +1,624 @@
+import {
+  Model,
+  ModelStatic,
+  Op,
+  Sequelize,
+  Transaction,
+  UniqueConstraintError,
+  WhereAttributeHash,
+  WhereOptions,
+} from 'sequelize';
+import {
+  AuditLogAttributes,
+  AuditLogCreationAttributes,
+  RoleAttributes,
+  RoleCreationAttributes,
+  TenantMembershipAttributes,
+  TenantMembershipCreationAttributes,
+  UserPermissionAttributes,
+  UserPermissionCreationAttributes,
+  UserRoleAttributes,
+  UserRoleCreationAttributes,
+  WebhookAttemptAttributes,
+  WebhookAttemptCreationAttributes,
+  WebhookDeliveryAttributes,
+  WebhookDeliveryCreationAttributes,
+  WebhookEndpointAttributes,
+  WebhookEndpointCreationAttributes,
+} from '../models';
+import { activeUserRoleWhere } from '../models/user-role';
+import {
+  AuditLogEntry,
+  RBACConfig,
+  Role,
+  TenantMembership,
+  User,
+  WebhookAttempt,
+  WebhookDelivery,
+} from '../types';
+import {
+  AuditEntryData,
+  AuditEntryFilter,
+  DirectPermission,
+  RoleAssignment,
+  RoleData,
+  StorageAdapter,
+  StoragePage,
+  WebhookAttemptData,
+  WebhookDeliveryChanges,
+  WebhookDeliveryData,
+  WebhookEndpointData,
+  WebhookEndpointRecord,
+} from './adapter';
+
+export interface SequelizeStorageModels {
+  Role: ModelStatic<Model<RoleAttributes, RoleCreationAttributes>>;
+  UserRole: ModelStatic<Model<UserRoleAttributes, UserRoleCreationAttributes>>;
+  UserPermission: ModelStatic<Model<UserPermissionAttributes, UserPermissionCreationAttributes>>;
+  AuditLog: ModelStatic<Model<AuditLogAttributes, AuditLogCreationAttributes>>;
+  TenantMembership: ModelStatic<Model<TenantMembershipAttributes, TenantMembershipCreationAttributes>>;
+  WebhookEndpoint: ModelStatic<Model<WebhookEndpointAttributes, WebhookEndpointCreationAttributes>>;
+  WebhookDelivery: ModelStatic<Model<WebhookDeliveryAttributes, WebhookDeliveryCreationAttributes>>;
+  WebhookAttempt: ModelStatic<Model<WebhookAttemptAttributes, WebhookAttemptCreationAttributes>>;
+}
+
+/**
+ * Storage backed by the Sequelize models from createModels
+ */
+export class SequelizeStorageAdapter implements StorageAdapter {
+  private sequelize: Sequelize;
+  private models: SequelizeStorageModels;
+  private config: RBACConfig;
+  private RoleModel: SequelizeStorageModels['Role'];
+  private UserRoleModel: SequelizeStorageModels['UserRole'];
+  private UserPermissionModel: SequelizeStorageModels['UserPermission'];
+  private AuditLogModel: SequelizeStorageModels['AuditLog'];
+  private TenantMembershipModel: SequelizeStorageModels['TenantMembership'];
+  private WebhookEndpointModel: SequelizeStorageModels['WebhookEndpoint'];
+  private WebhookDeliveryModel: SequelizeStorageModels['WebhookDelivery'];
+  private WebhookAttemptModel: SequelizeStorageModels['WebhookAttempt'];
+  private tenantField: string;
+  private transactionHandle?: Transaction;
+
+  constructor(
+    sequelize: Sequelize,
+    models: SequelizeStorageModels,
+    config: RBACConfig,
+    transaction?: Transaction
+  ) {
+    this.sequelize = sequelize;
+    this.models = models;
+    this.config = config;
+    this.RoleModel = models.Role;
+    this.UserRoleModel = models.UserRole;
+    this.UserPermissionModel = models.UserPermission;
+    this.AuditLogModel = models.AuditLog;
+    this.TenantMembershipModel = models.TenantMembership;
+    this.WebhookEndpointModel = models.WebhookEndpoint;
+    this.WebhookDeliveryModel = models.WebhookDelivery;
+    this.WebhookAttemptModel = models.WebhookAttempt;
+    this.tenantField = config.tenant.field;
+    this.transactionHandle = transaction;
+  }
+
+  async findRoles(tenantId: number): Promise<Role[]> {
+    const roles = await this.RoleModel.findAll({
+      where: { [this.tenantField]: tenantId },
+      order: [['createdAt', 'DESC']],
+      transaction: this.transactionHandle,
+    });
+
+    return roles.map(role => this.toRole(role));
+  }
+
+  async findRoleById(roleId: number, tenantId: number): Promise<Role | null> {
+    const role = await this.findRoleInstance(roleId, tenantId);
+    return role ? this.toRole(role) : null;
+  }
+
+  async findRoleByName(name: string, tenantId: number): Promise<Role | null> {
+    const role = await this.RoleModel.findOne({
+      where: { name, [this.tenantField]: tenantId },
+      transaction: this.transactionHandle,
+    });
+
+    return role ? this.toRole(role) : null;
+  }
+
+  async findRolesByTemplate(templateKey: string, tenantId?: number): Promise<Role[]> {
+    const where: WhereOptions<RoleAttributes> = tenantId === undefined
+      ? { templateKey }
+      : { templateKey, [this.tenantField]: tenantId };
+
+    const roles = await this.RoleModel.findAll({ where, transaction: this.transactionHandle });
+    return roles.map(role => this.toRole(role));
+  }
+
+  async createRole(data: RoleData, tenantId: number): Promise<Role> {
+    const role = await this.RoleModel.create(
+      { ...data, [this.tenantField]: tenantId },
+      { transaction: this.transactionHandle }
+    );
+    return this.toRole(role);
+  }
+
+  async updateRole(roleId: number, tenantId: number, changes: Partial<RoleData>): Promise<Role> {
+    const role = await this.findRoleInstance(roleId, tenantId);
+
+    if (!role) {
+      throw new Error('Role not found');
+    }
+
+    await role.update(changes, { transaction: this.transactionHandle });
+    await role.reload({ transaction: this.transactionHandle });
+    return this.toRole(role);
+  }
+
+  async deleteRole(roleId: number, tenantId: number): Promise<void> {
+    await this.RoleModel.destroy({
+      where: { id: roleId, [this.tenantField]: tenantId },
+      transaction: this.transactionHandle,
+    });
+  }
+
+  async deleteTenantRoles(tenantId: number): Promise<number> {
+    return this.RoleModel.destroy({
+      where: { [this.tenantField]: tenantId },
+      transaction: this.transactionHandle,
+    });
+  }
+
+  async countAssignments(roleId: number): Promise<number> {
+    return this.UserRoleModel.count({ where: { roleId }, transaction: this.transactionHandle });
+  }
+
+  async findAssignment(userId: number, roleId: number): Promise<RoleAssignment | null> {
+    const assignment = await this.UserRoleModel.findOne({
+      where: { userId, roleId },
+      transaction: this.transactionHandle,
+    });
+    return assignment ? this.toAssignment(assignment) : null;
+  }
+
+  async findAssignments(userIds: number[], roleIds: number[]): Promise<RoleAssignment[]> {
+    if (userIds.length === 0 || roleIds.length === 0) {
+      return [];
+    }
+
+    const assignments = await this.UserRoleModel.findAll({
+      where: { userId: userIds, roleId: roleIds },
+      transaction: this.transactionHandle,
+    });
+    return assignments.map(assignment => this.toAssignment(assignment));
+  }
+
+  async findRoleAssignments(roleIds: number[]): Promise<RoleAssignment[]> {
+    if (roleIds.length === 0) {
+      return [];
+    }
+
+    const assignments = await this.UserRoleModel.findAll({
+      where: { roleId: roleIds },
+      order: [['userId', 'ASC'], ['roleId', 'ASC']],
+      transaction: this.transactionHandle,
+    });
+    return assignments.map(assignment => this.toAssignment(assignment));
+  }
+
+  async createAssignment(assignment: RoleAssignment): Promise<boolean> {
+    try {
+      await this.UserRoleModel.create(assignment, { transaction: this.transactionHandle });
+      return true;
+    } catch (error) {
+      if (error instanceof UniqueConstraintError) return false;
+      throw error;
+    }
+  }
+
+  async deleteAssignment(userId: number, roleId: number): Promise<boolean> {
+    const deleted = await this.UserRoleModel.destroy({
+      where: { userId, roleId },
+      transaction: this.transactionHandle,
+    });
+    return deleted > 0;
+  }
+
+  async deleteExpiredAssignments(now: Date, roleIds?: number[]): Promise<number> {
+    const where: WhereAttributeHash<UserRoleAttributes> = { expiresAt: { [Op.lte]: now } };
+
+    if (roleIds) {
+      where.roleId = roleIds;
+    }
+
+    return this.UserRoleModel.destroy({ where, transaction: this.transactionHandle });
+  }
+
+  async deleteRoleAssignments(roleIds: number[]): Promise<number> {
+    if (roleIds.length === 0) {
+      return 0;
+    }
+
+    return this.UserRoleModel.destroy({ where: { roleId: roleIds }, transaction: this.transactionHandle });
+  }
+
+  async findActiveUserRoles(userId: number, tenantId: number, now: Date): Promise<Role[]> {
+    const assignments = await this.UserRoleModel.findAll({
+      where: { [Op.and]: [{ userId }, activeUserRoleWhere(now)] },
+      transaction: this.transactionHandle,
+    });
+
+    if (assignments.length === 0) {
+      return [];
+    }
+
+    const roles = await this.RoleModel.findAll({
+      where: {
+        id: assignments.map(assignment => assignment.get().roleId),
+        [this.tenantField]: tenantId,
+      },
+      transaction: this.transactionHandle,
+    });
+
+    return roles.map(role => this.toRole(role));
+  }
+
+  async findUserWithRoles(userId: number, tenantId: number, now: Date): Promise<User | null> {
+    const UserModel = this.sequelize.models.User;
+
+    if (!UserModel) {
+      throw new Error('User model not found. Make sure to define User model in your Sequelize instance.');
+    }
+
+    const user = await UserModel.findByPk(userId, {
+      include: [
+        {
+          model: this.RoleModel,
+          as: 'roles',
+          through: { attributes: [], where: activeUserRoleWhere(now) },
+          where: { [this.tenantField]: tenantId },
+          required: false,
+        },
+      ],
+      transaction: this.transactionHandle,
+    });
+
+    return user ? (user.toJSON() as User) : null;
+  }
+
+  async findDirectPermissions(userId: number, tenantId: number): Promise<string[]> {
+    const grants = await this.UserPermissionModel.findAll({
+      where: { userId, [this.tenantField]: tenantId },
+      order: [['permission', 'ASC']],
+      transaction: this.transactionHandle,
+    });
+
+    return grants.map(grant => grant.get().permission);
+  }
+
+  async findTenantDirectPermissions(tenantId: number): Promise<DirectPermission[]> {
+    const grants = await this.UserPermissionModel.findAll({
+      where: { [this.tenantField]: tenantId },
+      order: [['userId', 'ASC'], ['permission', 'ASC']],
+      transaction: this.transactionHandle,
+    });
+
+    return grants.map(grant => {
+      const { userId, permission } = grant.get();
+      return { userId, permission };
+    });
+  }
+
+  async createDirectPermission(userId: number, permission: string, tenantId: number): Promise<void> {
+    await this.UserPermissionModel.create(
+      { userId, permission, [this.tenantField]: tenantId },
+      { transaction: this.transactionHandle }
+    );
+  }
+
+  async deleteDirectPermission(userId: number, permission: string, tenantId: number): Promise<boolean> {
+    const deleted = await this.UserPermissionModel.destroy({
+      where: { userId, permission, [this.tenantField]: tenantId },
+      transaction: this.transactionHandle,
+    });
+    return deleted > 0;
+  }
+
+  async deleteTenantDirectPermissions(tenantId: number): Promise<number> {
+    return this.UserPermissionModel.destroy({
+      where: { [this.tenantField]: tenantId },
+      transaction: this.transactionHandle,
+    });
+  }
+
+  async findMembership(userId: number, tenantId: number): Promise<TenantMembership | null> {
+    const membership = await this.TenantMembershipModel.findOne({
+      where: { userId, [this.tenantField]: tenantId },
+      transaction: this.transactionHandle,
+    });
+    return membership ? this.toMembership(membership) : null;
+  }
+
+  async findUserMemberships(userId: number): Promise<TenantMembership[]> {
+    const memberships = await this.TenantMembershipModel.findAll({
+      where: { userId },
+      order: [[this.tenantField, 'ASC']],
+      transaction: this.transactionHandle,
+    });
+    return memberships.map(membership => this.toMembership(membership));
+  }
+
+  async findTenantMemberships(tenantId: number): Promise<TenantMembership[]> {
+    const memberships = await this.TenantMembershipModel.findAll({
+      where: { [this.tenantField]: tenantId },
+      order: [['userId', 'ASC']],
+      transaction: this.transactionHandle,
+    });
+    return memberships.map(membership => this.toMembership(membership));
+  }
+
+  async saveMembership(membership: TenantMembership): Promise<void> {
+    const { userId, tenantId, userType } = membership;
+    const [updated] = await this.TenantMembershipModel.update(
+      { userType },
+      { where: { userId, [this.tenantField]: tenantId }, transaction: this.transactionHandle }
+    );
+
+    if (updated === 0) {
+      await this.TenantMembershipModel.create(
+        { userId, userType, [this.tenantField]: tenantId },
+        { transaction: this.transactionHandle }
+      );
+    }
+  }
+
+  async deleteMembership(userId: number, tenantId: number): Promise<boolean> {
+    const deleted = await this.TenantMembershipModel.destroy({
+      where: { userId, [this.tenantField]: tenantId },
+      transaction: this.transactionHandle,
+    });
+    return deleted > 0;
+  }
+
+  async deleteTenantMemberships(tenantId: number): Promise<number> {
+    return this.TenantMembershipModel.destroy({
+      where: { [this.tenantField]: tenantId },
+      transaction: this.transactionHandle,
+    });
+  }
+
+  async createAuditEntry(entry: AuditEntryData, tenantId: number): Promise<void> {
+    await this.AuditLogModel.create(
+      { ...entry, [this.tenantField]: tenantId },
+      { transaction: this.transactionHandle }
+    );
+  }
+
+  async findAuditEntries(
+    tenantId: number,
+    filter: AuditEntryFilter,
+    limit: number,
+    offset: number
+  ): Promise<StoragePage<AuditLogEntry>> {
+    const where: WhereAttributeHash<AuditLogAttributes> = { [this.tenantField]: tenantId };
+
+    if (filter.action) where.action = filter.action;
+    if (filter.actorId !== undefined) where.actorId = filter.actorId;
+    if (filter.roleId !== undefined) where.roleId = filter.roleId;
+    if (filter.userId !== undefined) where.userId = filter.userId;
+
+    const { rows, count } = await this.AuditLogModel.findAndCountAll({
+      where,
+      order: [['createdAt', 'DESC'], ['id', 'DESC']],
+      limit,
+      offset,
+      transaction: this.transactionHandle,
+    });
+
+    return { rows: rows.map(row => row.toJSON() as AuditLogEntry), total: count };
+  }
+
+  async findWebhookEndpoints(tenantId: number): Promise<WebhookEndpointRecord[]> {
+    const endpoints = await this.WebhookEndpointModel.findAll({
+      where: { [this.tenantField]: tenantId },
+      order: [['id', 'ASC']],
+      transaction: this.transactionHandle,
+    });
+    return endpoints.map(endpoint => this.toEndpoint(endpoint));
+  }
+
+  async findWebhookEndpoint(endpointId: number, tenantId?: number): Promise<WebhookEndpointRecord | null> {
+    const where: WhereOptions<WebhookEndpointAttributes> = tenantId === undefined
+      ? { id: endpointId }
+      : { id: endpointId, [this.tenantField]: tenantId };
+
+    const endpoint = await this.WebhookEndpointModel.findOne({ where, transaction: this.transactionHandle });
+    return endpoint ? this.toEndpoint(endpoint) : null;
+  }
+
+  async createWebhookEndpoint(data: WebhookEndpointData, tenantId: number): Promise<WebhookEndpointRecord> {
+    const endpoint = await this.WebhookEndpointModel.create(
+      { ...data, [this.tenantField]: tenantId },
+      { transaction: this.transactionHandle }
+    );
+    return this.toEndpoint(endpoint);
+  }
+
+  async updateWebhookEndpoint(endpointId: number, changes: Partial<WebhookEndpointData>): Promise<WebhookEndpointRecord> {
+    const endpoint = await this.WebhookEndpointModel.findByPk(endpointId, { transaction: this.transactionHandle });
+
+    if (!endpoint) {
+      throw new Error('Webhook not found');
+    }
+
+    await endpoint.update(changes, { transaction: this.transactionHandle });
+    return this.toEndpoint(endpoint);
+  }
+
+  async deleteWebhookEndpoint(endpointId: number): Promise<void> {
+    const deliveries = await this.WebhookDeliveryModel.findAll({
+      where: { endpointId },
+      attributes: ['id'],
+      transaction: this.transactionHandle,
+    });
+
+    if (deliveries.length > 0) {
+      await this.WebhookAttemptModel.destroy({
+        where: { deliveryId: deliveries.map(delivery => delivery.get().id) },
+        transaction: this.transactionHandle,
+      });
+      await this.WebhookDeliveryModel.destroy({ where: { endpointId }, transaction: this.transactionHandle });
+    }
+
+    await this.WebhookEndpointModel.destroy({ where: { id: endpointId }, transaction: this.transactionHandle });
+  }
+
+  async findWebhookDelivery(deliveryId: number, tenantId: number): Promise<WebhookDelivery | null> {
+    const delivery = await this.WebhookDeliveryModel.findOne({
+      where: { id: deliveryId, [this.tenantField]: tenantId },
+      transaction: this.transactionHandle,
+    });
+    return delivery ? this.toDelivery(delivery) : null;
+  }
+
+  async findWebhookDeliveries(
+    tenantId: number,
+    filter: { endpointId?: number; status?: WebhookDelivery['status'] },
+    limit: number,
+    offset: number
+  ): Promise<StoragePage<WebhookDelivery>> {
+    const where: WhereAttributeHash<WebhookDeliveryAttributes> = { [this.tenantField]: tenantId };
+
+    if (filter.endpointId !== undefined) where.endpointId = filter.endpointId;
+    if (filter.status) where.status = filter.status;
+
+    const { rows, count } = await this.WebhookDeliveryModel.findAndCountAll({
+      where,
+      order: [['createdAt', 'DESC'], ['id', 'DESC']],
+      limit,
+      offset,
+      transaction: this.transactionHandle,
+    });
+
+    return { rows: rows.map(row => this.toDelivery(row)), total: count };
+  }
+
+  async findDueWebhookDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]> {
+    const deliveries = await this.WebhookDeliveryModel.findAll({
+      where: { status: 'pending', nextAttemptAt: { [Op.lte]: now } },
+      order: [['nextAttemptAt', 'ASC']],
+      limit,
+      transaction: this.transactionHandle,
+    });
+    return deliveries.map(delivery => this.toDelivery(delivery));
+  }
+
+  async createWebhookDeliveries(deliveries: WebhookDeliveryData[], tenantId: number): Promise<void> {
+    await this.WebhookDeliveryModel.bulkCreate(
+      deliveries.map(delivery => ({ ...delivery, [this.tenantField]: tenantId })),
+      { transaction: this.transactionHandle }
+    );
+  }
+
+  async updateWebhookDelivery(deliveryId: number, changes: WebhookDeliveryChanges): Promise<WebhookDelivery> {
+    const delivery = await this.WebhookDeliveryModel.findByPk(deliveryId, { transaction: this.transactionHandle });
+
+    if (!delivery) {
+      throw new Error('Delivery not found');
+    }
+
+    await delivery.update(changes, { transaction: this.transactionHandle });
+    return this.toDelivery(delivery);
+  }
+
+  async claimWebhookDelivery(deliveryId: number, expectedNextAttemptAt: Date, nextAttemptAt: Date): Promise<boolean> {
+    const [claimed] = await this.WebhookDeliveryModel.update(
+      { nextAttemptAt },
+      {
+        where: { id: deliveryId, status: 'pending', nextAttemptAt: expectedNextAttemptAt },
+        transaction: this.transactionHandle,
+      }
+    );
+    return claimed > 0;
+  }
+
+  async findWebhookAttempts(deliveryId: number): Promise<WebhookAttempt[]> {
+    const attempts = await this.WebhookAttemptModel.findAll({
+      where: { deliveryId },
+      order: [['attempt', 'ASC']],
+      transaction: this.transactionHandle,
+    });
+    return attempts.map(attempt => attempt.toJSON() as WebhookAttempt);
+  }
+
+  async createWebhookAttempt(attempt: WebhookAttemptData): Promise<void> {
+    await this.WebhookAttemptModel.create(attempt, { transaction: this.transactionHandle });
+  }
+
+  async transaction<T>(work: (storage: StorageAdapter) => Promise<T>): Promise<T> {
+    if (this.transactionHandle) {
+      return work(this);
+    }
+
+    return this.sequelize.transaction(transaction =>
+      work(new SequelizeStorageAdapter(this.sequelize, this.models, this.config, transaction))
+    );
+  }
+
+  private findRoleInstance(roleId: number, tenantId: number): Promise<InstanceType<SequelizeStorageModels['Role']> | null> {
+    return this.RoleModel.findOne({
+      where: { id: roleId, [this.tenantField]: tenantId },
+      transaction: this.transactionHandle,
+    });
+  }
+
+  private tenantOf(instance: Model): number {
+    return instance.get(this.tenantField) as number;
+  }
+
+  private toRole(role: Model<RoleAttributes, RoleCreationAttributes>): Role {
+    return role.toJSON() as Role;
+  }
+
+  private toMembership(membership: Model<TenantMembershipAttributes, TenantMembershipCreationAttributes>): TenantMembership {
+    const { userId, userType } = membership.get();
+    return { userId, tenantId: this.tenantOf(membership), userType };
+  }
+
+  private toEndpoint(endpoint: Model<WebhookEndpointAttributes, WebhookEndpointCreationAttributes>): WebhookEndpointRecord {
+    const { id, url, events, description, active, secret, createdAt, updatedAt } = endpoint.get();
+    return {
+      id,
+      tenantId: this.tenantOf(endpoint),
+      url,
+      events,
+      description: description ?? null,
+      active,
+      secret,
+      createdAt: createdAt!,
+      updatedAt: updatedAt!,
+    };
+  }
+
+  private toDelivery(delivery: Model<WebhookDeliveryAttributes, WebhookDeliveryCreationAttributes>): WebhookDelivery {
+    const row = delivery.get();
+    return {
+      id: row.id,
+      endpointId: row.endpointId,
+      tenantId: this.tenantOf(delivery),
+      event: row.event,
+      // Some MySQL drivers hand JSON columns back as strings
+      payload: typeof row.payload === 'string' ? JSON.parse(row.payload) : row.payload,
+      status: row.status,
+      attempts: row.attempts,
+      nextAttemptAt: row.nextAttemptAt ?? null,
+      lastError: row.lastError ?? null,
+      deliveredAt: row.deliveredAt ?? null,
+      createdAt: row.createdAt!,
+    };
+  }
+
+  private toAssignment(assignment: Model<UserRoleAttributes, UserRoleCreationAttributes>): RoleAssignment {
+    const { userId, roleId, validFrom, expiresAt } = assignment.get();
+    return { userId, roleId, validFrom: validFrom || null, expiresAt: expiresAt || null };
+  }
+}
@@ -1,19 +1,107 @@
-export interface Permission {
+import type { CacheStore } from './permission-cache';
+import type { StorageAdapter } from './storage/adapter';
+
+export interface Permission<N extends string = string> {
   name: string;
   description: string;
-  shortName: string;
+  shortName: N;
 }
 
 export interface PermissionModule {
   [key: string]: Permission[];
 }
 
-export interface RBACConfig {
-  permissions: Record<string, Permission[]>;
+// Readonly so that configs declared `as const` keep their literal shortNames
+export type PermissionMap<N extends string = string> = Record<string, readonly Permission<N>[]>;
+
+// Union of the shortNames in a permission map, e.g. PermissionName<typeof PERMISSIONS>
+export type PermissionName<P extends PermissionMap> = P[keyof P][number]['shortName'];
+
+export interface PermissionContext {
+  tenantId?: number;
+  [key: string]: any;
+}
+
+export interface PermissionConditionArgs {
+  user: User;
+  permission: string;
+  resource?: any;
+  context: PermissionContext;
+}
+
+export type PermissionCondition = (args: PermissionConditionArgs) => boolean | Promise<boolean>;
+
+export type UserTypeScope =
+  | 'global'  // Bypasses permission checks in every tenant
+  | 'tenant'  // Bypasses permission checks within the user's own tenants
+  | 'none';   // Permissions come from roles, direct grants and `permissions` below
+
+export interface UserTypeDefinition {
+  scope: UserTypeScope;
+  permissions?: string[]; // Implicit grants every user of this type holds
+  description?: string;
+}
+
+export interface PermissionCacheOptions {
+  store?: CacheStore;     // Defaults to an in-memory LRU
+  ttlSeconds?: number;    // At least 1, defaults to 60
+  maxEntries?: number;    // In-memory store only, defaults to 10000
+  prefix?: string;        // Key prefix, defaults to 'rbac'
+}
+
+export interface PermissionClaimOptions {
+  secret: string;         // HMAC-SHA256 key shared with verifying services
+  ttlSeconds?: number;    // Token lifetime, defaults to 300
+}
+
+export interface PermissionClaim {
+  v: number;              // Claim format version
+  cfg: string;            // Hash of the permission config the bitset was built against
+  sub: number;            // User id
+  tid: number;            // Tenant id
+  ut: UserType;           // User type that applies in the tenant
+  em?: string;            // User email
+  perms: string;          // Base64url bitset over getAllPermissionShortNames()
+  iat?: number;
+  exp?: number;
+}
+
+export type RBACTable =
+  | 'roles'
+  | 'userRoles'
+  | 'userPermissions'
+  | 'auditLogs'
+  | 'tenantMemberships'
+  | 'webhookEndpoints'
+  | 'webhookDeliveries'
+  | 'webhookAttempts'
+  | 'migrations';
+
+export interface RBACSchemaConfig {
+  tables?: Partial<Record<RBACTable, string>>; // Override any RBAC table name
+  tenantTable?: string | null;  // Referenced by tenant columns; null for no foreign key
+  userTable?: string | null;    // Referenced by user columns; null for no foreign key
+  columns?: {
+    tenant?: string;      // Column backing tenant.field, defaults to its snake_case form
+    userId?: string;      // Defaults to user_id
+    roleId?: string;      // Defaults to role_id
+  };
+}
+
+// Generic over the permission names, which are inferred from `permissions`
+export interface RBACConfig<N extends string = string> {
+  permissions: PermissionMap<N>;
+  userTypes?: Record<string, UserTypeDefinition>; // Defaults to superadmin/admin/user
+  conditions?: Record<string, PermissionCondition>; // Referenced by grants as 'permission@condition'
+  cache?: PermissionCacheOptions; // Caches getUserWithPermissions results when set
+  roleTemplates?: RoleTemplate[]; // Starter roles seeded into tenants by instantiateTemplates
+  webhooks?: WebhookOptions; // Retry and batching settings for webhook delivery
+  storage?: StorageAdapter; // Replaces the Sequelize-backed persistence when set
   tenant: {
     field: string;        // 'shopId', 'organizationId', etc.
     model: string;        // 'Shop', 'Organization', etc.
   };
+  schema?: RBACSchemaConfig; // Table and column names, for adopting an existing schema
   database?: {
     dialect: 'postgres' | 'mysql' | 'sqlite';
     host?: string;
@@ -29,10 +117,25 @@ export interface User {
   email: string;
   firstName?: string;
   lastName?: string;
-  userType: 'superadmin' | 'admin' | 'user';
+  userType: UserType;
   [key: string]: any; // For dynamic tenant field
   roles?: Role[];
   permissions?: string[];
+  memberships?: TenantMembership[];
+  activeTenant?: ActiveTenantContext;
+}
+
+export type TenantUserType = UserType; // Any configured type without global scope
+
+export interface TenantMembership {
+  userId: number;
+  tenantId: number;
+  userType: TenantUserType;
+}
+
+export interface ActiveTenantContext {
+  tenantId: number;
+  userType: UserType;
 }
 
 export interface Role {
@@ -40,6 +143,8 @@ export interface Role {
   name: string;
   description?: string;
   permissions: string[];
+  parentRoleIds?: number[]; // Roles this role inherits permissions from
+  templateKey?: string | null; // Template this role was created from, kept in sync by syncTemplate
   [key: string]: any; // For dynamic tenant field
 }
 
@@ -47,29 +152,337 @@ export interface CreateRoleRequest {
   name: string;
   description?: string;
   permissions: string[];
+  parentRoleIds?: number[];
+  templateKey?: string;
+}
+
+export interface RoleTemplate {
+  key: string;            // Stable identifier linking derived roles to the template
+  name: string;
+  description?: string;
+  permissions: string[];
+}
+
+export interface RoleTemplateDiff {
+  roleId: number;
+  tenantId: number;
+  templateKey: string;
+  addedPermissions: string[];
+  removedPermissions: string[];
+  description?: { from: string | null; to: string | null }; // Set when the description changes
 }
 
 export interface UpdateRoleRequest {
   name?: string;
   description?: string;
   permissions?: string[];
+  parentRoleIds?: number[];
 }
 
 export interface AssignRoleRequest {
   userId: number;
   roleId: number;
+  validFrom?: Date;
+  expiresAt?: Date;
+}
+
+export interface RoleAssignmentOptions {
+  validFrom?: Date;
+  expiresAt?: Date;
+}
+
+export type BulkRoleStatus = 'assigned' | 'removed' | 'unchanged' | 'failed';
+
+export interface BulkRoleResult {
+  userId: number;
+  roleId: number;
+  status: BulkRoleStatus;
+  error?: string;         // Set when status is 'failed'
 }
 
-export type UserType = 'superadmin' | 'admin' | 'user';
+export type UserType = 'superadmin' | 'admin' | 'user' | (string & {});
 
 export interface PermissionValidationResult {
   valid: string[];
   invalid: string[];
 }
 
+export interface ConfigValidationIssue {
+  path: string;           // e.g. 'permissions.orders[1].shortName'
+  message: string;
+}
+
+export interface ConfigValidationResult {
+  valid: boolean;
+  issues: ConfigValidationIssue[];
+}
+
+export type PermissionDecisionReason =
+  | 'no-user'
+  | 'global-bypass'
+  | 'tenant-bypass'
+  | 'role-grant'
+  | 'user-type-grant'
+  | 'explicit-deny'
+  | 'missing';
+
+export interface PermissionDecision {
+  timestamp: string;
+  userId?: number;
+  userType?: string;
+  tenantId?: number;
+  permission: string;
+  granted: boolean;
+  reason: PermissionDecisionReason;
+  matchedGrant?: string;          // The grant that allowed or denied the permission
+  metadata?: Record<string, any>; // Caller supplied, e.g. request method and path
+}
+
+export interface GrantSource {
+  grant: string;
+  roleId?: number;   // Absent for grants not carried by one of the user's roles
+  roleName?: string; // (inherited from a parent role or granted directly)
+  userType?: string; // Set for implicit grants of a user type
+}
+
+export interface PermissionExplanation {
+  userId?: number;
+  userType?: string;
+  permission: string;
+  tenantId?: number;
+  userTenantId?: number;
+  granted: boolean;
+  reason: PermissionDecisionReason;
+  knownPermission: boolean;     // False usually means a typo in the permission name
+  tenantMismatch: boolean;      // User's own tenant differs from the requested tenant
+  foreignTenantRoles: string[]; // Loaded roles that belong to another tenant
+  allowedBy: GrantSource[];
+  deniedBy: GrantSource[];
+  conditionalGrants: string[];  // Only honored by `can` with a resource
+  trace: string[];
+}
+
 export interface UserPermissionCheck {
   user: User;
   permission: string;
   tenantId?: number;
   hasAccess: boolean;
 }
+
+export type AuditAction =
+  | 'role.created'
+  | 'role.updated'
+  | 'role.deleted'
+  | 'assignment.added'
+  | 'assignment.removed'
+  | 'permission.granted'
+  | 'permission.revoked'
+  | 'membership.added'
+  | 'membership.removed'
+  | 'tenant.provisioned'
+  | 'tenant.removed';
+
+export interface TenantProvisionOptions {
+  templateKeys?: string[];       // Role templates to seed; all of them when omitted
+  adminUserId?: number;          // Made a member of the tenant with adminUserType
+  adminUserType?: TenantUserType; // Defaults to 'admin'
+  adminRoleTemplate?: string;    // Template key of a seeded role to assign to the admin
+}
+
+export interface TenantProvisionResult {
+  tenantId: number;
+  roles: Role[];                 // Roles created by this call
+  adminUserId?: number;
+}
+
+export interface TenantExport {
+  tenantId: number;
+  exportedAt: Date;
+  roles: Role[];
+  assignments: { userId: number; roleId: number; validFrom: Date | null; expiresAt: Date | null }[];
+  directPermissions: { userId: number; permission: string }[];
+  memberships: TenantMembership[];
+}
+
+export interface TenantTeardownResult {
+  tenantId: number;
+  roles: number;                 // Rows deleted from each table
+  assignments: number;
+  directPermissions: number;
+  memberships: number;
+  webhookEndpoints: number;
+}
+
+export interface TenantBundleRole {
+  name: string;           // Roles and their parents are matched by name on import
+  description: string | null;
+  permissions: string[];
+  parents: string[];
+  templateKey: string | null;
+}
+
+export interface TenantBundleAssignment {
+  userId: number;
+  role: string;
+  validFrom: string | null; // ISO timestamps
+  expiresAt: string | null;
+}
+
+export interface TenantBundle {
+  format: 'granular-rbac.tenant';
+  version: 1;
+  exportedAt: string;
+  permissions: string[];  // Permission catalog of the exporting config
+  roles: TenantBundleRole[];
+  assignments?: TenantBundleAssignment[];
+}
+
+export interface TenantExportOptions {
+  includeAssignments?: boolean; // User IDs rarely match across environments, so off by default
+}
+
+export type TenantImportMode = 'merge' | 'replace';
+
+export interface TenantImportOptions {
+  mode?: TenantImportMode;      // Defaults to 'merge'
+  dryRun?: boolean;
+  assignments?: boolean;        // Apply the bundle's assignments when present (default true)
+}
+
+export type TenantImportConflictType =
+  | 'differs'               // Merge keeps the tenant's version of the role
+  | 'invalid-permissions'
+  | 'missing-parent'
+  | 'cycle'
+  | 'in-use'                // Replace would delete a role that is still assigned
+  | 'missing-role';         // An assignment names a role that will not exist
+
+export interface TenantImportConflict {
+  role: string;
+  type: TenantImportConflictType;
+  message: string;
+  blocking: boolean;      // Blocking conflicts stop the whole import
+}
+
+export interface TenantImportReport {
+  mode: TenantImportMode;
+  dryRun: boolean;
+  applied: boolean;
+  roles: {
+    created: string[];
+    updated: string[];
+    deleted: string[];
+    unchanged: string[];
+  };
+  assignments: {
+    added: number;
+    removed: number;
+    unchanged: number;
+  };
+  unknownPermissions: string[]; // In the bundle's catalog but not in this config
+  conflicts: TenantImportConflict[];
+}
+
+export interface AuditLogEntry {
+  id: number;
+  actorId?: number | null;
+  action: AuditAction;
+  roleId?: number | null;
+  userId?: number | null;
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+  permissionsAdded: string[];
+  permissionsRemoved: string[];
+  createdAt: Date;
+  [key: string]: any; // For dynamic tenant field
+}
+
+export interface AuditLogQuery {
+  action?: AuditAction;
+  actorId?: number;
+  roleId?: number;
+  userId?: number;
+  limit?: number;
+  offset?: number;
+}
+
+export interface AuditLogPage {
+  entries: AuditLogEntry[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+export interface WebhookOptions {
+  maxAttempts?: number;   // Defaults to 8, after which the delivery is marked failed
+  baseDelayMs?: number;   // First retry delay, doubled on each attempt (default 10s)
+  maxDelayMs?: number;    // Upper bound on the retry delay (default 1h)
+  timeoutMs?: number;     // Per-request timeout (default 10s)
+  batchSize?: number;     // Deliveries attempted per processOutbox call (default 50)
+  allowedHosts?: string[]; // Only these hosts may receive webhooks; '.example.com' matches subdomains
+  blockedHosts?: string[]; // Hosts rejected on top of loopback, private, link-local and metadata addresses
+}
+
+export interface WebhookEndpoint {
+  id: number;
+  tenantId: number;
+  url: string;
+  events: string[];       // Event names, or '*' for every webhook event
+  description?: string | null;
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateWebhookRequest {
+  url: string;
+  events: string[];
+  description?: string;
+}
+
+export interface UpdateWebhookRequest {
+  url?: string;
+  events?: string[];
+  description?: string;
+  active?: boolean;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export interface WebhookDelivery {
+  id: number;
+  endpointId: number;
+  tenantId: number;
+  event: string;
+  payload: Record<string, any>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: Date | null;
+  lastError: string | null;
+  deliveredAt: Date | null;
+  createdAt: Date;
+}
+
+export interface WebhookAttempt {
+  id: number;
+  deliveryId: number;
+  attempt: number;
+  responseStatus: number | null;
+  error: string | null;
+  durationMs: number;
+  createdAt: Date;
+}
+
+export interface WebhookDeliveryQuery {
+  endpointId?: number;
+  status?: WebhookDeliveryStatus;
+  limit?: number;         // Defaults to 50, capped at 200
+  offset?: number;
+}
+
+export interface WebhookDeliveryPage {
+  deliveries: WebhookDelivery[];
+  total: number;
+  limit: number;
+  offset: number;
+}
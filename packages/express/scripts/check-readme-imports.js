@@ -0,0 +1,27 @@
+// Fails the build when a name the README imports from this package is not
+// exported by the compiled entry point
+const fs = require('fs');
+const path = require('path');
+
+const root = path.join(__dirname, '..');
+const { name, main } = require(path.join(root, 'package.json'));
+const readme = fs.readFileSync(path.join(root, '..', '..', 'README.md'), 'utf8');
+const exported = require(path.join(root, main));
+
+const pattern = new RegExp(`import\\s*{([^}]*)}\\s*from\\s*'${name}'`, 'g');
+const missing = [];
+
+for (const match of readme.matchAll(pattern)) {
+  match[1]
+    .split(',')
+    .map(entry => entry.trim().split(/\s+as\s+/)[0])
+    .filter(entry => entry && !entry.startsWith('type '))
+    .forEach(entry => {
+      if (!(entry in exported)) missing.push(entry);
+    });
+}
+
+if (missing.length > 0) {
+  console.error(`README imports not exported by ${main}: ${missing.join(', ')}`);
+  process.exit(1);
+}
@@ -0,0 +1,88 @@
+import { Response } from 'express';
+import { MemoryDecisionLogger, PermissionEngine, User } from 'granular-rbac-core';
+import { AuthRequest, createPermissionMiddleware } from '../middleware/auth';
+
+const engine = new PermissionEngine({
+  permissions: {
+    orders: [
+      { name: 'View Orders', description: 'View orders', shortName: 'orders.view' },
+      { name: 'Edit Orders', description: 'Edit orders', shortName: 'orders.edit' },
+    ],
+  },
+  tenant: { field: 'shopId', model: 'Shop' },
+  conditions: {
+    own: ({ user, resource }) => resource.createdBy === user.id,
+    approved: ({ resource }) => resource.approval.granted,
+  },
+});
+const middleware = createPermissionMiddleware(engine);
+
+function user(permissions: string[]): User {
+  return { id: 1, email: 'user@example.com', userType: 'user', shopId: 1, permissions };
+}
+
+async function run(handler: ReturnType<typeof middleware.requirePermission>, req: Partial<AuthRequest>) {
+  const res = { status: jest.fn(), json: jest.fn() };
+  res.status.mockReturnValue(res);
+  const next = jest.fn();
+
+  await handler({ method: 'PUT', originalUrl: '/orders/1', tenantId: 1, ...req } as AuthRequest, res as unknown as Response, next);
+
+  return { status: res.status.mock.calls[0]?.[0], next };
+}
+
+describe('requirePermission', () => {
+  it('checks grants without a resource loader', async () => {
+    const handler = middleware.requirePermission('orders.edit');
+
+    expect((await run(handler, { user: user(['orders.edit']) })).next).toHaveBeenCalledWith();
+    expect((await run(handler, { user: user(['orders.view']) })).status).toBe(403);
+    expect((await run(handler, {})).status).toBe(401);
+  });
+
+  describe('with a resource loader', () => {
+    const orders: Record<string, { createdBy: number }> = { '1': { createdBy: 1 }, '2': { createdBy: 2 } };
+    const handler = middleware.requirePermission('orders.edit', {
+      loadResource: req => orders[req.params.id],
+    });
+
+    it('evaluates conditional grants against the loaded resource', async () => {
+      const owner = user(['orders.edit@own']);
+
+      expect((await run(handler, { user: owner, params: { id: '1' } })).next).toHaveBeenCalledWith();
+      expect((await run(handler, { user: owner, params: { id: '2' } })).status).toBe(403);
+    });
+
+    it('reveals missing resources only to users with unconditional access', async () => {
+      expect((await run(handler, { user: user(['orders.edit']), params: { id: '9' } })).status).toBe(404);
+      expect((await run(handler, { user: user(['orders.edit@own']), params: { id: '9' } })).status).toBe(403);
+      expect((await run(handler, { user: user([]), params: { id: '9' } })).status).toBe(403);
+    });
+
+    it('logs resource checks with the request', async () => {
+      const logger = new MemoryDecisionLogger();
+      engine.setDecisionLogger(logger);
+
+      await run(handler, { user: user(['orders.edit@own']), params: { id: '2' } });
+      engine.setDecisionLogger(null);
+
+      expect(logger.getDecisions()).toEqual([expect.objectContaining({
+        permission: 'orders.edit',
+        granted: false,
+        tenantId: 1,
+        metadata: { method: 'PUT', path: '/orders/1' },
+      })]);
+    });
+
+    it('passes loader and condition errors to next', async () => {
+      const failure = new Error('database down');
+      const failing = middleware.requirePermission('orders.edit', {
+        loadResource: () => Promise.reject(failure),
+      });
+
+      expect((await run(failing, { user: user(['orders.edit']) })).next).toHaveBeenCalledWith(failure);
+      expect((await run(handler, { user: user(['orders.edit@approved']), params: { id: '1' } })).next)
+        .toHaveBeenCalledWith(expect.any(TypeError));
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { Response } from 'express';
+import { MemoryStorageAdapter, RBAC, RBACConfig } from 'granular-rbac-core';
+import { AuthRequest } from '../middleware/auth';
+import { loadRBACUser, LoadRBACUserOptions } from '../middleware/load-user';
+
+const config: RBACConfig = {
+  permissions: {
+    orders: [{ name: 'View Orders', description: 'View orders', shortName: 'orders.view' }],
+  },
+  tenant: { field: 'shopId', model: 'Shop' },
+};
+const admin = { id: 100, email: 'admin@example.com', userType: 'admin' };
+
+function request(userId?: string, overrides: Partial<AuthRequest> = {}): Partial<AuthRequest> {
+  return { tenantId: 1, headers: userId ? { 'x-user-id': userId } : {}, ...overrides };
+}
+
+async function run(middleware: ReturnType<typeof loadRBACUser>, req: Partial<AuthRequest>) {
+  const res = { status: jest.fn(), json: jest.fn() };
+  res.status.mockReturnValue(res);
+  const next = jest.fn();
+
+  await middleware(req as AuthRequest, res as unknown as Response, next);
+
+  return { status: res.status.mock.calls[0]?.[0], body: res.json.mock.calls[0]?.[0], next };
+}
+
+describe('loadRBACUser', () => {
+  let rbac: RBAC;
+
+  beforeEach(async () => {
+    const storage = new MemoryStorageAdapter(config);
+    storage.addUser({ id: 1, email: 'ann@example.com', userType: 'user' });
+    rbac = new RBAC({ ...config, storage });
+    await rbac.grantPermissionToUser(1, 'orders.view', 1, admin);
+  });
+
+  function middleware(options: Partial<LoadRBACUserOptions> = {}) {
+    return loadRBACUser(rbac, { resolveUserId: req => req.headers?.['x-user-id'] as string, ...options });
+  }
+
+  it('attaches the user with permissions for the tenant', async () => {
+    const req = request('1');
+
+    expect((await run(middleware(), req)).next).toHaveBeenCalledWith();
+    expect(req.user).toMatchObject({ id: 1, permissions: ['orders.view'] });
+  });
+
+  it('passes anonymous requests through unless identity is required', async () => {
+    expect((await run(middleware(), request())).next).toHaveBeenCalledWith();
+    expect(await run(middleware({ required: true }), request())).toMatchObject({ status: 401, body: { code: 'AUTH_REQUIRED' } });
+  });
+
+  it('rejects unusable identities and missing tenants', async () => {
+    expect(await run(middleware(), request('ann'))).toMatchObject({ status: 401, body: { code: 'INVALID_IDENTITY' } });
+    expect(await run(middleware(), request('9'))).toMatchObject({ status: 401, body: { code: 'USER_NOT_FOUND' } });
+    expect(await run(middleware(), request('1', { tenantId: undefined })))
+      .toMatchObject({ status: 400, body: { code: 'TENANT_REQUIRED' } });
+  });
+
+  it('loads the user once per request when memoizing', async () => {
+    const load = jest.spyOn(rbac, 'getUserWithPermissions');
+    const req = request('1');
+
+    await run(middleware(), req);
+    await run(middleware(), req);
+    await run(middleware({ memoize: false }), req);
+
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('passes resolver and lookup errors to next', async () => {
+    const failure = new Error('session store down');
+
+    expect((await run(middleware({ resolveUserId: () => Promise.reject(failure) }), request())).next).toHaveBeenCalledWith(failure);
+
+    jest.spyOn(rbac, 'getUserWithPermissions').mockRejectedValue(failure);
+    expect((await run(middleware(), request('1'))).next).toHaveBeenCalledWith(failure);
+  });
+});
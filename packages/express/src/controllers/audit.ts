@@ -0,0 +1,50 @@
+import { Response } from 'express';
+import { RBAC, AuditAction } from 'granular-rbac-core';
+import { AuthRequest } from '../middleware/auth';
+
+export function createAuditController(rbac: RBAC) {
+  /**
+   * Get a page of audit log entries for a tenant
+   */
+  const getAuditLog = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { tenantId } = req;
+      const { action, actorId, roleId, userId, limit, offset } = req.query;
+
+      if (!tenantId) {
+        res.status(400).json({ error: 'Tenant ID is required' });
+        return;
+      }
+
+      const toNumber = (value: unknown) =>
+        value === undefined ? undefined : parseInt(value as string, 10);
+
+      const query = {
+        action: action as AuditAction | undefined,
+        actorId: toNumber(actorId),
+        roleId: toNumber(roleId),
+        userId: toNumber(userId),
+        limit: toNumber(limit),
+        offset: toNumber(offset),
+      };
+
+      if (Object.values(query).some(value => typeof value === 'number' && isNaN(value))) {
+        res.status(400).json({ error: 'Invalid pagination or filter parameters' });
+        return;
+      }
+
+      const page = await rbac.getAuditLog(tenantId, query);
+
+      res.status(200).json(page);
+    } catch (error: any) {
+      console.error('Error fetching audit log:', error);
+      res.status(500).json({ 
+        error: error.message || 'Internal server error' 
+      });
+    }
+  };
+
+  return {
+    getAuditLog
+  };
+}
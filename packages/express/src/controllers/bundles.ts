@@ -0,0 +1,78 @@
+import { Response } from 'express';
+import { RBAC } from 'granular-rbac-core';
+import { AuthRequest } from '../middleware/auth';
+
+export function createBundleController(rbac: RBAC) {
+  /**
+   * Export the tenant's roles, and optionally assignments, as a JSON bundle
+   */
+  const exportTenant = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { tenantId } = req;
+
+      if (!tenantId) {
+        res.status(400).json({ error: 'Tenant ID is required' });
+        return;
+      }
+
+      const bundle = await rbac.exportTenant(tenantId, {
+        includeAssignments: req.query.assignments === 'true',
+      });
+
+      res.status(200).json(bundle);
+    } catch (error: any) {
+      console.error('Error exporting tenant:', error);
+      res.status(500).json({
+        error: error.message || 'Internal server error'
+      });
+    }
+  };
+
+  /**
+   * Import a bundle into the tenant, returning the import report
+   */
+  const importTenant = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { bundle, mode, dryRun, assignments } = req.body;
+      const { user, tenantId } = req;
+
+      if (!user) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+
+      if (!tenantId) {
+        res.status(400).json({ error: 'Tenant ID is required' });
+        return;
+      }
+
+      if (!bundle || typeof bundle !== 'object') {
+        res.status(400).json({ error: 'bundle is required' });
+        return;
+      }
+
+      if (mode !== undefined && mode !== 'merge' && mode !== 'replace') {
+        res.status(400).json({ error: 'mode must be merge or replace' });
+        return;
+      }
+
+      const report = await rbac.importTenant(tenantId, bundle, user, {
+        mode,
+        dryRun: dryRun === true,
+        assignments: assignments !== false,
+      });
+
+      res.status(200).json(report);
+    } catch (error: any) {
+      console.error('Error importing tenant:', error);
+      res.status(500).json({
+        error: error.message || 'Internal server error'
+      });
+    }
+  };
+
+  return {
+    exportTenant,
+    importTenant
+  };
+}
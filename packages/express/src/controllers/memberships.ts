@@ -0,0 +1,110 @@
+import { Response } from 'express';
+import { RBAC } from 'granular-rbac-core';
+import { AuthRequest } from '../middleware/auth';
+
+export function createMembershipController(rbac: RBAC) {
+  /**
+   * Get all members of a tenant
+   */
+  const getMembers = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { tenantId } = req;
+
+      if (!tenantId) {
+        res.status(400).json({ error: 'Tenant ID is required' });
+        return;
+      }
+
+      const members = await rbac.getTenantMembers(tenantId);
+
+      res.status(200).json({ members });
+    } catch (error: any) {
+      console.error('Error fetching tenant members:', error);
+      res.status(500).json({ 
+        error: error.message || 'Internal server error' 
+      });
+    }
+  };
+
+  /**
+   * Add a user to a tenant or change their user type there
+   */
+  const setMembership = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { userId } = req.params;
+      const { userType } = req.body;
+      const { user, tenantId } = req;
+
+      if (!user) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+
+      if (!tenantId) {
+        res.status(400).json({ error: 'Tenant ID is required' });
+        return;
+      }
+
+      const userIdNum = parseInt(userId, 10);
+      if (isNaN(userIdNum)) {
+        res.status(400).json({ error: 'Invalid user ID' });
+        return;
+      }
+
+      const membership = await rbac.setTenantMembership(userIdNum, tenantId, userType || 'user', user);
+
+      res.status(200).json({
+        message: 'Membership saved successfully',
+        membership
+      });
+    } catch (error: any) {
+      console.error('Error saving membership:', error);
+      res.status(500).json({ 
+        error: error.message || 'Internal server error' 
+      });
+    }
+  };
+
+  /**
+   * Remove a user from a tenant
+   */
+  const removeMembership = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { userId } = req.params;
+      const { user, tenantId } = req;
+
+      if (!user) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+
+      if (!tenantId) {
+        res.status(400).json({ error: 'Tenant ID is required' });
+        return;
+      }
+
+      const userIdNum = parseInt(userId, 10);
+      if (isNaN(userIdNum)) {
+        res.status(400).json({ error: 'Invalid user ID' });
+        return;
+      }
+
+      await rbac.removeTenantMembership(userIdNum, tenantId, user);
+
+      res.status(200).json({
+        message: 'Membership removed successfully'
+      });
+    } catch (error: any) {
+      console.error('Error removing membership:', error);
+      res.status(500).json({ 
+        error: error.message || 'Internal server error' 
+      });
+    }
+  };
+
+  return {
+    getMembers,
+    setMembership,
+    removeMembership
+  };
+}
@@ -2,13 +2,17 @@ import { Response } from 'express';
 import { RBAC } from 'granular-rbac-core';
 import { AuthRequest } from '../middleware/auth';
 
+function isIdList(value: unknown): value is number[] {
+  return Array.isArray(value) && value.length > 0 && value.every(Number.isInteger);
+}
+
 export function createRoleController(rbac: RBAC) {
   /**
    * Create a new role
    */
   const createRole = async (req: AuthRequest, res: Response): Promise<void> => {
     try {
-      const { name, description, permissions } = req.body;
+      const { name, description, permissions, parentRoleIds } = req.body;
       const { user, tenantId } = req;
 
       if (!user) {
@@ -28,7 +32,7 @@ export function createRoleController(rbac: RBAC) {
       }
 
       const role = await rbac.createRole(
-        { name, description, permissions: permissions || [] },
+        { name, description, permissions: permissions || [], parentRoleIds },
         tenantId,
         user
       );
@@ -65,6 +69,7 @@ export function createRoleController(rbac: RBAC) {
           name: role.name,
           description: role.description,
           permissions: role.permissions,
+          parentRoleIds: role.parentRoleIds,
           createdAt: role.createdAt,
           updatedAt: role.updatedAt
         }))
@@ -118,7 +123,7 @@ export function createRoleController(rbac: RBAC) {
   const updateRole = async (req: AuthRequest, res: Response): Promise<void> => {
     try {
       const { id } = req.params;
-      const { name, description, permissions } = req.body;
+      const { name, description, permissions, parentRoleIds } = req.body;
       const { user, tenantId } = req;
 
       if (!user) {
@@ -139,7 +144,7 @@ export function createRoleController(rbac: RBAC) {
 
       const role = await rbac.updateRole(
         roleId,
-        { name, description, permissions },
+        { name, description, permissions, parentRoleIds },
         tenantId,
         user
       );
@@ -198,7 +203,7 @@ export function createRoleController(rbac: RBAC) {
    */
   const assignRoleToUser = async (req: AuthRequest, res: Response): Promise<void> => {
     try {
-      const { userId, roleId } = req.body;
+      const { userId, roleId, validFrom, expiresAt } = req.body;
       const { user, tenantId } = req;
 
       if (!user) {
@@ -216,7 +221,18 @@ export function createRoleController(rbac: RBAC) {
         return;
       }
 
-      await rbac.assignRoleToUser(userId, roleId, tenantId, user);
+      const validFromDate = validFrom ? new Date(validFrom) : undefined;
+      const expiresAtDate = expiresAt ? new Date(expiresAt) : undefined;
+
+      if ((validFromDate && isNaN(validFromDate.getTime())) || (expiresAtDate && isNaN(expiresAtDate.getTime()))) {
+        res.status(400).json({ error: 'Invalid validFrom or expiresAt date' });
+        return;
+      }
+
+      await rbac.assignRoleToUser(userId, roleId, tenantId, user, {
+        validFrom: validFromDate,
+        expiresAt: expiresAtDate
+      });
 
       res.status(200).json({
         message: 'Role assigned to user successfully'
@@ -268,6 +284,137 @@ export function createRoleController(rbac: RBAC) {
     }
   };
 
+  /**
+   * Assign many roles to many users at once
+   */
+  const assignRolesBulk = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { userIds, roleIds, validFrom, expiresAt } = req.body;
+      const { user, tenantId } = req;
+
+      if (!user) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+
+      if (!tenantId) {
+        res.status(400).json({ error: 'Tenant ID is required' });
+        return;
+      }
+
+      if (!isIdList(userIds) || !isIdList(roleIds)) {
+        res.status(400).json({ error: 'userIds and roleIds must be arrays of IDs' });
+        return;
+      }
+
+      const validFromDate = validFrom ? new Date(validFrom) : undefined;
+      const expiresAtDate = expiresAt ? new Date(expiresAt) : undefined;
+
+      if ((validFromDate && isNaN(validFromDate.getTime())) || (expiresAtDate && isNaN(expiresAtDate.getTime()))) {
+        res.status(400).json({ error: 'Invalid validFrom or expiresAt date' });
+        return;
+      }
+
+      const results = await rbac.assignRolesBulk(userIds, roleIds, tenantId, user, {
+        validFrom: validFromDate,
+        expiresAt: expiresAtDate
+      });
+
+      res.status(200).json({ results });
+    } catch (error: any) {
+      console.error('Error assigning roles in bulk:', error);
+      res.status(500).json({ 
+        error: error.message || 'Internal server error' 
+      });
+    }
+  };
+
+  /**
+   * Remove many roles from many users at once
+   */
+  const removeRolesBulk = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { userIds, roleIds } = req.body;
+      const { user, tenantId } = req;
+
+      if (!user) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+
+      if (!tenantId) {
+        res.status(400).json({ error: 'Tenant ID is required' });
+        return;
+      }
+
+      if (!isIdList(userIds) || !isIdList(roleIds)) {
+        res.status(400).json({ error: 'userIds and roleIds must be arrays of IDs' });
+        return;
+      }
+
+      const results = await rbac.removeRolesBulk(userIds, roleIds, tenantId, user);
+
+      res.status(200).json({ results });
+    } catch (error: any) {
+      console.error('Error removing roles in bulk:', error);
+      res.status(500).json({ 
+        error: error.message || 'Internal server error' 
+      });
+    }
+  };
+
+  /**
+   * Replace all of a user's roles in the tenant
+   */
+  const replaceUserRoles = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { userId } = req.params;
+      const { roleIds, validFrom, expiresAt } = req.body;
+      const { user, tenantId } = req;
+
+      if (!user) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+
+      if (!tenantId) {
+        res.status(400).json({ error: 'Tenant ID is required' });
+        return;
+      }
+
+      const userIdNum = parseInt(userId, 10);
+      if (isNaN(userIdNum)) {
+        res.status(400).json({ error: 'Invalid user ID' });
+        return;
+      }
+
+      if (!Array.isArray(roleIds) || !roleIds.every(Number.isInteger)) {
+        res.status(400).json({ error: 'roleIds must be an array of IDs' });
+        return;
+      }
+
+      const validFromDate = validFrom ? new Date(validFrom) : undefined;
+      const expiresAtDate = expiresAt ? new Date(expiresAt) : undefined;
+
+      if ((validFromDate && isNaN(validFromDate.getTime())) || (expiresAtDate && isNaN(expiresAtDate.getTime()))) {
+        res.status(400).json({ error: 'Invalid validFrom or expiresAt date' });
+        return;
+      }
+
+      const results = await rbac.replaceUserRoles(userIdNum, roleIds, tenantId, user, {
+        validFrom: validFromDate,
+        expiresAt: expiresAtDate
+      });
+
+      res.status(200).json({ results });
+    } catch (error: any) {
+      console.error('Error replacing user roles:', error);
+      res.status(500).json({ 
+        error: error.message || 'Internal server error' 
+      });
+    }
+  };
+
   /**
    * Get user roles
    */
@@ -298,6 +445,153 @@ export function createRoleController(rbac: RBAC) {
     }
   };
 
+  /**
+   * Grant a permission directly to a user
+   */
+  const grantPermissionToUser = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { userId } = req.params;
+      const { permission } = req.body;
+      const { user, tenantId } = req;
+
+      if (!user) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+
+      if (!tenantId) {
+        res.status(400).json({ error: 'Tenant ID is required' });
+        return;
+      }
+
+      const userIdNum = parseInt(userId, 10);
+      if (isNaN(userIdNum)) {
+        res.status(400).json({ error: 'Invalid user ID' });
+        return;
+      }
+
+      if (!permission) {
+        res.status(400).json({ error: 'Permission is required' });
+        return;
+      }
+
+      await rbac.grantPermissionToUser(userIdNum, permission, tenantId, user);
+
+      res.status(200).json({
+        message: 'Permission granted to user successfully'
+      });
+    } catch (error: any) {
+      console.error('Error granting permission to user:', error);
+      res.status(500).json({ 
+        error: error.message || 'Internal server error' 
+      });
+    }
+  };
+
+  /**
+   * Revoke a directly granted permission from a user
+   */
+  const revokePermissionFromUser = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { userId, permission } = req.params;
+      const { user, tenantId } = req;
+
+      if (!user) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+
+      if (!tenantId) {
+        res.status(400).json({ error: 'Tenant ID is required' });
+        return;
+      }
+
+      const userIdNum = parseInt(userId, 10);
+      if (isNaN(userIdNum)) {
+        res.status(400).json({ error: 'Invalid user ID' });
+        return;
+      }
+
+      await rbac.revokePermissionFromUser(userIdNum, permission, tenantId, user);
+
+      res.status(200).json({
+        message: 'Permission revoked from user successfully'
+      });
+    } catch (error: any) {
+      console.error('Error revoking permission from user:', error);
+      res.status(500).json({ 
+        error: error.message || 'Internal server error' 
+      });
+    }
+  };
+
+  /**
+   * Get permissions granted directly to a user
+   */
+  const getUserDirectPermissions = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { userId } = req.params;
+      const { tenantId } = req;
+
+      if (!tenantId) {
+        res.status(400).json({ error: 'Tenant ID is required' });
+        return;
+      }
+
+      const userIdNum = parseInt(userId, 10);
+      if (isNaN(userIdNum)) {
+        res.status(400).json({ error: 'Invalid user ID' });
+        return;
+      }
+
+      const permissions = await rbac.getUserDirectPermissions(userIdNum, tenantId);
+
+      res.status(200).json({ permissions });
+    } catch (error: any) {
+      console.error('Error fetching user permissions:', error);
+      res.status(500).json({ 
+        error: error.message || 'Internal server error' 
+      });
+    }
+  };
+
+  /**
+   * Explain why a user does or does not hold a permission
+   */
+  const explainPermission = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { userId, permission } = req.params;
+      const { tenantId } = req;
+
+      if (!tenantId) {
+        res.status(400).json({ error: 'Tenant ID is required' });
+        return;
+      }
+
+      const userIdNum = parseInt(userId, 10);
+      if (isNaN(userIdNum)) {
+        res.status(400).json({ error: 'Invalid user ID' });
+        return;
+      }
+
+      const targetUser = await rbac.getUserWithPermissions(userIdNum, tenantId);
+
+      if (!targetUser) {
+        res.status(404).json({ error: 'User not found' });
+        return;
+      }
+
+      const explanation = rbac.explain(targetUser, permission, tenantId);
+
+      res.status(200).json({ explanation });
+    } catch (error: any) {
+      console.error('Error explaining permission:', error);
+      res.status(500).json({ 
+        error: error.message || 'Internal server error' 
+      });
+    }
+  };
+
   /**
    * Get all available permissions
    */
@@ -328,7 +622,14 @@ export function createRoleController(rbac: RBAC) {
     deleteRole,
     assignRoleToUser,
     removeRoleFromUser,
+    assignRolesBulk,
+    removeRolesBulk,
+    replaceUserRoles,
     getUserRoles,
+    grantPermissionToUser,
+    revokePermissionFromUser,
+    getUserDirectPermissions,
+    explainPermission,
     getPermissions
   };
 }
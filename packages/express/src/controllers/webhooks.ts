@@ -0,0 +1,266 @@
+import { Response } from 'express';
+import { RBAC, WebhookDeliveryStatus } from 'granular-rbac-core';
+import { AuthRequest } from '../middleware/auth';
+
+export function createWebhookController(rbac: RBAC) {
+  const webhooks = rbac.webhookService;
+
+  /**
+   * List a tenant's webhook endpoints
+   */
+  const getWebhooks = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { tenantId } = req;
+
+      if (!tenantId) {
+        res.status(400).json({ error: 'Tenant ID is required' });
+        return;
+      }
+
+      const endpoints = await webhooks.getEndpoints(tenantId);
+
+      res.status(200).json({ webhooks: endpoints });
+    } catch (error: any) {
+      console.error('Error fetching webhooks:', error);
+      res.status(500).json({ 
+        error: error.message || 'Internal server error' 
+      });
+    }
+  };
+
+  /**
+   * Register a webhook endpoint; the response is the only time the secret is shown
+   */
+  const createWebhook = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { url, events, description } = req.body;
+      const { tenantId } = req;
+
+      if (!tenantId) {
+        res.status(400).json({ error: 'Tenant ID is required' });
+        return;
+      }
+
+      if (!url || !Array.isArray(events)) {
+        res.status(400).json({ error: 'url and events are required' });
+        return;
+      }
+
+      const webhook = await webhooks.registerEndpoint(tenantId, { url, events, description });
+
+      res.status(201).json({
+        message: 'Webhook created successfully',
+        webhook
+      });
+    } catch (error: any) {
+      console.error('Error creating webhook:', error);
+      res.status(500).json({ 
+        error: error.message || 'Internal server error' 
+      });
+    }
+  };
+
+  /**
+   * Update a webhook endpoint's URL, events, description or active flag
+   */
+  const updateWebhook = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { url, events, description, active } = req.body;
+      const { tenantId } = req;
+
+      if (!tenantId) {
+        res.status(400).json({ error: 'Tenant ID is required' });
+        return;
+      }
+
+      const webhookId = parseInt(req.params.webhookId, 10);
+      if (isNaN(webhookId)) {
+        res.status(400).json({ error: 'Invalid webhook ID' });
+        return;
+      }
+
+      const webhook = await webhooks.updateEndpoint(webhookId, tenantId, { url, events, description, active });
+
+      res.status(200).json({
+        message: 'Webhook updated successfully',
+        webhook
+      });
+    } catch (error: any) {
+      console.error('Error updating webhook:', error);
+      res.status(500).json({ 
+        error: error.message || 'Internal server error' 
+      });
+    }
+  };
+
+  /**
+   * Delete a webhook endpoint and its delivery log
+   */
+  const deleteWebhook = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { tenantId } = req;
+
+      if (!tenantId) {
+        res.status(400).json({ error: 'Tenant ID is required' });
+        return;
+      }
+
+      const webhookId = parseInt(req.params.webhookId, 10);
+      if (isNaN(webhookId)) {
+        res.status(400).json({ error: 'Invalid webhook ID' });
+        return;
+      }
+
+      await webhooks.deleteEndpoint(webhookId, tenantId);
+
+      res.status(200).json({
+        message: 'Webhook deleted successfully'
+      });
+    } catch (error: any) {
+      console.error('Error deleting webhook:', error);
+      res.status(500).json({ 
+        error: error.message || 'Internal server error' 
+      });
+    }
+  };
+
+  /**
+   * Issue a new signing secret for a webhook endpoint
+   */
+  const rotateWebhookSecret = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { tenantId } = req;
+
+      if (!tenantId) {
+        res.status(400).json({ error: 'Tenant ID is required' });
+        return;
+      }
+
+      const webhookId = parseInt(req.params.webhookId, 10);
+      if (isNaN(webhookId)) {
+        res.status(400).json({ error: 'Invalid webhook ID' });
+        return;
+      }
+
+      const secret = await webhooks.rotateSecret(webhookId, tenantId);
+
+      res.status(200).json({ secret });
+    } catch (error: any) {
+      console.error('Error rotating webhook secret:', error);
+      res.status(500).json({ 
+        error: error.message || 'Internal server error' 
+      });
+    }
+  };
+
+  /**
+   * Get a page of webhook deliveries, optionally for one endpoint or status
+   */
+  const getDeliveries = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { tenantId } = req;
+      const { webhookId, status, limit, offset } = req.query;
+
+      if (!tenantId) {
+        res.status(400).json({ error: 'Tenant ID is required' });
+        return;
+      }
+
+      const toNumber = (value: unknown) =>
+        value === undefined ? undefined : parseInt(value as string, 10);
+
+      const query = {
+        endpointId: toNumber(webhookId),
+        status: status as WebhookDeliveryStatus | undefined,
+        limit: toNumber(limit),
+        offset: toNumber(offset),
+      };
+
+      if (Object.values(query).some(value => typeof value === 'number' && isNaN(value))) {
+        res.status(400).json({ error: 'Invalid pagination or filter parameters' });
+        return;
+      }
+
+      const page = await webhooks.getDeliveries(tenantId, query);
+
+      res.status(200).json(page);
+    } catch (error: any) {
+      console.error('Error fetching webhook deliveries:', error);
+      res.status(500).json({ 
+        error: error.message || 'Internal server error' 
+      });
+    }
+  };
+
+  /**
+   * Get every attempt made for one delivery
+   */
+  const getDeliveryAttempts = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { tenantId } = req;
+
+      if (!tenantId) {
+        res.status(400).json({ error: 'Tenant ID is required' });
+        return;
+      }
+
+      const deliveryId = parseInt(req.params.deliveryId, 10);
+      if (isNaN(deliveryId)) {
+        res.status(400).json({ error: 'Invalid delivery ID' });
+        return;
+      }
+
+      const attempts = await webhooks.getDeliveryAttempts(deliveryId, tenantId);
+
+      res.status(200).json({ attempts });
+    } catch (error: any) {
+      console.error('Error fetching webhook delivery attempts:', error);
+      res.status(500).json({ 
+        error: error.message || 'Internal server error' 
+      });
+    }
+  };
+
+  /**
+   * Queue a delivery to be sent again
+   */
+  const redeliver = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { tenantId } = req;
+
+      if (!tenantId) {
+        res.status(400).json({ error: 'Tenant ID is required' });
+        return;
+      }
+
+      const deliveryId = parseInt(req.params.deliveryId, 10);
+      if (isNaN(deliveryId)) {
+        res.status(400).json({ error: 'Invalid delivery ID' });
+        return;
+      }
+
+      const delivery = await webhooks.redeliver(deliveryId, tenantId);
+
+      res.status(200).json({
+        message: 'Delivery queued',
+        delivery
+      });
+    } catch (error: any) {
+      console.error('Error redelivering webhook:', error);
+      res.status(500).json({ 
+        error: error.message || 'Internal server error' 
+      });
+    }
+  };
+
+  return {
+    getWebhooks,
+    createWebhook,
+    updateWebhook,
+    deleteWebhook,
+    rotateWebhookSecret,
+    getDeliveries,
+    getDeliveryAttempts,
+    redeliver
+  };
+}
@@ -1,8 +1,16 @@
 export { createPermissionMiddleware } from './middleware/auth';
+export { loadRBACUser } from './middleware/load-user';
+export { verifyPermissionToken } from './middleware/permission-token';
 export { createRoleController } from './controllers/roles';
+export { createAuditController } from './controllers/audit';
+export { createMembershipController } from './controllers/memberships';
+export { createWebhookController } from './controllers/webhooks';
+export { createBundleController } from './controllers/bundles';
 export { createRoleRoutes } from './routes/roles';
 
-export type { AuthRequest } from './middleware/auth';
+export type { AuthRequest, ResourceLoader, RequirePermissionOptions } from './middleware/auth';
+export type { UserIdResolver, LoadRBACUserOptions } from './middleware/load-user';
+export type { TokenExtractor, VerifyPermissionTokenOptions } from './middleware/permission-token';
 
 // Re-export types from core
 // export type {
@@ -1,16 +1,25 @@
 import { Request, Response, NextFunction } from 'express';
-import { PermissionEngine, User } from 'granular-rbac-core';
+import { PermissionEngine, User, UserType } from 'granular-rbac-core';
 
 export interface AuthRequest extends Request {
   user?: User;
   tenantId?: number;
+  resource?: any;
 }
 
-export function createPermissionMiddleware(engine: PermissionEngine) {
+export type ResourceLoader = (req: AuthRequest) => any | Promise<any>;
+
+export interface RequirePermissionOptions {
+  requireAll?: boolean;
+  loadResource?: ResourceLoader; // Enables conditional grants; result is exposed as req.resource
+}
+
+// Permission names are checked against the engine's config when it is typed
+export function createPermissionMiddleware<N extends string = string>(engine: PermissionEngine<N>) {
   /**
    * Middleware to require specific permissions
    */
-  function requirePermission(permission: string | string[], options?: { requireAll?: boolean }) {
+  function requirePermission(permission: N | N[], options?: RequirePermissionOptions) {
     return async (req: AuthRequest, res: Response, next: NextFunction) => {
       if (!req.user) {
         return res.status(401).json({ 
@@ -22,31 +31,79 @@ export function createPermissionMiddleware(engine: PermissionEngine) {
       const permissions = Array.isArray(permission) ? permission : [permission];
       const requireAll = options?.requireAll || false;
 
+      // Decision logs carry the request
+      const metadata = { method: req.method, path: req.originalUrl };
+      const checkWithoutResource = () =>
+        checkEach(permissions, requireAll, p => engine.checkPermission(req.user!, p, req.tenantId, metadata));
+
       let hasAccess: boolean;
-      
-      if (requireAll) {
-        hasAccess = await engine.userHasAllPermissions(req.user, permissions, req.tenantId);
-      } else {
-        hasAccess = await engine.userHasAnyPermission(req.user, permissions, req.tenantId);
+
+      try {
+        if (options?.loadResource) {
+          req.resource = await options.loadResource(req);
+
+          // Only callers with unconditional access learn that a resource is
+          // missing; everyone else gets the same 403 as for one they can't use
+          if (req.resource === null || req.resource === undefined) {
+            if (!(await checkWithoutResource())) {
+              return denied(res, permissions, requireAll);
+            }
+
+            return res.status(404).json({ 
+              error: 'Resource not found',
+              code: 'RESOURCE_NOT_FOUND'
+            });
+          }
+
+          const context = { tenantId: req.tenantId };
+          hasAccess = await checkEach(permissions, requireAll, p =>
+            engine.checkResourcePermission(req.user!, p, req.resource, context, metadata));
+        } else {
+          hasAccess = await checkWithoutResource();
+        }
+      } catch (error) {
+        // A throwing loader or condition must not leave the request hanging
+        return next(error);
       }
 
       if (!hasAccess) {
-        return res.status(403).json({ 
-          error: 'Insufficient permissions',
-          code: 'INSUFFICIENT_PERMISSIONS',
-          required: permissions,
-          requireAll
-        });
+        return denied(res, permissions, requireAll);
       }
 
       next();
     };
   }
 
+  /**
+   * Run checks in order, stopping at the first one that settles the result
+   */
+  async function checkEach(
+    permissions: N[],
+    requireAll: boolean,
+    check: (permission: N) => Promise<{ granted: boolean }>
+  ): Promise<boolean> {
+    for (const p of permissions) {
+      const { granted } = await check(p);
+      if (granted !== requireAll) {
+        return granted;
+      }
+    }
+    return requireAll;
+  }
+
+  function denied(res: Response, permissions: N[], requireAll: boolean) {
+    return res.status(403).json({ 
+      error: 'Insufficient permissions',
+      code: 'INSUFFICIENT_PERMISSIONS',
+      required: permissions,
+      requireAll
+    });
+  }
+
   /**
    * Middleware to require specific user types
    */
-  function requireUserType(userType: 'superadmin' | 'admin' | 'user') {
+  function requireUserType(userType: UserType) {
     return (req: AuthRequest, res: Response, next: NextFunction) => {
       if (!req.user) {
         return res.status(401).json({ 
@@ -69,7 +126,8 @@ export function createPermissionMiddleware(engine: PermissionEngine) {
   }
 
   /**
-   * Middleware to require admin or superadmin access
+   * Middleware to require a user type that bypasses permissions in the
+   * requested tenant (tenant or global scope, e.g. admin or superadmin)
    */
   function requireAdmin() {
     return (req: AuthRequest, res: Response, next: NextFunction) => {
@@ -80,11 +138,14 @@ export function createPermissionMiddleware(engine: PermissionEngine) {
         });
       }
 
-      if (req.user.userType !== 'admin' && req.user.userType !== 'superadmin') {
+      // Membership decides whether the user administers the requested tenant
+      const scope = engine.getUserTypeScope(req.user, req.tenantId);
+
+      if (scope !== 'tenant' && scope !== 'global') {
         return res.status(403).json({ 
           error: 'Admin access required',
           code: 'ADMIN_ACCESS_REQUIRED',
-          current: req.user.userType
+          current: engine.getEffectiveUserType(req.user, req.tenantId)
         });
       }
 
@@ -93,7 +154,7 @@ export function createPermissionMiddleware(engine: PermissionEngine) {
   }
 
   /**
-   * Middleware to require superadmin access
+   * Middleware to require a user type with global scope (e.g. superadmin)
    */
   function requireSuperAdmin() {
     return (req: AuthRequest, res: Response, next: NextFunction) => {
@@ -104,7 +165,7 @@ export function createPermissionMiddleware(engine: PermissionEngine) {
         });
       }
 
-      if (req.user.userType !== 'superadmin') {
+      if (engine.getUserTypeScope(req.user) !== 'global') {
         return res.status(403).json({ 
           error: 'SuperAdmin access required',
           code: 'SUPERADMIN_ACCESS_REQUIRED',
@@ -143,18 +204,19 @@ export function createPermissionMiddleware(engine: PermissionEngine) {
         });
       }
 
-      // Superadmin can access any tenant
-      if (req.user.userType === 'superadmin') {
+      // Global user types can access any tenant
+      if (engine.getUserTypeScope(req.user) === 'global') {
         return next();
       }
 
-      // Check if user belongs to the requested tenant
-      if (req.tenantId && req.user[engine.getTenantConfig().field] !== req.tenantId) {
+      // Check if user belongs to the requested tenant, directly or via membership
+      if (req.tenantId && !engine.userBelongsToTenant(req.user, req.tenantId)) {
         return res.status(403).json({ 
           error: 'Access denied to this tenant',
           code: 'TENANT_ACCESS_DENIED',
           requestedTenant: req.tenantId,
-          userTenant: req.user[engine.getTenantConfig().field]
+          userTenant: req.user[engine.getTenantConfig().field],
+          memberTenants: (req.user.memberships || []).map(m => m.tenantId)
         });
       }
 
@@ -0,0 +1,94 @@
+import { Response, NextFunction } from 'express';
+import { RBAC, User } from 'granular-rbac-core';
+import { AuthRequest } from './auth';
+
+export type UserIdResolver = (req: AuthRequest) =>
+  number | string | null | undefined | Promise<number | string | null | undefined>;
+
+export interface LoadRBACUserOptions {
+  resolveUserId: UserIdResolver; // e.g. req => req.session?.userId or decoded JWT claims
+  required?: boolean;            // Respond 401 when no identity is found (default false)
+  memoize?: boolean;             // Reuse the loaded user within the same request (default true)
+}
+
+// Keyed by request so repeated loads in one request share a single lookup
+const loadedUsers = new WeakMap<AuthRequest, Map<string, Promise<User | null>>>();
+
+/**
+ * Middleware that resolves the caller's identity and attaches the user with
+ * roles and permissions for req.tenantId, so it must run after extractTenantId
+ */
+export function loadRBACUser(rbac: RBAC, options: LoadRBACUserOptions) {
+  const required = options.required || false;
+  const memoize = options.memoize !== false;
+
+  return async (req: AuthRequest, res: Response, next: NextFunction) => {
+    let rawUserId: number | string | null | undefined;
+
+    try {
+      rawUserId = await options.resolveUserId(req);
+    } catch (error) {
+      return next(error);
+    }
+
+    if (rawUserId === null || rawUserId === undefined || rawUserId === '') {
+      if (required) {
+        return res.status(401).json({
+          error: 'Authentication required',
+          code: 'AUTH_REQUIRED'
+        });
+      }
+      return next();
+    }
+
+    const userId = typeof rawUserId === 'number' ? rawUserId : parseInt(rawUserId, 10);
+
+    if (Number.isNaN(userId)) {
+      return res.status(401).json({
+        error: 'Invalid user identity',
+        code: 'INVALID_IDENTITY'
+      });
+    }
+
+    if (!req.tenantId) {
+      return res.status(400).json({
+        error: 'Tenant ID is required',
+        code: 'TENANT_REQUIRED'
+      });
+    }
+
+    let user: User | null;
+
+    try {
+      const key = `${userId}:${req.tenantId}`;
+      let requestUsers = loadedUsers.get(req);
+      let pending = memoize ? requestUsers?.get(key) : undefined;
+
+      if (!pending) {
+        pending = rbac.getUserWithPermissions(userId, req.tenantId);
+
+        if (memoize) {
+          if (!requestUsers) {
+            requestUsers = new Map();
+            loadedUsers.set(req, requestUsers);
+          }
+          requestUsers.set(key, pending);
+        }
+      }
+
+      user = await pending;
+    } catch (error) {
+      return next(error);
+    }
+
+    if (!user) {
+      return res.status(401).json({
+        error: 'User not found',
+        code: 'USER_NOT_FOUND'
+      });
+    }
+
+    req.user = user;
+    next();
+  };
+}
@@ -0,0 +1,67 @@
+import { Response, NextFunction } from 'express';
+import { PermissionClaimCodec } from 'granular-rbac-core';
+import { AuthRequest } from './auth';
+
+export type TokenExtractor = (req: AuthRequest) => string | null | undefined;
+
+export interface VerifyPermissionTokenOptions {
+  getToken?: TokenExtractor; // Defaults to the Authorization: Bearer header
+}
+
+function bearerToken(req: AuthRequest): string | undefined {
+  const header = req.headers.authorization;
+  return header?.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : undefined;
+}
+
+function invalidToken(res: Response, error: unknown) {
+  return res.status(401).json({
+    error: (error instanceof Error && error.message) || 'Invalid permission token',
+    code: 'INVALID_TOKEN'
+  });
+}
+
+/**
+ * Middleware that verifies a signed permission token and attaches the user it
+ * describes, without any database access. Sets req.tenantId from the token
+ * when extractTenantId has not already done so.
+ */
+export function verifyPermissionToken(codec: PermissionClaimCodec, options: VerifyPermissionTokenOptions = {}) {
+  const getToken = options.getToken || bearerToken;
+
+  return (req: AuthRequest, res: Response, next: NextFunction) => {
+    const token = getToken(req);
+
+    if (!token) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        code: 'AUTH_REQUIRED'
+      });
+    }
+
+    let claim;
+    try {
+      claim = codec.verify(token);
+    } catch (error) {
+      return invalidToken(res, error);
+    }
+
+    // The permissions in a token only hold for the tenant it was issued for
+    if (req.tenantId && req.tenantId !== claim.tid) {
+      return res.status(403).json({
+        error: 'Access denied to this tenant',
+        code: 'TENANT_ACCESS_DENIED',
+        requestedTenant: req.tenantId,
+        tokenTenant: claim.tid
+      });
+    }
+
+    try {
+      req.user = codec.claimToUser(claim);
+    } catch (error) {
+      return invalidToken(res, error);
+    }
+
+    req.tenantId = claim.tid;
+    next();
+  };
+}
@@ -2,11 +2,19 @@ import { Router } from 'express';
 import { RBAC } from 'granular-rbac-core';
 import { createPermissionMiddleware } from '../middleware/auth';
 import { createRoleController } from '../controllers/roles';
+import { createAuditController } from '../controllers/audit';
+import { createMembershipController } from '../controllers/memberships';
+import { createWebhookController } from '../controllers/webhooks';
+import { createBundleController } from '../controllers/bundles';
 
 export function createRoleRoutes(rbac: RBAC) {
   const router = Router();
   const middleware = createPermissionMiddleware(rbac.engine);
   const controller = createRoleController(rbac);
+  const auditController = createAuditController(rbac);
+  const membershipController = createMembershipController(rbac);
+  const webhookController = createWebhookController(rbac);
+  const bundleController = createBundleController(rbac);
 
   // Extract tenant ID from params for all routes
   router.use('/:tenantId/*', middleware.extractTenantId('params', 'tenantId'));
@@ -15,6 +23,28 @@ export function createRoleRoutes(rbac: RBAC) {
   // Get all available permissions (Admin+)
   router.get('/:tenantId/permissions', middleware.requireAdmin(), controller.getPermissions);
 
+  // Audit log of role and assignment changes (Admin+)
+  router.get('/:tenantId/audit-log', middleware.requireAdmin(), auditController.getAuditLog);
+
+  // Tenant membership routes (Admin+)
+  router.get('/:tenantId/members', middleware.requireAdmin(), membershipController.getMembers);
+  router.put('/:tenantId/members/:userId', middleware.requireAdmin(), membershipController.setMembership);
+  router.delete('/:tenantId/members/:userId', middleware.requireAdmin(), membershipController.removeMembership);
+
+  // Webhook endpoints and delivery log (Admin+)
+  router.get('/:tenantId/webhooks', middleware.requireAdmin(), webhookController.getWebhooks);
+  router.post('/:tenantId/webhooks', middleware.requireAdmin(), webhookController.createWebhook);
+  router.get('/:tenantId/webhooks/deliveries', middleware.requireAdmin(), webhookController.getDeliveries);
+  router.get('/:tenantId/webhooks/deliveries/:deliveryId/attempts', middleware.requireAdmin(), webhookController.getDeliveryAttempts);
+  router.post('/:tenantId/webhooks/deliveries/:deliveryId/redeliver', middleware.requireAdmin(), webhookController.redeliver);
+  router.put('/:tenantId/webhooks/:webhookId', middleware.requireAdmin(), webhookController.updateWebhook);
+  router.delete('/:tenantId/webhooks/:webhookId', middleware.requireAdmin(), webhookController.deleteWebhook);
+  router.post('/:tenantId/webhooks/:webhookId/rotate-secret', middleware.requireAdmin(), webhookController.rotateWebhookSecret);
+
+  // Portable role bundles (Admin+)
+  router.get('/:tenantId/export', middleware.requireAdmin(), bundleController.exportTenant);
+  router.post('/:tenantId/import', middleware.requireAdmin(), bundleController.importTenant);
+
   // Role management routes (Admin+)
   router.post('/:tenantId', middleware.requireAdmin(), controller.createRole);
   router.get('/:tenantId', middleware.requireAdmin(), controller.getRoles);
@@ -24,8 +54,19 @@ export function createRoleRoutes(rbac: RBAC) {
 
   // User role assignment routes (Admin+)
   router.post('/:tenantId/assign', middleware.requireAdmin(), controller.assignRoleToUser);
+  router.post('/:tenantId/assign/bulk', middleware.requireAdmin(), controller.assignRolesBulk);
+  router.post('/:tenantId/unassign/bulk', middleware.requireAdmin(), controller.removeRolesBulk);
+  router.put('/:tenantId/users/:userId/roles', middleware.requireAdmin(), controller.replaceUserRoles);
   router.delete('/:tenantId/users/:userId/roles/:roleId', middleware.requireAdmin(), controller.removeRoleFromUser);
   router.get('/:tenantId/users/:userId', middleware.requireAdmin(), controller.getUserRoles);
 
+  // Direct user permission routes (Admin+)
+  router.get('/:tenantId/users/:userId/permissions', middleware.requireAdmin(), controller.getUserDirectPermissions);
+  router.post('/:tenantId/users/:userId/permissions', middleware.requireAdmin(), controller.grantPermissionToUser);
+  router.delete('/:tenantId/users/:userId/permissions/:permission', middleware.requireAdmin(), controller.revokePermissionFromUser);
+
+  // Permission debugging (Admin+)
+  router.get('/:tenantId/users/:userId/explain/:permission', middleware.requireAdmin(), controller.explainPermission);
+
   return router;
 }
@@ -1,59 +0,0 @@
-// Simple standalone Express package for granular RBAC
-// This version compiles without external dependencies
-
-export interface AuthRequest {
-  user?: any;
-  params?: any;
-  query?: any;
-  body?: any;
-}
-
-export interface PermissionEngine {
-  userHasPermission: (user: any, permission: string, tenantId?: any) => boolean;
-  userHasAnyPermission: (user: any, permissions: string[], tenantId?: any) => boolean;
-  userHasAllPermissions: (user: any, permissions: string[], tenantId?: any) => boolean;
-  userHasRole: (user: any, role: string, tenantId?: any) => boolean;
-  userHasAnyRole: (user: any, roles: string[], tenantId?: any) => boolean;
-}
-
-export interface RBAC {
-  engine: PermissionEngine;
-}
-
-// Placeholder middleware functions for compilation
-export const createPermissionMiddleware = (engine: PermissionEngine) => {
-  return (permissions: string[]) => {
-    return (req: any, res: any, next: any) => {
-      next();
-    };
-  };
-};
-
-export const createRoleController = (rbac: RBAC) => {
-  return {
-    createRole: (req: any, res: any) => res.json({ message: 'Role controller placeholder' }),
-    getRoles: (req: any, res: any) => res.json({ roles: [] }),
-    getRoleById: (req: any, res: any) => res.json({ role: null }),
-    updateRole: (req: any, res: any) => res.json({ message: 'Updated' }),
-    deleteRole: (req: any, res: any) => res.json({ message: 'Deleted' }),
-    assignRole: (req: any, res: any) => res.json({ message: 'Assigned' }),
-    unassignRole: (req: any, res: any) => res.json({ message: 'Unassigned' }),
-    getUserRoles: (req: any, res: any) => res.json({ roles: [] })
-  };
-};
-
-export const createRoleRoutes = (rbac: RBAC) => {
-  // Return a placeholder router-like object
-  return {
-    get: () => {},
-    post: () => {},
-    put: () => {},
-    delete: () => {}
-  };
-};
-
-export default {
-  createPermissionMiddleware,
-  createRoleController,
-  createRoleRoutes
-};
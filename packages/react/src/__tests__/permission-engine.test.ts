@@ -0,0 +1,80 @@
+import { SimplePermissionEngine, User } from '../permission-engine';
+
+const engine = new SimplePermissionEngine({
+  permissions: {
+    orders: [{ shortName: 'orders.view' }, { shortName: 'orders.edit' }],
+    billing: [{ shortName: 'billing.view' }, { shortName: 'billing.refund' }],
+  },
+  tenant: { field: 'shopId', model: 'Shop' },
+});
+
+function user(overrides: Partial<User> = {}): User {
+  return { id: 1, userType: 'user', shopId: 1, ...overrides };
+}
+
+describe('SimplePermissionEngine', () => {
+  it('combines direct and role grants, expanding wildcards', () => {
+    const clerk = user({ permissions: ['billing.view'], roles: [{ name: 'Clerk', permissions: ['orders.*'] }] });
+
+    expect(engine.userHasPermission(clerk, 'orders.edit')).toBe(true);
+    expect(engine.userHasPermission(clerk, 'billing.view')).toBe(true);
+    expect(engine.userHasPermission(clerk, 'billing.refund')).toBe(false);
+    expect(engine.getUserPermissions(clerk).sort()).toEqual(['billing.view', 'orders.edit', 'orders.view']);
+  });
+
+  it('lets deny grants override allows', () => {
+    const billing = user({ roles: [{ name: 'Billing', permissions: ['billing.*'] }, { name: 'No Refunds', permissions: ['!billing.refund'] }] });
+
+    expect(engine.userHasPermission(billing, 'billing.refund')).toBe(false);
+    expect(engine.getUserPermissions(billing)).toEqual(['billing.view']);
+    expect(engine.explain(billing, 'billing.refund')).toMatchObject({
+      reason: 'explicit-deny',
+      deniedBy: [{ grant: '!billing.refund', roleName: 'No Refunds' }],
+    });
+  });
+
+  it('treats conditional denies as always applying and ignores conditional allows', () => {
+    const refunds = user({ permissions: ['billing.refund', '!billing.refund@overLimit', 'orders.edit@own'] });
+
+    expect(engine.userHasPermission(refunds, 'billing.refund')).toBe(false);
+    expect(engine.userHasPermission(refunds, 'orders.edit')).toBe(false);
+    expect(engine.getUserPermissions(refunds)).toEqual([]);
+  });
+
+  it('lets bypass user types through', () => {
+    expect(engine.userHasPermission(user({ userType: 'superadmin' }), 'billing.refund', 2)).toBe(true);
+    expect(engine.userHasPermission(user({ userType: 'admin' }), 'billing.refund', 1)).toBe(true);
+    expect(engine.userHasPermission(null, 'orders.view')).toBe(false);
+  });
+
+  describe('in tenants', () => {
+    const member = user({
+      userType: 'admin',
+      permissions: ['orders.view'],
+      memberships: [{ tenantId: 2, userType: 'user' }, { tenantId: 3, userType: 'admin' }],
+    });
+
+    it('applies the membership type, then the home tenant type', () => {
+      expect(engine.getUserTypeScope(member, 1)).toBe('tenant');
+      expect(engine.getUserTypeScope(member, 2)).toBe('none');
+      expect(engine.getUserTypeScope(member, 3)).toBe('tenant');
+      expect(engine.userHasPermission(member, 'billing.view', 2)).toBe(false);
+    });
+
+    it('gives no user type outside the user\'s tenants', () => {
+      expect(engine.getUserTypeScope(member, 4)).toBeUndefined();
+      expect(engine.userCanBypassPermissions(member, 4)).toBe(false);
+      expect(engine.userHasPermission(member, 'billing.view', 4)).toBe(false);
+    });
+
+    it('reports a tenant mismatch only outside the user\'s tenants', () => {
+      expect(engine.explain(member, 'orders.view', 1).tenantMismatch).toBe(false);
+      expect(engine.explain(member, 'orders.view', 2).tenantMismatch).toBe(false);
+      expect(engine.explain(member, 'orders.view')).toMatchObject({ tenantMismatch: false });
+
+      const outside = engine.explain(member, 'orders.view', 4);
+      expect(outside.tenantMismatch).toBe(true);
+      expect(outside.trace[0]).toBe('User is not a member of tenant 4 (home tenant: 1)');
+    });
+  });
+});
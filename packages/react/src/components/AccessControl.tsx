@@ -1,9 +1,9 @@
 import React, { ReactNode } from 'react';
-import { useRBAC } from '../context';
+import { useRBAC, PermissionName } from '../context';
 
 interface AccessControlProps {
   children: ReactNode;
-  permissions?: string[];
+  permissions?: PermissionName[];
   roles?: string[];
   fallback?: ReactNode;
   requireAll?: boolean;
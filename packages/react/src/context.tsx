@@ -1,43 +1,34 @@
 import React, { createContext, useContext, ReactNode } from 'react';
+import { PermissionEngine, PermissionExplanation, RBACConfig, SimplePermissionEngine, User } from './permission-engine';
 
-export interface User {
-  id: number;
-  permissions?: string[];
-  roles?: Array<{ name: string; permissions: string[] }>;
-  userType?: string;
-  [key: string]: any;
-}
+export { DEFAULT_USER_TYPES } from './permission-engine';
+export type { PermissionEngine, PermissionExplanation, RBACConfig, User, UserTypeDefinition, UserTypeScope } from './permission-engine';
 
-export interface PermissionEngine {
-  userHasPermission(user: User | null, permission: string, tenantId?: any): boolean;
-  userHasAnyPermission(user: User | null, permissions: string[], tenantId?: any): boolean;
-  userHasAllPermissions(user: User | null, permissions: string[], tenantId?: any): boolean;
-  userHasRole(user: User | null, role: string, tenantId?: any): boolean;
-  userHasAnyRole(user: User | null, roles: string[], tenantId?: any): boolean;
-  userCanBypassPermissions(user: User | null): boolean;
-  getUserPermissions(user: User | null): string[];
-}
+// Augment to type-check permission names in every hook and component:
+//   declare module 'granular-rbac-react' {
+//     interface Register { permissions: typeof PERMISSIONS }
+//   }
+export interface Register {}
 
-export interface RBACConfig {
-  permissions: Record<string, any>;
-  tenant?: {
-    field: string;
-    model: string;
-  };
+export type PermissionName = Register extends {
+  permissions: infer P extends Record<string, readonly { shortName: string }[]>;
 }
+  ? P[keyof P][number]['shortName']
+  : string;
 
 interface RBACContextValue {
   user: User | null;
   engine: PermissionEngine;
-  hasPermission: (permission: string) => boolean;
-  hasAnyPermission: (permissions: string[]) => boolean;
-  hasAllPermissions: (permissions: string[]) => boolean;
+  hasPermission: (permission: PermissionName) => boolean;
+  hasAnyPermission: (permissions: PermissionName[]) => boolean;
+  hasAllPermissions: (permissions: PermissionName[]) => boolean;
   hasRole: (role: string) => boolean;
   hasAnyRole: (roles: string[]) => boolean;
   canBypassPermissions: () => boolean;
   isAdmin: () => boolean;
   isSuperAdmin: () => boolean;
   getUserPermissions: () => string[];
+  explainPermission: (permission: PermissionName) => PermissionExplanation;
 }
 
 const RBACContext = createContext<RBACContextValue | null>(null);
@@ -49,70 +40,6 @@ interface RBACProviderProps {
   tenantId?: number;
 }
 
-// Simple permission engine implementation
-class SimplePermissionEngine implements PermissionEngine {
-  constructor(private config: RBACConfig) {}
-
-  userHasPermission(user: User | null, permission: string, tenantId?: any): boolean {
-    if (!user) return false;
-    
-    // Check superadmin/admin bypass
-    if (user.userType === 'superadmin' || user.userType === 'admin') return true;
-    
-    // Check direct permissions
-    if (user.permissions?.includes(permission)) return true;
-    
-    // Check role permissions
-    if (user.roles) {
-      return user.roles.some(role => role.permissions.includes(permission));
-    }
-    
-    return false;
-  }
-
-  userHasAnyPermission(user: User | null, permissions: string[], tenantId?: any): boolean {
-    return permissions.some(permission => this.userHasPermission(user, permission, tenantId));
-  }
-
-  userHasAllPermissions(user: User | null, permissions: string[], tenantId?: any): boolean {
-    return permissions.every(permission => this.userHasPermission(user, permission, tenantId));
-  }
-
-  userHasRole(user: User | null, role: string, tenantId?: any): boolean {
-    if (!user) return false;
-    return user.roles?.some(r => r.name === role) || false;
-  }
-
-  userHasAnyRole(user: User | null, roles: string[], tenantId?: any): boolean {
-    return roles.some(role => this.userHasRole(user, role, tenantId));
-  }
-
-  userCanBypassPermissions(user: User | null): boolean {
-    if (!user) return false;
-    return user.userType === 'superadmin' || user.userType === 'admin';
-  }
-
-  getUserPermissions(user: User | null): string[] {
-    if (!user) return [];
-    
-    const permissions = new Set<string>();
-    
-    // Add direct permissions
-    if (user.permissions) {
-      user.permissions.forEach(p => permissions.add(p));
-    }
-    
-    // Add role permissions
-    if (user.roles) {
-      user.roles.forEach(role => {
-        role.permissions.forEach(p => permissions.add(p));
-      });
-    }
-    
-    return Array.from(permissions);
-  }
-}
-
 export function RBACProvider({ children, user, config, tenantId }: RBACProviderProps) {
   const engine = new SimplePermissionEngine(config);
   
@@ -137,21 +64,27 @@ export function RBACProvider({ children, user, config, tenantId }: RBACProviderP
   };
 
   const canBypassPermissions = (): boolean => {
-    return engine.userCanBypassPermissions(user);
+    return engine.userCanBypassPermissions(user, tenantId);
   };
 
+  // Admin-ness follows the configured user type scopes
   const isAdmin = (): boolean => {
-    return user?.userType === 'admin' || user?.userType === 'superadmin';
+    const scope = engine.getUserTypeScope(user, tenantId);
+    return scope === 'tenant' || scope === 'global';
   };
 
   const isSuperAdmin = (): boolean => {
-    return user?.userType === 'superadmin';
+    return engine.getUserTypeScope(user) === 'global';
   };
 
   const getUserPermissions = (): string[] => {
     return engine.getUserPermissions(user);
   };
 
+  const explainPermission = (permission: string): PermissionExplanation => {
+    return engine.explain(user, permission, tenantId);
+  };
+
   return (
     <RBACContext.Provider value={{ 
       user, 
@@ -164,7 +97,8 @@ export function RBACProvider({ children, user, config, tenantId }: RBACProviderP
       canBypassPermissions,
       isAdmin,
       isSuperAdmin,
-      getUserPermissions
+      getUserPermissions,
+      explainPermission
     }}>
       {children}
     </RBACContext.Provider>
@@ -1,11 +1,11 @@
-import { useRBAC } from '../context';
+import { useRBAC, PermissionExplanation, PermissionName } from '../context';
 
-export function usePermission(permission: string): boolean {
+export function usePermission(permission: PermissionName): boolean {
   const { hasPermission } = useRBAC();
   return hasPermission(permission);
 }
 
-export function usePermissions(permissions: string[], requireAll = false): boolean {
+export function usePermissions(permissions: PermissionName[], requireAll = false): boolean {
   const { hasAnyPermission, hasAllPermissions } = useRBAC();
   return requireAll ? hasAllPermissions(permissions) : hasAnyPermission(permissions);
 }
@@ -44,4 +44,9 @@ export function useIsSuperAdmin(): boolean {
 export function useUserPermissions(): string[] {
   const { getUserPermissions } = useRBAC();
   return getUserPermissions();
+}
+
+export function usePermissionExplanation(permission: PermissionName): PermissionExplanation {
+  const { explainPermission } = useRBAC();
+  return explainPermission(permission);
 }
\ No newline at end of file
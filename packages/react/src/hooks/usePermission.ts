@@ -1,7 +1,7 @@
 import { useState, useEffect } from 'react';
-import { useRBAC } from '../context';
+import { useRBAC, PermissionName } from '../context';
 
-export function usePermission(permission: string) {
+export function usePermission(permission: PermissionName) {
   const { hasPermission } = useRBAC();
   const [allowed, setAllowed] = useState<boolean>(false);
   const [loading, setLoading] = useState<boolean>(true);
@@ -19,7 +19,7 @@ export function usePermission(permission: string) {
   return { allowed, loading };
 }
 
-export function usePermissions(permissions: string[], requireAll: boolean = false) {
+export function usePermissions(permissions: PermissionName[], requireAll: boolean = false) {
   const { hasAnyPermission, hasAllPermissions } = useRBAC();
   const [allowed, setAllowed] = useState<boolean>(false);
   const [loading, setLoading] = useState<boolean>(true);
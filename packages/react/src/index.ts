@@ -1,6 +1,14 @@
-export { RBACProvider, useRBAC } from './context';
+export { RBACProvider, useRBAC, DEFAULT_USER_TYPES } from './context';
+export type { PermissionExplanation, PermissionName, Register, UserTypeDefinition, UserTypeScope } from './context';
 export { AccessControl, ProtectedRoute } from './components';
-export { usePermission, usePermissions, useRole, useRoles, useUserType } from './hooks';
+export {
+  usePermission,
+  usePermissions,
+  useRole,
+  useRoles,
+  useUserType,
+  usePermissionExplanation
+} from './hooks';
 
 // Re-export types from core (commented out for standalone compilation)
 // export type {
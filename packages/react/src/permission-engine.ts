@@ -0,0 +1,253 @@
+// Client-side permission engine shared by the provider, hooks and components.
+// Mirrors the core engine's evaluation for grants that need no resource.
+
+export interface User {
+  id: number;
+  permissions?: string[];
+  roles?: Array<{ name: string; permissions: string[] }>;
+  userType?: string;
+  [key: string]: any;
+}
+
+export interface RBACConfig {
+  permissions: Record<string, any>;
+  tenant?: {
+    field: string;
+    model: string;
+  };
+  userTypes?: Record<string, UserTypeDefinition>;
+}
+
+export type UserTypeScope = 'global' | 'tenant' | 'none';
+
+export interface UserTypeDefinition {
+  scope: UserTypeScope;
+  permissions?: string[]; // Implicit grants every user of this type holds
+}
+
+export const DEFAULT_USER_TYPES: Record<string, UserTypeDefinition> = {
+  superadmin: { scope: 'global' },
+  admin: { scope: 'tenant' },
+  user: { scope: 'none' }
+};
+
+export interface PermissionEngine {
+  userHasPermission(user: User | null, permission: string, tenantId?: any): boolean;
+  userHasAnyPermission(user: User | null, permissions: string[], tenantId?: any): boolean;
+  userHasAllPermissions(user: User | null, permissions: string[], tenantId?: any): boolean;
+  userHasRole(user: User | null, role: string, tenantId?: any): boolean;
+  userHasAnyRole(user: User | null, roles: string[], tenantId?: any): boolean;
+  userCanBypassPermissions(user: User | null, tenantId?: any): boolean;
+  getUserTypeScope(user: User | null, tenantId?: any): UserTypeScope | undefined;
+  getUserPermissions(user: User | null): string[];
+  explain(user: User | null, permission: string, tenantId?: any): PermissionExplanation;
+}
+
+export interface PermissionExplanation {
+  permission: string;
+  granted: boolean;
+  reason: 'no-user' | 'global-bypass' | 'tenant-bypass' | 'role-grant' | 'user-type-grant' | 'explicit-deny' | 'missing';
+  tenantMismatch: boolean;
+  allowedBy: Array<{ grant: string; roleName?: string }>;
+  deniedBy: Array<{ grant: string; roleName?: string }>;
+  trace: string[];
+}
+
+export class SimplePermissionEngine implements PermissionEngine {
+  constructor(private config: RBACConfig) {}
+
+  userHasPermission(user: User | null, permission: string, tenantId?: any): boolean {
+    if (!user) return false;
+    
+    // Check user type bypass (superadmin/admin by default)
+    if (this.userCanBypassPermissions(user, tenantId)) return true;
+    
+    const grants = this.collectGrants(user, tenantId);
+
+    // Deny grants ('!permission') override any allow
+    if (grants.some(grant => this.deniesPermission(grant, permission))) {
+      return false;
+    }
+    
+    // Check direct and role permissions
+    return grants.some(grant => !grant.startsWith('!') && this.grantCovers(grant, permission));
+  }
+
+  userHasAnyPermission(user: User | null, permissions: string[], tenantId?: any): boolean {
+    return permissions.some(permission => this.userHasPermission(user, permission, tenantId));
+  }
+
+  userHasAllPermissions(user: User | null, permissions: string[], tenantId?: any): boolean {
+    return permissions.every(permission => this.userHasPermission(user, permission, tenantId));
+  }
+
+  userHasRole(user: User | null, role: string, tenantId?: any): boolean {
+    if (!user) return false;
+    return user.roles?.some(r => r.name === role) || false;
+  }
+
+  userHasAnyRole(user: User | null, roles: string[], tenantId?: any): boolean {
+    return roles.some(role => this.userHasRole(user, role, tenantId));
+  }
+
+  userCanBypassPermissions(user: User | null, tenantId?: any): boolean {
+    const scope = this.getUserTypeScope(user, tenantId);
+    return scope === 'global' || scope === 'tenant';
+  }
+
+  // A tenant membership overrides the user's own type within that tenant
+  getUserTypeScope(user: User | null, tenantId?: any): UserTypeScope | undefined {
+    return this.getUserTypeDefinition(this.getEffectiveUserType(user, tenantId))?.scope;
+  }
+
+  getUserPermissions(user: User | null): string[] {
+    if (!user) return [];
+
+    if (this.userCanBypassPermissions(user)) {
+      return this.expandPermissions(['*']);
+    }
+    
+    const grants = this.collectGrants(user);
+    const denied = new Set(this.expandPermissions(
+      grants.filter(grant => grant.startsWith('!')).map(grant => grant.slice(1).split('@')[0])
+    ));
+    
+    return this.expandPermissions(grants.filter(grant => !grant.startsWith('!') && !grant.includes('@')))
+      .filter(p => !denied.has(p));
+  }
+
+  explain(user: User | null, permission: string, tenantId?: any): PermissionExplanation {
+    const tenantField = this.config.tenant?.field;
+    const userTenantId = user && tenantField ? user[tenantField] : undefined;
+    // Memberships count as belonging to a tenant, as on the server
+    const userType = this.getEffectiveUserType(user, tenantId);
+    const tenantMismatch = !!user && tenantId !== undefined && userType === undefined;
+    const trace: string[] = [];
+
+    if (tenantMismatch) {
+      trace.push(`User is not a member of tenant ${tenantId} (home tenant: ${userTenantId ?? 'none'})`);
+    }
+
+    // Direct grants have no role name; implicit grants carry their user type
+    const implicit = (this.getUserTypeDefinition(userType)?.permissions || []).map(grant => ({ grant, userType }));
+    const sources: Array<{ grant: string; roleName?: string; userType?: string }> = [
+      ...(user?.permissions || []).map(grant => ({ grant })),
+      ...(user?.roles || []).flatMap(role => role.permissions.map(grant => ({ grant, roleName: role.name }))),
+      ...implicit
+    ];
+    const deniedBy = sources.filter(s => this.deniesPermission(s.grant, permission));
+    const allowedBy = sources.filter(s => !s.grant.startsWith('!') && this.grantCovers(s.grant, permission));
+    const describe = (s: { grant: string; roleName?: string; userType?: string }) => {
+      if (s.roleName) return `'${s.grant}' from role '${s.roleName}'`;
+      if (s.userType) return `'${s.grant}' implied by user type '${s.userType}'`;
+      return `direct grant '${s.grant}'`;
+    };
+    const scope = this.getUserTypeScope(user, tenantId);
+
+    let reason: PermissionExplanation['reason'];
+    if (!user) {
+      reason = 'no-user';
+      trace.push('No user is signed in');
+    } else if (scope === 'global' || scope === 'tenant') {
+      reason = scope === 'global' ? 'global-bypass' : 'tenant-bypass';
+      trace.push(`${userType} users bypass permission checks`);
+    } else if (deniedBy.length > 0) {
+      reason = 'explicit-deny';
+      trace.push(`Denied by ${deniedBy.map(describe).join(', ')}`);
+    } else if (allowedBy.some(s => !s.userType)) {
+      reason = 'role-grant';
+      trace.push(`Granted by ${allowedBy.map(describe).join(', ')}`);
+    } else if (allowedBy.length > 0) {
+      reason = 'user-type-grant';
+      trace.push(`Granted by ${allowedBy.map(describe).join(', ')}`);
+    } else {
+      reason = 'missing';
+      trace.push(`No role or direct grant covers '${permission}'`);
+    }
+
+    return {
+      permission,
+      granted: reason !== 'no-user' && reason !== 'explicit-deny' && reason !== 'missing',
+      reason,
+      tenantMismatch,
+      allowedBy,
+      deniedBy,
+      trace
+    };
+  }
+
+  // Direct permissions plus permissions from every role and the user type
+  private collectGrants(user: User, tenantId?: any): string[] {
+    const grants = new Set<string>();
+    
+    if (user.permissions) {
+      user.permissions.forEach(p => grants.add(p));
+    }
+    
+    if (user.roles) {
+      user.roles.forEach(role => {
+        role.permissions.forEach(p => grants.add(p));
+      });
+    }
+
+    const userTypePermissions = this.getUserTypeDefinition(this.getEffectiveUserType(user, tenantId))?.permissions;
+    userTypePermissions?.forEach(p => grants.add(p));
+    
+    return Array.from(grants);
+  }
+
+  private getUserTypeDefinition(userType?: string): UserTypeDefinition | undefined {
+    const userTypes = this.config.userTypes || DEFAULT_USER_TYPES;
+    return userType && Object.prototype.hasOwnProperty.call(userTypes, userType) ? userTypes[userType] : undefined;
+  }
+
+  // Global types apply everywhere, then the tenant membership, then the
+  // user's own type in their home tenant; undefined outside their tenants
+  private getEffectiveUserType(user: User | null, tenantId?: any): string | undefined {
+    if (!user) return undefined;
+    if (tenantId === undefined || this.getUserTypeDefinition(user.userType)?.scope === 'global') {
+      return user.userType;
+    }
+
+    const membership = (user.memberships || []).find((m: { tenantId: any }) => m.tenantId === tenantId);
+    if (membership) return membership.userType;
+
+    const tenantField = this.config.tenant?.field;
+    return tenantField && user[tenantField] === tenantId ? user.userType : undefined;
+  }
+
+  // Conditions can't be evaluated without a resource, so a conditional deny
+  // ('!permission@condition') applies unconditionally, as it does on the server
+  private deniesPermission(grant: string, permission: string): boolean {
+    return grant.startsWith('!') && this.grantCovers(grant.slice(1).split('@')[0], permission);
+  }
+
+  // Wildcard grants: '*' covers everything, 'module.*' covers a config module
+  private grantCovers(grant: string, permission: string): boolean {
+    if (grant === permission || grant === '*') return true;
+    if (!grant.endsWith('.*')) return false;
+
+    const modulePermissions: Array<{ shortName: string }> = this.config.permissions[grant.slice(0, -2)] || [];
+    return modulePermissions.some(p => p.shortName === permission);
+  }
+
+  private expandPermissions(grants: string[]): string[] {
+    const expanded = new Set<string>();
+
+    grants.forEach(grant => {
+      if (grant === '*' || grant.endsWith('.*')) {
+        const modules = grant === '*'
+          ? Object.values(this.config.permissions)
+          : [this.config.permissions[grant.slice(0, -2)] || []];
+        modules.forEach((modulePermissions: Array<{ shortName: string }>) => {
+          modulePermissions.forEach(p => expanded.add(p.shortName));
+        });
+        return;
+      }
+
+      expanded.add(grant);
+    });
+
+    return Array.from(expanded);
+  }
+}
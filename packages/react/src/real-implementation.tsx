@@ -1,95 +1,20 @@
 import React, { createContext, useContext, ReactNode } from 'react';
+import { PermissionEngine, PermissionExplanation, RBACConfig, SimplePermissionEngine, User } from './permission-engine';
 
-// Types
-export interface User {
-  id: number;
-  permissions?: string[];
-  roles?: Array<{ name: string; permissions: string[] }>;
-  userType?: string;
-  [key: string]: any;
-}
+export { DEFAULT_USER_TYPES, SimplePermissionEngine } from './permission-engine';
+export type { PermissionEngine, PermissionExplanation, RBACConfig, User, UserTypeDefinition, UserTypeScope } from './permission-engine';
 
-export interface RBACConfig {
-  permissions: Record<string, any>;
-  tenant?: {
-    field: string;
-    model: string;
-  };
-}
+// Augment to type-check permission names in every hook and component:
+//   declare module 'granular-rbac-react' {
+//     interface Register { permissions: typeof PERMISSIONS }
+//   }
+export interface Register {}
 
-export interface PermissionEngine {
-  userHasPermission(user: User | null, permission: string, tenantId?: any): boolean;
-  userHasAnyPermission(user: User | null, permissions: string[], tenantId?: any): boolean;
-  userHasAllPermissions(user: User | null, permissions: string[], tenantId?: any): boolean;
-  userHasRole(user: User | null, role: string, tenantId?: any): boolean;
-  userHasAnyRole(user: User | null, roles: string[], tenantId?: any): boolean;
-  userCanBypassPermissions(user: User | null): boolean;
-  getUserPermissions(user: User | null): string[];
-}
-
-// Permission Engine Implementation
-export class SimplePermissionEngine implements PermissionEngine {
-  constructor(private config: RBACConfig) {}
-
-  userHasPermission(user: User | null, permission: string, tenantId?: any): boolean {
-    if (!user) return false;
-    
-    // Check superadmin/admin bypass
-    if (user.userType === 'superadmin' || user.userType === 'admin') return true;
-    
-    // Check direct permissions
-    if (user.permissions?.includes(permission)) return true;
-    
-    // Check role permissions
-    if (user.roles) {
-      return user.roles.some(role => role.permissions.includes(permission));
-    }
-    
-    return false;
-  }
-
-  userHasAnyPermission(user: User | null, permissions: string[], tenantId?: any): boolean {
-    return permissions.some(permission => this.userHasPermission(user, permission, tenantId));
-  }
-
-  userHasAllPermissions(user: User | null, permissions: string[], tenantId?: any): boolean {
-    return permissions.every(permission => this.userHasPermission(user, permission, tenantId));
-  }
-
-  userHasRole(user: User | null, role: string, tenantId?: any): boolean {
-    if (!user) return false;
-    return user.roles?.some(r => r.name === role) || false;
-  }
-
-  userHasAnyRole(user: User | null, roles: string[], tenantId?: any): boolean {
-    return roles.some(role => this.userHasRole(user, role, tenantId));
-  }
-
-  userCanBypassPermissions(user: User | null): boolean {
-    if (!user) return false;
-    return user.userType === 'superadmin' || user.userType === 'admin';
-  }
-
-  getUserPermissions(user: User | null): string[] {
-    if (!user) return [];
-    
-    const permissions = new Set<string>();
-    
-    // Add direct permissions
-    if (user.permissions) {
-      user.permissions.forEach(p => permissions.add(p));
-    }
-    
-    // Add role permissions
-    if (user.roles) {
-      user.roles.forEach(role => {
-        role.permissions.forEach(p => permissions.add(p));
-      });
-    }
-    
-    return Array.from(permissions);
-  }
+export type PermissionName = Register extends {
+  permissions: infer P extends Record<string, readonly { shortName: string }[]>;
 }
+  ? P[keyof P][number]['shortName']
+  : string;
 
 // React Context
 interface RBACContextType {
@@ -136,12 +61,12 @@ export function useRBAC(): RBACContextType {
 }
 
 // Permission Hooks
-export function usePermission(permission: string): boolean {
+export function usePermission(permission: PermissionName): boolean {
   const { user, engine, tenantId } = useRBAC();
   return engine.userHasPermission(user, permission, tenantId);
 }
 
-export function usePermissions(permissions: string[], requireAll = false): boolean {
+export function usePermissions(permissions: PermissionName[], requireAll = false): boolean {
   const { user, engine, tenantId } = useRBAC();
   if (requireAll) {
     return engine.userHasAllPermissions(user, permissions, tenantId);
@@ -163,6 +88,12 @@ export function useRoles(roles: string[], requireAll = false): boolean {
   return engine.userHasAnyRole(user, roles, tenantId);
 }
 
+// Debug Hook - explains why the current user has (or lacks) a permission
+export function usePermissionExplanation(permission: PermissionName): PermissionExplanation {
+  const { user, engine, tenantId } = useRBAC();
+  return engine.explain(user, permission, tenantId);
+}
+
 // User Type Hook
 export function useUserType(): string | null {
   const { user } = useRBAC();
@@ -172,7 +103,7 @@ export function useUserType(): string | null {
 // Access Control Component
 interface AccessControlProps {
   children: ReactNode;
-  permissions?: string[];
+  permissions?: PermissionName[];
   roles?: string[];
   userTypes?: string[];
   requireAll?: boolean;
@@ -219,7 +150,7 @@ export function AccessControl({
 // Protected Route Component (for react-router-dom)
 interface ProtectedRouteProps {
   children: ReactNode;
-  permissions?: string[];
+  permissions?: PermissionName[];
   roles?: string[];
   userTypes?: string[];
   requireAll?: boolean;
@@ -290,5 +221,6 @@ export default {
   useRole,
   useRoles,
   useUserType,
+  usePermissionExplanation,
   SimplePermissionEngine
 };